@@ -58,6 +58,13 @@ export default function TabLayout() {
           tabBarIcon: ({ color }) => <IconSymbol size={32} name="music.note.list" color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="rooms"
+        options={{
+          title: 'Rooms',
+          tabBarIcon: ({ color }) => <IconSymbol size={32} name="antenna.radiowaves.left.and.right" color={color} />,
+        }}
+      />
     </Tabs>
   );
 }
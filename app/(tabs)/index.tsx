@@ -1,8 +1,9 @@
 import { Ionicons } from '@expo/vector-icons';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { arrayUnion, collection, doc, onSnapshot, orderBy, query, updateDoc } from 'firebase/firestore';
 import React, { useEffect, useState } from 'react';
 import {
+    Alert,
     Animated,
     Dimensions,
     Image,
@@ -19,10 +20,17 @@ import {
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import EditUsernameModal from '../../components/EditUsernameModal';
 import MiniPlayer from '../../components/MiniPlayer';
+import QRCode from '../../components/QRCode';
+import RoomPrivacyModal from '../../components/RoomPrivacyModal';
+import RoomActivityBanner from '../../components/RoomActivityBanner';
+import RoomChatPanel from '../../components/RoomChatPanel';
+import RoomQueue from '../../components/RoomQueue';
 import { Toast, toastManager } from '../../components/Toast';
 import { db } from '../../config/firebase';
 import { useAuth } from '../../contexts/AuthContext';
 import { useMusic } from '../../contexts/MusicContext';
+import { useRoomChat } from '../../hooks/useRoomChat';
+import { getRoomInviteUrl, shareRoomInvite } from '../../services/roomInvites';
 
 interface SharedPlaylist {
   id: string;
@@ -34,6 +42,10 @@ interface SharedPlaylist {
 
 const { width, height } = Dimensions.get('window');
 const DRAWER_WIDTH = width * 0.8;
+const PRESENCE_COLORS = { online: '#4CAF50', away: '#FFC107', offline: '#666' };
+const READINESS_LABELS = { downloading: 'loading', buffered: 'ready', failed: `couldn't load` };
+const PLAYBACK_LABELS = { synced: 'in sync', lagging: 'out of sync', paused: 'paused', elsewhere: 'other track' };
+const PLAYBACK_COLORS = { synced: '#4CAF50', lagging: '#FFC107', paused: '#999', elsewhere: '#999' };
 
 export default function MusicPlayerScreen() {
   const {
@@ -44,13 +56,33 @@ export default function MusicPlayerScreen() {
     joinRoom,
     leaveRoom,
     currentRoom,
+    syncTransportKind,
     loadSongsFromStorage,
     refreshSongsFromServer,
     participants,
+    roomAccess,
+    roomRole,
+    canControl,
+    setParticipantRole,
+    transferHost,
+    roomVisibility,
+    participantStatuses,
+    participantPlayback,
+    addToRoomQueue,
+    skipVotes,
+    updateSkipVotePolicy,
+    roomNotificationsMuted,
+    setRoomNotificationsMuted,
+    participantReadiness,
+    readyWait,
+    readyCheckEnabled,
+    updateReadyCheck,
   } = useMusic();
   
   const { user, logout, username } = useAuth();
   const router = useRouter();
+  // Set when an invite link sends us back here because access was denied
+  const { joinRoomId, joinError: joinErrorParam } = useLocalSearchParams<{ joinRoomId?: string; joinError?: string }>();
   
   // Drawer state
   const [drawerOpen, setDrawerOpen] = useState(false);
@@ -61,6 +93,16 @@ export default function MusicPlayerScreen() {
   const [searchQuery, setSearchQuery] = useState('');
   const [roomId, setRoomId] = useState('');
   const [showRoomModal, setShowRoomModal] = useState(false);
+  const [roomPassphrase, setRoomPassphrase] = useState('');
+  const [needsPassphrase, setNeedsPassphrase] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [relayUrl, setRelayUrl] = useState(''); // kept between joins
+  const [joiningRoom, setJoiningRoom] = useState(false);
+  const [showPrivacyModal, setShowPrivacyModal] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  const roomChat = useRoomChat();
+  // A LAN relay carries playback, room settings and reactions, but not the Firestore-only extras
+  const isLanRoom = syncTransportKind === 'websocket';
   const [loadingSongs, setLoadingSongs] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [reloadAnimation] = useState(new Animated.Value(0));
@@ -78,6 +120,9 @@ export default function MusicPlayerScreen() {
   // Username edit modal state
   const [showEditUsernameModal, setShowEditUsernameModal] = useState(false);
 
+  // Room invite QR modal state
+  const [showInviteQR, setShowInviteQR] = useState(false);
+
   // Setup toast manager
   useEffect(() => {
     toastManager.setShowToastCallback((message, type = 'info') => {
@@ -87,6 +132,16 @@ export default function MusicPlayerScreen() {
     });
   }, []);
 
+  // Reopen the join modal when an invite could not be used directly
+  useEffect(() => {
+    if (joinRoomId) {
+      setRoomId(joinRoomId);
+      setJoinError(joinErrorParam || null);
+      setNeedsPassphrase(!!joinErrorParam);
+      setShowRoomModal(true);
+    }
+  }, [joinRoomId, joinErrorParam]);
+
   // Start reload animation when loading songs
   useEffect(() => {
     if (loadingSongs) {
@@ -158,6 +213,20 @@ export default function MusicPlayerScreen() {
     setShowPlaylistModal(true);
   };
 
+  const handleAddToUpNext = async (song: any) => {
+    if (!canControl('editQueue')) {
+      toastManager.showToast('Only the host or a DJ can edit up next', 'info');
+      return;
+    }
+    try {
+      await addToRoomQueue(song);
+      setShowPlaylistModal(false);
+      toastManager.showToast(`Added "${song.title}" to up next`, 'success');
+    } catch (error: any) {
+      toastManager.showToast(error.message || 'Failed to add to up next', 'error');
+    }
+  };
+
   // If user data not yet available, avoid rendering until root navigator handles it
   if (!user) {
     return null;
@@ -182,16 +251,39 @@ export default function MusicPlayerScreen() {
     });
   };
 
+  const closeRoomModal = () => {
+    setShowRoomModal(false);
+    setRoomId('');
+    setRoomPassphrase('');
+    setNeedsPassphrase(false);
+    setJoinError(null);
+  };
+
   const handleJoinRoom = async () => {
-    if (roomId.trim()) {
-      try {
-        await joinRoom(roomId);
-        setShowRoomModal(false);
-        setRoomId('');
-        toastManager.showToast('Joined room successfully!', 'success');
-      } catch (error) {
+    const targetRoomId = roomId.trim();
+    if (!targetRoomId) return;
+
+    setJoiningRoom(true);
+    setJoinError(null);
+    try {
+      await joinRoom(targetRoomId, {
+        passphrase: roomPassphrase || undefined,
+        relayUrl: relayUrl.trim() || undefined,
+      });
+      closeRoomModal();
+      toastManager.showToast('Joined room successfully!', 'success');
+    } catch (error: any) {
+      if (error.code === 'passphrase-required' || error.code === 'wrong-passphrase') {
+        // Keep the modal open and ask for the passphrase
+        setNeedsPassphrase(true);
+        setJoinError(error.message);
+      } else if (error.code === 'not-allowed') {
+        setJoinError(error.message);
+      } else {
         toastManager.showToast('Failed to join room', 'error');
       }
+    } finally {
+      setJoiningRoom(false);
     }
   };
 
@@ -204,6 +296,129 @@ export default function MusicPlayerScreen() {
     }
   };
 
+  const handlePlaySong = (song: any) => {
+    if (!canControl('changeTrack')) {
+      toastManager.showToast('Only the host or a DJ can change the song', 'info');
+      return;
+    }
+    playSong(song);
+  };
+
+  const getParticipantRole = (participantId: string) => {
+    if (roomAccess?.ownerId === participantId) return 'host';
+    if (roomAccess?.djIds.includes(participantId)) return 'dj';
+    return 'listener';
+  };
+
+  const renderPresenceDot = (participantId: string) => {
+    const status = participantStatuses[participantId] || 'offline';
+    return <View style={[styles.presenceDot, { backgroundColor: PRESENCE_COLORS[status] }]} />;
+  };
+
+  // Loading progress on the current track; "ready" only matters while the room waits.
+  // Once the track is loaded, what the member last reported hearing.
+  const renderReadinessLabel = (participantId: string) => {
+    const readiness = participantReadiness[participantId];
+    if (!readiness || (readiness === 'buffered' && !readyWait)) return renderPlaybackLabel(participantId);
+    return (
+      <Text style={[styles.presenceLabel, readiness === 'failed' && styles.readinessFailed]}>
+        {` • ${READINESS_LABELS[readiness]}`}
+      </Text>
+    );
+  };
+
+  const renderPlaybackLabel = (participantId: string) => {
+    const playback = participantPlayback[participantId];
+    if (!playback) return null;
+
+    let label: string;
+    if (playback.state === 'lagging' && playback.driftSec !== null) {
+      label = `${playback.driftSec > 0 ? 'behind' : 'ahead'} ${Math.abs(playback.driftSec).toFixed(1)}s`;
+    } else {
+      label = PLAYBACK_LABELS[playback.state];
+    }
+    return <Text style={[styles.presenceLabel, { color: PLAYBACK_COLORS[playback.state] }]}>{` • ${label}`}</Text>;
+  };
+
+  // Host-only: wait for everyone to load a track before it starts
+  const handleReadyCheckPress = async () => {
+    try {
+      await updateReadyCheck(!readyCheckEnabled);
+      toastManager.showToast(readyCheckEnabled ? 'Ready check off' : 'Ready check on', 'success');
+    } catch (error: any) {
+      toastManager.showToast(error.message || 'Failed to update ready check', 'error');
+    }
+  };
+
+  const describeSkipVotePolicy = () => {
+    const policy = skipVotes?.policy;
+    if (!policy || policy.mode === 'majority') return 'Majority';
+    if (policy.mode === 'host') return 'Host only';
+    return `${policy.count} votes`;
+  };
+
+  // Host-only: choose how many votes skip a song
+  const handleSkipVotePolicyPress = () => {
+    const setPolicy = async (mode: 'majority' | 'count' | 'host', count = 2) => {
+      try {
+        await updateSkipVotePolicy({ mode, count });
+        toastManager.showToast('Skip voting updated', 'success');
+      } catch (error: any) {
+        toastManager.showToast(error.message || 'Failed to update skip voting', 'error');
+      }
+    };
+
+    Alert.alert('Skip voting', 'How many votes does it take to skip a song?', [
+      { text: 'Majority', onPress: () => setPolicy('majority') },
+      { text: '2 votes', onPress: () => setPolicy('count', 2) },
+      { text: '3 votes', onPress: () => setPolicy('count', 3) },
+      { text: 'Host only', onPress: () => setPolicy('host') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  // Host-only role management from the participant list
+  const handleParticipantPress = (participant: any) => {
+    if (roomRole !== 'host') return;
+
+    const name = participant.name || 'this user';
+    const isDj = getParticipantRole(participant.id) === 'dj';
+    const runRoleAction = async (action: () => Promise<void>, successMessage: string) => {
+      try {
+        await action();
+        toastManager.showToast(successMessage, 'success');
+      } catch (error: any) {
+        toastManager.showToast(error.message || 'Failed to update role', 'error');
+      }
+    };
+
+    Alert.alert(name, 'Manage room role', [
+      isDj
+        ? { text: 'Make listener', onPress: () => runRoleAction(() => setParticipantRole(participant.id, 'listener'), `${name} is now a listener`) }
+        : { text: 'Make co-DJ', onPress: () => runRoleAction(() => setParticipantRole(participant.id, 'dj'), `${name} is now a co-DJ`) },
+      ...(isLanRoom ? [] : [{ text: 'Make host', onPress: () => runRoleAction(() => transferHost(participant.id), `${name} is now the host`) }]),
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const renderRoleBadge = (role: string) => {
+    if (role === 'listener') return null;
+    return (
+      <View style={styles.hostBadge}>
+        <Text style={styles.hostText}>{role === 'host' ? 'HOST' : 'DJ'}</Text>
+      </View>
+    );
+  };
+
+  const handleShareInvite = async () => {
+    if (!currentRoom) return;
+    try {
+      await shareRoomInvite(currentRoom);
+    } catch (error: any) {
+      toastManager.showToast(error.message || 'Failed to share invite', 'error');
+    }
+  };
+
   const handleSearchPress = () => {
     setShowSearch(!showSearch);
     if (!showSearch) {
@@ -267,33 +482,172 @@ export default function MusicPlayerScreen() {
           <View style={styles.connectedRoom}>
             <View style={styles.roomInfo}>
               <Ionicons name="radio" size={20} color="#00ff88" />
-              <Text style={styles.roomId}>Connected</Text>
+              <Text style={styles.roomId}>{currentRoom ? `Connected • ${currentRoom}${isLanRoom ? ' (LAN)' : ''}` : 'Connected'}</Text>
             </View>
           </View>
         </View>
 
+        {/* Join another room */}
+        <View style={styles.section}>
+          <TouchableOpacity style={styles.joinRoomButton} onPress={() => setShowRoomModal(true)}>
+            <Ionicons name="enter-outline" size={20} color="#007AFF" />
+            <Text style={styles.joinRoomText}>Join another room</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Host settings: privacy and skip voting (not on a LAN relay) */}
+        {currentRoom && roomRole === 'host' && !isLanRoom && (
+          <View style={styles.section}>
+            <TouchableOpacity style={styles.joinRoomButton} onPress={() => setShowPrivacyModal(true)}>
+              <Ionicons
+                name={roomVisibility === 'private' ? 'lock-closed' : roomVisibility === 'unlisted' ? 'link' : 'globe-outline'}
+                size={20}
+                color="#007AFF"
+              />
+              <Text style={styles.joinRoomText}>
+                Room privacy • {roomVisibility === 'private' ? 'Private' : roomVisibility === 'unlisted' ? 'Unlisted' : 'Public'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.joinRoomButton, styles.hostSettingButton]} onPress={handleSkipVotePolicyPress}>
+              <Ionicons name="hand-right-outline" size={20} color="#007AFF" />
+              <Text style={styles.joinRoomText}>Skip voting • {describeSkipVotePolicy()}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.joinRoomButton, styles.hostSettingButton]} onPress={handleReadyCheckPress}>
+              <Ionicons name="hourglass-outline" size={20} color="#007AFF" />
+              <Text style={styles.joinRoomText}>Ready check • {readyCheckEnabled ? 'On' : 'Off'}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Room Invite */}
+        {currentRoom && (
+          <View style={styles.section}>
+            <View style={styles.inviteActions}>
+              <TouchableOpacity style={[styles.joinRoomButton, styles.inviteButton]} onPress={handleShareInvite}>
+                <Ionicons name="share-social" size={20} color="#007AFF" />
+                <Text style={styles.joinRoomText}>Share invite</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.joinRoomButton, styles.inviteButton]} onPress={() => setShowInviteQR(true)}>
+                <Ionicons name="qr-code" size={20} color="#007AFF" />
+                <Text style={styles.joinRoomText}>QR code</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Room Chat */}
+        {currentRoom && (
+          <View style={styles.section}>
+            {!isLanRoom && (
+              <TouchableOpacity
+                style={styles.joinRoomButton}
+                onPress={() => {
+                  closeDrawer();
+                  setShowChat(true);
+                }}
+              >
+                <Ionicons name="chatbubbles-outline" size={20} color="#007AFF" />
+                <Text style={[styles.joinRoomText, styles.chatButtonText]}>Chat</Text>
+                {roomChat.unreadCount > 0 && (
+                  <View style={styles.unreadBadge}>
+                    <Text style={styles.unreadBadgeText}>{roomChat.unreadCount > 99 ? '99+' : roomChat.unreadCount}</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.joinRoomButton, !isLanRoom && styles.hostSettingButton]}
+              onPress={() => setRoomNotificationsMuted(!roomNotificationsMuted)}
+            >
+              <Ionicons
+                name={roomNotificationsMuted ? 'notifications-off-outline' : 'notifications-outline'}
+                size={20}
+                color="#007AFF"
+              />
+              <Text style={styles.joinRoomText}>
+                {roomNotificationsMuted ? 'Room notifications muted' : 'Room notifications on'}
+              </Text>
+            </TouchableOpacity>
+            {!isLanRoom && (
+              <TouchableOpacity
+                style={[styles.joinRoomButton, styles.hostSettingButton]}
+                onPress={() => {
+                  closeDrawer();
+                  router.push(`/room/${encodeURIComponent(currentRoom)}/history`);
+                }}
+              >
+                <Ionicons name="time-outline" size={20} color="#007AFF" />
+                <Text style={styles.joinRoomText}>Session history</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.joinRoomButton, styles.hostSettingButton]}
+              onPress={() => {
+                closeDrawer();
+                router.push(`/room/${encodeURIComponent(currentRoom)}/diagnostics`);
+              }}
+            >
+              <Ionicons name="pulse-outline" size={20} color="#007AFF" />
+              <Text style={styles.joinRoomText}>Sync diagnostics</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Shared Up Next */}
+        {currentRoom && !isLanRoom && (
+          <View style={styles.section}>
+            <RoomQueue />
+          </View>
+        )}
+
         {/* Participants List */}
         {currentRoom && (
           <View style={styles.section}>
+            {readyWait && (
+              <View style={styles.readyWaitBanner}>
+                <Ionicons name="hourglass-outline" size={16} color="#FFC107" />
+                <Text style={styles.readyWaitText}>Waiting for everyone to load the song…</Text>
+              </View>
+            )}
             <View style={styles.participantsList}>
               {/* Current user */}
               <View style={styles.participant}>
                 <View style={styles.participantAvatar}>
                   <Ionicons name="person" size={16} color="#a31fc4" />
+                  <View style={[styles.presenceDot, { backgroundColor: PRESENCE_COLORS.online }]} />
                 </View>
                 <Text style={styles.participantName}>
                   {username || user?.email?.split('@')[0] || 'User'}
+                  {user && renderReadinessLabel(user.uid)}
                 </Text>
+                {roomRole && renderRoleBadge(roomRole)}
               </View>
               
               {/* Other participants */}
               {participants?.map((participant, index) => (
-                <View key={index} style={styles.participant}>
+                <TouchableOpacity
+                  key={index}
+                  style={styles.participant}
+                  onPress={() => handleParticipantPress(participant)}
+                  disabled={roomRole !== 'host'}
+                  activeOpacity={0.7}
+                >
                   <View style={styles.participantAvatar}>
                     <Ionicons name="person" size={16} color="#666" />
+                    {renderPresenceDot(participant.id)}
                   </View>
-                  <Text style={styles.participantName}>{participant.email?.split('@')[0] || `User ${index + 1}`}</Text>
-                </View>
+                  <Text
+                    style={[
+                      styles.participantName,
+                      participantStatuses[participant.id] === 'offline' && styles.participantOffline,
+                    ]}
+                  >
+                    {participant.name || `User ${index + 1}`}
+                    {participantStatuses[participant.id] === 'away' && <Text style={styles.presenceLabel}> • away</Text>}
+                    {renderReadinessLabel(participant.id)}
+                  </Text>
+                  {renderRoleBadge(getParticipantRole(participant.id))}
+                </TouchableOpacity>
               ))}
             </View>
           </View>
@@ -310,6 +664,7 @@ export default function MusicPlayerScreen() {
         <View style={styles.header}>
           <TouchableOpacity onPress={openDrawer} style={styles.drawerButton}>
             <Ionicons name="menu" size={24} color="#a31fc4" />
+            {roomChat.unreadCount > 0 && <View style={styles.menuUnreadDot} />}
           </TouchableOpacity>
           <Text style={styles.headerTitle}>SUNULU</Text>
           <TouchableOpacity onPress={handleSearchPress} style={styles.headerSearchButton}>
@@ -399,7 +754,7 @@ export default function MusicPlayerScreen() {
                       index % 2 === 0 ? styles.songItemAlt : null,
                       currentSong?.id === song.id && styles.currentSongItem,
                     ]}
-                    onPress={() => playSong(song)}
+                    onPress={() => handlePlaySong(song)}
                     onLongPress={() => handleSongLongPress(song)}
                   >
                     {song.albumArt ? (
@@ -466,6 +821,21 @@ export default function MusicPlayerScreen() {
               <Text style={styles.modalSubtitle}>
                 {selectedSong ? `"${selectedSong.title}" by ${selectedSong.artist}` : ''}
               </Text>
+
+              {currentRoom && !isLanRoom && selectedSong && (
+                <TouchableOpacity
+                  style={[styles.playlistOption, styles.upNextOption]}
+                  onPress={() => handleAddToUpNext(selectedSong)}
+                >
+                  <View style={styles.playlistOptionIcon}>
+                    <Ionicons name="list" size={20} color="#a31fc4" />
+                  </View>
+                  <View style={styles.playlistOptionDetails}>
+                    <Text style={styles.playlistOptionName}>Add to up next</Text>
+                    <Text style={styles.playlistOptionCount}>Plays after the current song for everyone in the room</Text>
+                  </View>
+                </TouchableOpacity>
+              )}
               
               <ScrollView style={styles.playlistsList}>
                 {playlists.length === 0 ? (
@@ -513,6 +883,114 @@ export default function MusicPlayerScreen() {
           </View>
         </Modal>
 
+        {/* Join Room Modal */}
+        <Modal
+          visible={showRoomModal}
+          transparent
+          animationType="fade"
+          onRequestClose={closeRoomModal}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modal}>
+              <Text style={styles.modalTitle}>Join Room</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Room ID"
+                placeholderTextColor="#666"
+                value={roomId}
+                onChangeText={(text) => {
+                  setRoomId(text);
+                  setNeedsPassphrase(false);
+                  setJoinError(null);
+                }}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              {needsPassphrase && (
+                <TextInput
+                  style={styles.input}
+                  placeholder="Passphrase"
+                  placeholderTextColor="#666"
+                  value={roomPassphrase}
+                  onChangeText={setRoomPassphrase}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoFocus
+                />
+              )}
+              <TextInput
+                style={styles.input}
+                placeholder="LAN relay, e.g. ws://192.168.1.20:8787 (optional)"
+                placeholderTextColor="#666"
+                value={relayUrl}
+                onChangeText={setRelayUrl}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+              {joinError && (
+                <View style={styles.joinErrorRow}>
+                  <Ionicons name="lock-closed" size={16} color="#F44336" />
+                  <Text style={styles.joinErrorText}>{joinError}</Text>
+                </View>
+              )}
+              <View style={styles.modalButtons}>
+                <TouchableOpacity style={styles.cancelButton} onPress={closeRoomModal}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.joinButton, joiningRoom && styles.joinButtonDisabled]}
+                  onPress={handleJoinRoom}
+                  disabled={joiningRoom}
+                >
+                  <Text style={styles.joinButtonText}>{joiningRoom ? 'Joining...' : 'Join'}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+
+        {/* Room Chat */}
+        <RoomChatPanel
+          visible={showChat}
+          onClose={() => setShowChat(false)}
+          chat={roomChat}
+        />
+
+        {/* Room Privacy Modal */}
+        <RoomPrivacyModal
+          visible={showPrivacyModal}
+          onClose={() => setShowPrivacyModal(false)}
+        />
+
+        {/* Room Invite QR Modal */}
+        <Modal
+          visible={showInviteQR}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setShowInviteQR(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modal}>
+              <Text style={styles.modalTitle}>Scan to join</Text>
+              {currentRoom && (
+                <View style={styles.qrContainer}>
+                  <QRCode value={getRoomInviteUrl(currentRoom)} size={220} />
+                  <Text style={styles.qrLink} selectable>{getRoomInviteUrl(currentRoom)}</Text>
+                </View>
+              )}
+              <View style={styles.modalButtons}>
+                <TouchableOpacity style={styles.cancelButton} onPress={() => setShowInviteQR(false)}>
+                  <Text style={styles.cancelButtonText}>Close</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.joinButton} onPress={handleShareInvite}>
+                  <Text style={styles.joinButtonText}>Share</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+
         {/* Edit Username Modal */}
         <EditUsernameModal
           visible={showEditUsernameModal}
@@ -520,6 +998,9 @@ export default function MusicPlayerScreen() {
           currentUsername={username}
         />
 
+        {/* Room Activity */}
+        <RoomActivityBanner />
+
         {/* Toast */}
         <Toast
           message={toastMessage}
@@ -550,6 +1031,31 @@ const styles = StyleSheet.create({
   drawerButton: {
     padding: 8,
   },
+  menuUnreadDot: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#FF6B6B',
+  },
+  chatButtonText: {
+    flex: 1,
+  },
+  unreadBadge: {
+    backgroundColor: '#FF6B6B',
+    borderRadius: 10,
+    minWidth: 20,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    alignItems: 'center',
+  },
+  unreadBadgeText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   headerTitle: {
     color: '#ffffff',
     fontSize: 20,
@@ -786,6 +1292,24 @@ const styles = StyleSheet.create({
   participantsList: {
     gap: 12,
   },
+  inviteActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inviteButton: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  qrContainer: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  qrLink: {
+    color: '#999',
+    fontSize: 12,
+    marginTop: 12,
+    textAlign: 'center',
+  },
   participant: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -804,6 +1328,36 @@ const styles = StyleSheet.create({
     fontSize: 16,
     flex: 1,
   },
+  participantOffline: {
+    color: '#666',
+  },
+  presenceLabel: {
+    color: '#999',
+    fontSize: 12,
+  },
+  readinessFailed: {
+    color: '#ff6b6b',
+  },
+  readyWaitBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  readyWaitText: {
+    color: '#FFC107',
+    fontSize: 13,
+  },
+  presenceDot: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 2,
+    borderColor: '#1a1a1a',
+  },
   hostBadge: {
     backgroundColor: '#007AFF',
     paddingHorizontal: 8,
@@ -932,6 +1486,21 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  joinButtonDisabled: {
+    opacity: 0.6,
+  },
+  joinErrorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: -12,
+    marginBottom: 20,
+  },
+  joinErrorText: {
+    color: '#F44336',
+    fontSize: 14,
+    flex: 1,
+  },
   libraryButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1007,6 +1576,12 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     backgroundColor: '#1a1a1a',
   },
+  hostSettingButton: {
+    marginTop: 12,
+  },
+  upNextOption: {
+    marginBottom: 12,
+  },
   playlistOptionIcon: {
     width: 32,
     height: 32,
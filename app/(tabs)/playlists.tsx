@@ -271,7 +271,7 @@ export default function PlaylistsScreen() {
                     <View style={styles.participantAvatar}>
                       <Ionicons name="person" size={16} color="#666" />
                     </View>
-                    <Text style={styles.participantName}>{participant.email?.split('@')[0] || `User ${index + 1}`}</Text>
+                    <Text style={styles.participantName}>{participant.name || `User ${index + 1}`}</Text>
                   </View>
                 ))}
               </View>
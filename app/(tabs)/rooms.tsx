@@ -0,0 +1,319 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Toast, toastManager } from '../../components/Toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { useMusic } from '../../contexts/MusicContext';
+import { listActiveRooms, RoomSortOrder, RoomSummary, subscribeToRecentRooms } from '../../services/roomDirectory';
+import { HEARTBEAT_INTERVAL_MS } from '../../services/roomPresence';
+import { getServerNow } from '../../services/timeSync';
+
+const SORT_OPTIONS: { value: RoomSortOrder; label: string }[] = [
+  { value: 'listeners', label: 'Most listeners' },
+  { value: 'recent', label: 'Recently active' },
+];
+
+export default function RoomsScreen() {
+  const { user } = useAuth();
+  const { queue, currentRoom, joinRoom } = useMusic();
+  const router = useRouter();
+  const [rooms, setRooms] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sortOrder, setSortOrder] = useState<RoomSortOrder>('listeners');
+  const [joiningRoomId, setJoiningRoomId] = useState<string | null>(null);
+  // Server time the list was last evaluated at; ticks so who is online stays current between snapshots
+  const [serverNow, setServerNow] = useState(getServerNow());
+
+  // Toast state
+  const [toastVisible, setToastVisible] = useState(false);
+  const [toastMessage, setToastMessage] = useState('');
+  const [toastType, setToastType] = useState<'success' | 'error' | 'info'>('info');
+
+  // Setup toast manager
+  useEffect(() => {
+    toastManager.setShowToastCallback((message, type = 'info') => {
+      setToastMessage(message);
+      setToastType(type);
+      setToastVisible(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = subscribeToRecentRooms((roomData) => {
+      setRooms(roomData);
+      setServerNow(getServerNow());
+      setLoading(false);
+    });
+    const interval = setInterval(() => setServerNow(getServerNow()), HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [user]);
+
+  const activeRooms = useMemo(
+    () => listActiveRooms(rooms, serverNow, sortOrder),
+    [rooms, sortOrder, serverNow]
+  );
+
+  if (!user) {
+    return null;
+  }
+
+  const handleJoin = async (roomId: string) => {
+    if (roomId === currentRoom) {
+      router.navigate('/');
+      return;
+    }
+
+    setJoiningRoomId(roomId);
+    try {
+      await joinRoom(roomId);
+      toastManager.showToast('Joined room successfully!', 'success');
+      router.navigate('/');
+    } catch (error: any) {
+      // The host may have made the room private since it was listed
+      toastManager.showToast(error.code ? error.message : 'Failed to join room', 'error');
+    } finally {
+      setJoiningRoomId(null);
+    }
+  };
+
+  // Rooms from before track metadata was shared only have the ID
+  const getTrackTitle = (room: RoomSummary) => {
+    if (room.currentTrackTitle) {
+      return room.currentTrackArtist ? `${room.currentTrackTitle} • ${room.currentTrackArtist}` : room.currentTrackTitle;
+    }
+    const song = queue.find(s => s.id === room.currentTrackId);
+    return song ? `${song.title} • ${song.artist}` : null;
+  };
+
+  const renderRoom = ({ item }: { item: RoomSummary }) => {
+    const isCurrent = item.id === currentRoom;
+    const trackTitle = getTrackTitle(item);
+
+    return (
+      <View style={[styles.roomItem, isCurrent && styles.currentRoomItem]}>
+        <View style={styles.roomIcon}>
+          <Ionicons name="radio" size={24} color="#a31fc4" />
+        </View>
+        <View style={styles.roomDetails}>
+          <Text style={styles.roomName} numberOfLines={1}>{item.id}</Text>
+          <Text style={styles.roomInfo} numberOfLines={1}>
+            {item.onlineCount} online{item.hostName ? ` • Host ${item.hostName}` : ''}
+          </Text>
+          {trackTitle && (
+            <View style={styles.trackRow}>
+              <Ionicons name={item.isPlaying ? 'play' : 'pause'} size={12} color="#999" />
+              <Text style={styles.trackText} numberOfLines={1}>{trackTitle}</Text>
+            </View>
+          )}
+        </View>
+        <TouchableOpacity
+          style={[styles.joinButton, isCurrent && styles.joinedButton]}
+          onPress={() => handleJoin(item.id)}
+          disabled={joiningRoomId !== null}
+        >
+          {joiningRoomId === item.id ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <Text style={styles.joinButtonText}>{isCurrent ? 'Open' : 'Join'}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar backgroundColor="#000000" barStyle="light-content" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Rooms</Text>
+      </View>
+
+      <View style={styles.sortRow}>
+        {SORT_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.sortButton, sortOrder === option.value && styles.sortButtonActive]}
+            onPress={() => setSortOrder(option.value)}
+          >
+            <Text style={[styles.sortText, sortOrder === option.value && styles.sortTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <FlatList
+        data={activeRooms}
+        keyExtractor={item => item.id}
+        renderItem={renderRoom}
+        contentContainerStyle={styles.contentContainer}
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator color="#a31fc4" style={styles.loading} />
+          ) : (
+            <View style={styles.emptyState}>
+              <Ionicons name="radio" size={48} color="#666" />
+              <Text style={styles.emptyStateTitle}>No Active Rooms</Text>
+              <Text style={styles.emptyStateText}>
+                Public rooms with people listening show up here.
+              </Text>
+            </View>
+          )
+        }
+      />
+
+      <Toast
+        message={toastMessage}
+        visible={toastVisible}
+        onHide={() => setToastVisible(false)}
+        type={toastType}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+    paddingTop: StatusBar.currentHeight || 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#000',
+  },
+  headerTitle: {
+    color: '#ffffff',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  sortButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#1a1a1a',
+  },
+  sortButtonActive: {
+    backgroundColor: '#a31fc4',
+  },
+  sortText: {
+    color: '#999',
+    fontSize: 13,
+  },
+  sortTextActive: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 100, // Space for mini player
+  },
+  loading: {
+    marginTop: 60,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFF',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  roomItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  currentRoomItem: {
+    borderWidth: 1,
+    borderColor: '#a31fc4',
+  },
+  roomIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 16,
+  },
+  roomDetails: {
+    flex: 1,
+  },
+  roomName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#FFF',
+    marginBottom: 4,
+  },
+  roomInfo: {
+    fontSize: 14,
+    color: '#999',
+  },
+  trackRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  trackText: {
+    fontSize: 13,
+    color: '#ccc',
+    flexShrink: 1,
+  },
+  joinButton: {
+    backgroundColor: '#a31fc4',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    minWidth: 64,
+    alignItems: 'center',
+    marginLeft: 12,
+  },
+  joinedButton: {
+    backgroundColor: '#333',
+  },
+  joinButtonText: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+});
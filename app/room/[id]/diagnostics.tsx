@@ -0,0 +1,289 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+    Dimensions,
+    ScrollView,
+    StatusBar,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import DriftChart from '../../../components/DriftChart';
+import { Toast, toastManager } from '../../../components/Toast';
+import { useAuth } from '../../../contexts/AuthContext';
+import { PlaybackSyncState, useMusic } from '../../../contexts/MusicContext';
+import {
+    countSeeksPerMinute,
+    DIAGNOSTICS_WINDOW_MS,
+    getMedianLatency,
+    getSyncDiagnostics,
+    redactSnapshot,
+    serializeSnapshot,
+    shareDiagnosticsTrace,
+    subscribeToSyncDiagnostics,
+    SyncDiagnostics,
+} from '../../../services/syncDiagnostics';
+import { getServerNow } from '../../../services/timeSync';
+
+const POSITION_POLL_INTERVAL = 500;
+const CHART_WIDTH = Dimensions.get('window').width - 64;
+
+const formatSec = (sec: number | null | undefined) => (sec == null ? '–' : `${sec.toFixed(2)}s`);
+const formatMs = (ms: number | null | undefined) => (ms == null || !isFinite(ms) ? '–' : `${Math.round(ms)} ms`);
+
+// Live view of how well this device is following the room
+export default function RoomDiagnosticsScreen() {
+  const { id } = useLocalSearchParams();
+  const roomId = decodeURIComponent(String(id || ''));
+  const router = useRouter();
+  const { user } = useAuth();
+  const { currentRoom, clockSync, driftConfig, syncTransportKind, getPlaybackSyncState } = useMusic();
+
+  const [diagnostics, setDiagnostics] = useState<SyncDiagnostics>(getSyncDiagnostics());
+  const [playback, setPlayback] = useState<PlaybackSyncState | null>(null);
+  const [now, setNow] = useState(getServerNow());
+  const [showSnapshot, setShowSnapshot] = useState(false);
+
+  // Toast state
+  const [toastVisible, setToastVisible] = useState(false);
+  const [toastMessage, setToastMessage] = useState('');
+  const [toastType, setToastType] = useState<'success' | 'error' | 'info'>('info');
+
+  // Setup toast manager
+  useEffect(() => {
+    toastManager.setShowToastCallback((message, type = 'info') => {
+      setToastMessage(message);
+      setToastType(type);
+      setToastVisible(true);
+    });
+  }, []);
+
+  useEffect(() => subscribeToSyncDiagnostics(setDiagnostics), []);
+
+  // Poll the player; drift checks only run every couple of seconds
+  useEffect(() => {
+    const poll = () => {
+      setNow(getServerNow());
+      getPlaybackSyncState()
+        .then(setPlayback)
+        .catch(error => console.log('⚠️ Could not read playback position:', error));
+    };
+
+    poll();
+    const interval = setInterval(poll, POSITION_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [getPlaybackSyncState]);
+
+  const handleExport = async () => {
+    try {
+      await shareDiagnosticsTrace({
+        roomId: currentRoom,
+        userId: user?.uid || null,
+        transport: syncTransportKind,
+        clockSync,
+        driftConfig,
+      }, getServerNow());
+    } catch (error: any) {
+      toastManager.showToast(error.message || 'Failed to export trace', 'error');
+    }
+  };
+
+  const latestSnapshot = diagnostics.snapshots[diagnostics.snapshots.length - 1];
+  const latestDrift = diagnostics.driftSamples[diagnostics.driftSamples.length - 1];
+  const isCurrentRoom = currentRoom === roomId;
+
+  const renderRow = (label: string, value: string) => (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <Text style={styles.rowValue}>{value}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <StatusBar backgroundColor="#000000" barStyle="light-content" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color="#a31fc4" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>Sync diagnostics • {roomId}</Text>
+        <TouchableOpacity onPress={handleExport} style={styles.backBtn}>
+          <Ionicons name="share-outline" size={22} color="#a31fc4" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {!isCurrentRoom && (
+          <Text style={styles.notice}>You are no longer in this room, so nothing new is being recorded.</Text>
+        )}
+
+        {/* Playback */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Playback</Text>
+          {renderRow('Room position', formatSec(playback?.remotePositionSec))}
+          {renderRow('Local position', formatSec(playback?.localPositionSec))}
+          {renderRow(
+            'Difference',
+            playback ? formatSec(playback.remotePositionSec - playback.localPositionSec) : '–'
+          )}
+          {renderRow('Room state', playback ? (playback.isPlaying ? 'Playing' : 'Paused') : '–')}
+          {renderRow('Last drift check', latestDrift ? `${formatSec(latestDrift.driftSec)} (${latestDrift.correction})` : '–')}
+          {renderRow('Corrective seeks / min', String(countSeeksPerMinute(diagnostics.driftSamples, now)))}
+        </View>
+
+        {/* Drift chart */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Drift, last {DIAGNOSTICS_WINDOW_MS / 60000} minutes</Text>
+          <DriftChart
+            samples={diagnostics.driftSamples}
+            windowMs={DIAGNOSTICS_WINDOW_MS}
+            now={now}
+            toleranceSec={driftConfig.toleranceSec}
+            width={CHART_WIDTH}
+          />
+          <Text style={styles.caption}>Behind the room is below the line. Yellow dots are hard seeks.</Text>
+        </View>
+
+        {/* Network and clock */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Network and clock</Text>
+          {renderRow('Transport', syncTransportKind === 'websocket' ? 'LAN relay' : 'Firestore')}
+          {renderRow('Last snapshot latency', formatMs(
+            [...diagnostics.snapshots].reverse().find(sample => sample.latencyMs !== null)?.latencyMs
+          ))}
+          {renderRow('Median snapshot latency', formatMs(getMedianLatency(diagnostics.snapshots)))}
+          {renderRow('Snapshots received', String(diagnostics.snapshots.length))}
+          {renderRow('Clock offset', formatMs(clockSync.offsetMs))}
+          {renderRow('Clock uncertainty', `±${formatMs(clockSync.uncertaintyMs)} (${clockSync.confidence})`)}
+          {renderRow('Clock round trip', formatMs(clockSync.roundTripMs))}
+        </View>
+
+        {/* Latest room snapshot */}
+        <View style={styles.card}>
+          <TouchableOpacity style={styles.snapshotHeader} onPress={() => setShowSnapshot(!showSnapshot)}>
+            <Text style={styles.cardTitle}>
+              Latest room snapshot{latestSnapshot?.actionSeq != null ? ` • action ${latestSnapshot.actionSeq}` : ''}
+            </Text>
+            <Ionicons name={showSnapshot ? 'chevron-up' : 'chevron-down'} size={18} color="#999" />
+          </TouchableOpacity>
+          {showSnapshot && (
+            <Text style={styles.snapshotText} selectable>
+              {diagnostics.latestSnapshot
+                ? JSON.stringify(serializeSnapshot(redactSnapshot(diagnostics.latestSnapshot)), null, 2)
+                : 'No snapshot yet'}
+            </Text>
+          )}
+        </View>
+
+        <TouchableOpacity style={styles.exportButton} onPress={handleExport}>
+          <Ionicons name="download-outline" size={18} color="#ffffff" />
+          <Text style={styles.exportButtonText}>Export trace</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {/* Toast */}
+      <Toast
+        message={toastMessage}
+        visible={toastVisible}
+        onHide={() => setToastVisible(false)}
+        type={toastType}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+    paddingTop: StatusBar.currentHeight || 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  backBtn: {
+    padding: 8,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFF',
+    textAlign: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  notice: {
+    color: '#FFC107',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  rowLabel: {
+    color: '#999',
+    fontSize: 14,
+  },
+  rowValue: {
+    color: '#FFF',
+    fontSize: 14,
+    fontVariant: ['tabular-nums'],
+  },
+  caption: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 8,
+  },
+  snapshotHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  snapshotText: {
+    color: '#ccc',
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#a31fc4',
+    padding: 12,
+    borderRadius: 8,
+  },
+  exportButtonText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
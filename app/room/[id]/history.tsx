@@ -0,0 +1,407 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    Modal,
+    ScrollView,
+    StatusBar,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { Toast, toastManager } from '../../../components/Toast';
+import { useAuth } from '../../../contexts/AuthContext';
+import {
+    fetchRoomHistory,
+    groupListeningSessions,
+    ListeningSession,
+    RoomHistoryEntry,
+    saveSessionAsPlaylist,
+} from '../../../services/roomHistory';
+import { MOOD_EMOJI, SongMoodType } from '../../../services/songReactions';
+
+const formatTime = (millis: number) => {
+  const date = new Date(millis);
+  return `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+const formatSessionDate = (millis: number) => {
+  const date = new Date(millis);
+  const today = new Date();
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+// What a room has played, grouped into listening sessions
+export default function RoomHistoryScreen() {
+  const { id } = useLocalSearchParams();
+  const roomId = decodeURIComponent(String(id || ''));
+  const router = useRouter();
+  const { user, username } = useAuth();
+
+  const [sessions, setSessions] = useState<ListeningSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingSession, setSavingSession] = useState<ListeningSession | null>(null);
+  const [playlistName, setPlaylistName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Toast state
+  const [toastVisible, setToastVisible] = useState(false);
+  const [toastMessage, setToastMessage] = useState('');
+  const [toastType, setToastType] = useState<'success' | 'error' | 'info'>('info');
+
+  // Setup toast manager
+  useEffect(() => {
+    toastManager.setShowToastCallback((message, type = 'info') => {
+      setToastMessage(message);
+      setToastType(type);
+      setToastVisible(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!roomId || !user) return;
+
+    fetchRoomHistory(roomId)
+      .then(entries => setSessions(groupListeningSessions(entries)))
+      .catch(error => {
+        console.error('❌ Error loading room history:', error);
+        toastManager.showToast('Failed to load history', 'error');
+      })
+      .finally(() => setLoading(false));
+  }, [roomId, user]);
+
+  const openSaveModal = (session: ListeningSession) => {
+    setSavingSession(session);
+    setPlaylistName(`${roomId} • ${formatSessionDate(session.startedAt)} ${formatTime(session.startedAt)}`);
+  };
+
+  const handleSave = async () => {
+    if (!savingSession || !user) return;
+    if (!playlistName.trim()) {
+      toastManager.showToast('Please enter a playlist name', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const createdBy = username || user.email?.split('@')[0] || 'Unknown';
+      const playlistId = await saveSessionAsPlaylist(savingSession, playlistName.trim(), createdBy);
+      setSavingSession(null);
+      toastManager.showToast('Saved as playlist!', 'success');
+      router.push(`/playlist/${playlistId}`);
+    } catch (error) {
+      console.error('❌ Error saving session as playlist:', error);
+      toastManager.showToast('Failed to save playlist', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderEntry = (entry: RoomHistoryEntry) => {
+    const likeCount = Object.keys(entry.likes).length;
+    const moods = Object.values(entry.moods).map(reaction => MOOD_EMOJI[reaction.mood as SongMoodType] || MOOD_EMOJI.love);
+
+    return (
+      <View key={entry.id} style={styles.entry}>
+        <Text style={styles.entryTime}>{formatTime(entry.startedAt)}</Text>
+        <View style={styles.entryDetails}>
+          <Text style={styles.entryTitle} numberOfLines={1}>{entry.title}</Text>
+          <Text style={styles.entryInfo} numberOfLines={1}>
+            {entry.artist} • started by {entry.startedByName}
+          </Text>
+        </View>
+        {(likeCount > 0 || moods.length > 0) && (
+          <View style={styles.reactions}>
+            {likeCount > 0 && (
+              <View style={styles.likes}>
+                <Ionicons name="heart" size={12} color="#a31fc4" />
+                <Text style={styles.likeCount}>{likeCount}</Text>
+              </View>
+            )}
+            {moods.length > 0 && <Text style={styles.moods}>{moods.join('')}</Text>}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <StatusBar backgroundColor="#000000" barStyle="light-content" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color="#a31fc4" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>Session history • {roomId}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {loading ? (
+          <ActivityIndicator color="#a31fc4" style={styles.loading} />
+        ) : sessions.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="time-outline" size={48} color="#666" />
+            <Text style={styles.emptyStateTitle}>Nothing played yet</Text>
+            <Text style={styles.emptyStateText}>Songs played in this room will show up here.</Text>
+          </View>
+        ) : (
+          sessions.map(session => (
+            <View key={session.id} style={styles.session}>
+              <View style={styles.sessionHeader}>
+                <View style={styles.sessionInfo}>
+                  <Text style={styles.sessionTitle}>
+                    {formatSessionDate(session.startedAt)} • {formatTime(session.startedAt)}–{formatTime(session.endedAt)}
+                  </Text>
+                  <Text style={styles.sessionSubtitle}>
+                    {session.entries.length} {session.entries.length === 1 ? 'track' : 'tracks'}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.saveButton} onPress={() => openSaveModal(session)}>
+                  <Ionicons name="add" size={16} color="#ffffff" />
+                  <Text style={styles.saveButtonText}>Save as playlist</Text>
+                </TouchableOpacity>
+              </View>
+              {session.entries.map(renderEntry)}
+            </View>
+          ))
+        )}
+      </ScrollView>
+
+      {/* Save Session Modal */}
+      <Modal
+        visible={!!savingSession}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setSavingSession(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modal}>
+            <Text style={styles.modalTitle}>Save as playlist</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Playlist name"
+              placeholderTextColor="#666"
+              value={playlistName}
+              onChangeText={setPlaylistName}
+              autoFocus
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setSavingSession(null)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmButton, saving && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                <Text style={styles.confirmButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Toast */}
+      <Toast
+        message={toastMessage}
+        visible={toastVisible}
+        onHide={() => setToastVisible(false)}
+        type={toastType}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+    paddingTop: StatusBar.currentHeight || 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  backBtn: {
+    padding: 8,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFF',
+    textAlign: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loading: {
+    marginTop: 60,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFF',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  session: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionTitle: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sessionSubtitle: {
+    color: '#999',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#a31fc4',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  saveButtonText: {
+    color: '#FFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#262626',
+  },
+  entryTime: {
+    color: '#666',
+    fontSize: 12,
+    width: 44,
+  },
+  entryDetails: {
+    flex: 1,
+  },
+  entryTitle: {
+    color: '#FFF',
+    fontSize: 15,
+  },
+  entryInfo: {
+    color: '#999',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  reactions: {
+    alignItems: 'flex-end',
+    marginLeft: 8,
+  },
+  likes: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  likeCount: {
+    color: '#ccc',
+    fontSize: 12,
+  },
+  moods: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 20,
+    width: '80%',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFF',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  input: {
+    backgroundColor: '#333',
+    borderRadius: 8,
+    padding: 12,
+    color: '#FFF',
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#333',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#FFF',
+    fontSize: 16,
+  },
+  confirmButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#a31fc4',
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,268 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { doc, getDoc } from 'firebase/firestore';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    StatusBar,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { Toast, toastManager } from '../../../components/Toast';
+import { db } from '../../../config/firebase';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useMusic } from '../../../contexts/MusicContext';
+
+interface RoomPreview {
+  participantCount: number;
+  hostName: string | null;
+  exists: boolean;
+}
+
+// Landing screen for sunulu://room/<id> invite links
+export default function JoinRoomScreen() {
+  const { id } = useLocalSearchParams();
+  const roomId = decodeURIComponent(String(id || ''));
+  const router = useRouter();
+  const { user } = useAuth();
+  const { currentRoom, joinRoom } = useMusic();
+
+  const [preview, setPreview] = useState<RoomPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+
+  // Toast state
+  const [toastVisible, setToastVisible] = useState(false);
+  const [toastMessage, setToastMessage] = useState('');
+  const [toastType, setToastType] = useState<'success' | 'error' | 'info'>('info');
+
+  // Setup toast manager
+  useEffect(() => {
+    toastManager.setShowToastCallback((message, type = 'info') => {
+      setToastMessage(message);
+      setToastType(type);
+      setToastVisible(true);
+    });
+  }, []);
+
+  // Load a short preview of the room
+  useEffect(() => {
+    const loadPreview = async () => {
+      if (!roomId || !user) return;
+
+      try {
+        const roomDoc = await getDoc(doc(db as any, 'rooms', roomId));
+        if (roomDoc.exists()) {
+          const data = roomDoc.data();
+          const participants = data.participants || [];
+          const host = participants.find((p: any) => p.id === data.ownerId);
+          setPreview({
+            participantCount: participants.length,
+            hostName: host?.name || null,
+            exists: true,
+          });
+        } else {
+          setPreview({ participantCount: 0, hostName: null, exists: false });
+        }
+      } catch (error) {
+        console.error('❌ Error loading room preview:', error);
+        setPreview(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreview();
+  }, [roomId, user]);
+
+  const handleJoin = async () => {
+    setJoining(true);
+    try {
+      await joinRoom(roomId);
+      toastManager.showToast('Joined room successfully!', 'success');
+      router.replace('/');
+    } catch (error: any) {
+      if (error.code === 'passphrase-required' || error.code === 'wrong-passphrase' || error.code === 'not-allowed') {
+        // Hand over to the join modal, which can ask for the passphrase
+        router.replace({ pathname: '/', params: { joinRoomId: roomId, joinError: error.message } });
+        return;
+      }
+      toastManager.showToast(error.message || 'Failed to join room', 'error');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ headerShown: false }} />
+        <StatusBar backgroundColor="#000000" barStyle="light-content" />
+        <View style={styles.centered}>
+          <Ionicons name="lock-closed" size={48} color="#666" />
+          <Text style={styles.title}>Sign in to join</Text>
+          <Text style={styles.subtitle}>You need an account to join room &quot;{roomId}&quot;.</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={() => router.replace('/auth')}>
+            <Text style={styles.primaryButtonText}>Sign in</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const alreadyJoined = currentRoom === roomId;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <StatusBar backgroundColor="#000000" barStyle="light-content" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.replace('/')} style={styles.backBtn}>
+          <Ionicons name="close" size={24} color="#a31fc4" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Room invite</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <View style={styles.centered}>
+        <View style={styles.roomIcon}>
+          <Ionicons name="radio" size={40} color="#a31fc4" />
+        </View>
+        <Text style={styles.title}>{roomId}</Text>
+
+        {loading ? (
+          <ActivityIndicator color="#a31fc4" style={styles.loading} />
+        ) : (
+          <Text style={styles.subtitle}>
+            {!preview
+              ? 'Could not load room details'
+              : !preview.exists
+                ? 'This room is empty. Joining will create it and make you the host.'
+                : `${preview.participantCount} ${preview.participantCount === 1 ? 'person' : 'people'} listening${preview.hostName ? ` • hosted by ${preview.hostName}` : ''}`}
+          </Text>
+        )}
+
+        {alreadyJoined ? (
+          <TouchableOpacity style={styles.primaryButton} onPress={() => router.replace('/')}>
+            <Text style={styles.primaryButtonText}>You&apos;re in this room – open player</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.primaryButton, joining && styles.buttonDisabled]}
+            onPress={handleJoin}
+            disabled={joining}
+          >
+            <Text style={styles.primaryButtonText}>{joining ? 'Joining...' : 'Join room'}</Text>
+          </TouchableOpacity>
+        )}
+
+        {currentRoom && !alreadyJoined && (
+          <Text style={styles.hint}>You will leave &quot;{currentRoom}&quot;</Text>
+        )}
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/')}>
+          <Text style={styles.secondaryButtonText}>Not now</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Toast */}
+      <Toast
+        message={toastMessage}
+        visible={toastVisible}
+        onHide={() => setToastVisible(false)}
+        type={toastType}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+    paddingTop: StatusBar.currentHeight || 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 2,
+    paddingTop: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  backBtn: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  roomIcon: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#1a1a1a',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFF',
+    marginTop: 8,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  loading: {
+    marginBottom: 32,
+  },
+  primaryButton: {
+    backgroundColor: '#a31fc4',
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignSelf: 'stretch',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  hint: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 8,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: '#999',
+    fontSize: 16,
+  },
+});
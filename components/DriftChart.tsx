@@ -0,0 +1,48 @@
+import React, { useMemo } from 'react';
+import Svg, { Circle, Line, Polyline, Rect } from 'react-native-svg';
+import { DriftSample } from '../services/syncDiagnostics';
+
+interface DriftChartProps {
+  samples: DriftSample[];
+  windowMs: number;
+  now: number; // server time at the right edge
+  toleranceSec: number;
+  width?: number;
+  height?: number;
+}
+
+const MIN_RANGE_SEC = 0.5; // keep small drift from filling the whole chart
+
+// Drift over time: zero in the middle, ahead above, behind below. The shaded
+// band is the tolerance the drift controller leaves alone; dots mark hard seeks.
+export default function DriftChart({ samples, windowMs, now, toleranceSec, width = 320, height = 140 }: DriftChartProps) {
+  const { points, seeks, range } = useMemo(() => {
+    const range = Math.max(MIN_RANGE_SEC, toleranceSec * 2, ...samples.map(sample => Math.abs(sample.driftSec)));
+    const toX = (at: number) => width - ((now - at) / windowMs) * width;
+    const toY = (driftSec: number) => height / 2 + (driftSec / range) * (height / 2);
+
+    const visible = samples.filter(sample => now - sample.at <= windowMs);
+    return {
+      points: visible.map(sample => `${toX(sample.at).toFixed(1)},${toY(sample.driftSec).toFixed(1)}`).join(' '),
+      seeks: visible.filter(sample => sample.correction === 'seek').map(sample => ({
+        x: toX(sample.at),
+        y: toY(sample.driftSec),
+      })),
+      range,
+    };
+  }, [samples, windowMs, now, toleranceSec, width, height]);
+
+  const bandHeight = (toleranceSec / range) * height;
+
+  return (
+    <Svg width={width} height={height}>
+      <Rect x={0} y={0} width={width} height={height} fill="#111" />
+      <Rect x={0} y={height / 2 - bandHeight / 2} width={width} height={bandHeight} fill="#1f3d24" />
+      <Line x1={0} y1={height / 2} x2={width} y2={height / 2} stroke="#444" strokeWidth={1} />
+      {points.length > 0 && <Polyline points={points} fill="none" stroke="#a31fc4" strokeWidth={2} />}
+      {seeks.map((seek, index) => (
+        <Circle key={index} cx={seek.x} cy={seek.y} r={3} fill="#FFC107" />
+      ))}
+    </Svg>
+  );
+}
@@ -11,7 +11,12 @@ import {
   View
 } from 'react-native';
 import { GestureHandlerRootView, PanGestureHandler, State } from 'react-native-gesture-handler';
+import { useAuth } from '../contexts/AuthContext';
 import { useMusic } from '../contexts/MusicContext';
+import { CROSSFADE_CURVE_LABELS, CROSSFADE_CURVES, MAX_CROSSFADE_SEC } from '../services/crossfade';
+import { NORMALIZATION_MODE_LABELS, NORMALIZATION_MODES } from '../services/loudness';
+import { MOOD_EMOJI, SongMoodType } from '../services/songReactions';
+import { toastManager } from './Toast';
 
 const { width, height } = Dimensions.get('window');
 const MINI_PLAYER_HEIGHT = 80;
@@ -48,7 +53,51 @@ export default function MiniPlayer({ onSearchPress }: MiniPlayerProps) {
     getCurrentSongLikes,
     setSongMood,
     getCurrentSongMood,
+    currentSongReactions,
+    canControl,
+    roomRole,
+    skipVotes,
+    voteToSkip,
+    trackLoadError,
+    pendingRoomActions,
+    retryTrackLoad,
+    crossfade,
+    setCrossfade,
+    normalization,
+    setNormalization,
   } = useMusic();
+  const { user } = useAuth();
+
+  // Listeners see the room's controls but cannot use the ones the host locked
+  const canPause = canControl('pause');
+  const canSkip = canControl('skip');
+  const canSeek = canControl('seek');
+  // Shuffle and repeat are shared room settings
+  const canChangeMode = canControl('changeTrack');
+
+  const hasVotedToSkip = !!user && !!skipVotes?.voterIds.includes(user.uid);
+  const showSkipVotes = !!currentRoom && participants.length > 0 && skipVotes?.threshold != null;
+
+  const handleVoteToSkip = async () => {
+    try {
+      await voteToSkip();
+    } catch (error: any) {
+      toastManager.showToast(error.message || 'Failed to vote', 'error');
+    }
+  };
+
+  // Rooms start every track together, so crossfade only applies on our own
+  const canCrossfade = !currentRoom;
+
+  const cycleCrossfadeCurve = () => {
+    const index = CROSSFADE_CURVES.indexOf(crossfade.curve);
+    setCrossfade({ curve: CROSSFADE_CURVES[(index + 1) % CROSSFADE_CURVES.length] });
+  };
+
+  const cycleNormalization = () => {
+    const index = NORMALIZATION_MODES.indexOf(normalization);
+    setNormalization(NORMALIZATION_MODES[(index + 1) % NORMALIZATION_MODES.length]);
+  };
 
   const [isExpanded, setIsExpanded] = useState(false);
   const [activeTab, setActiveTab] = useState<'queue' | 'playlists'>('queue');
@@ -140,7 +189,7 @@ export default function MiniPlayer({ onSearchPress }: MiniPlayerProps) {
     
     const likes = getCurrentSongLikes();
     // Show likes from other users only
-    return likes.filter(like => like.userId !== participants.find(p => p.email)?.id);
+    return likes.filter(like => like.userId !== user?.uid);
   };
 
   const getTotalLikeCount = () => {
@@ -280,6 +329,35 @@ export default function MiniPlayer({ onSearchPress }: MiniPlayerProps) {
     playlist.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // Room actions we took that haven't reached the room yet
+  const renderSyncingIndicator = () => pendingRoomActions > 0 && (
+    <View style={styles.syncingIndicator}>
+      <Ionicons name="cloud-upload-outline" size={14} color="#999" />
+      <Text style={styles.syncingText}>syncing…</Text>
+    </View>
+  );
+
+  // The room moved to a song we couldn't fetch or play
+  if (!currentSong && trackLoadError) {
+    return (
+      <View style={styles.placeholderContainer}>
+        <TouchableOpacity
+          style={styles.placeholder}
+          onPress={retryTrackLoad}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="alert-circle" size={20} color="#F44336" />
+          <View style={styles.trackLoadErrorText}>
+            <Text style={styles.placeholderText} numberOfLines={1}>
+              {`Couldn't load ${trackLoadError.title ? `"${trackLoadError.title}"` : 'this track'} – tap to retry`}
+            </Text>
+            <Text style={styles.trackLoadErrorDetail} numberOfLines={1}>{trackLoadError.message}</Text>
+          </View>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
   if (!currentSong) {
     return (
       <View style={styles.placeholderContainer}>
@@ -328,14 +406,16 @@ export default function MiniPlayer({ onSearchPress }: MiniPlayerProps) {
                   </View>
                   
                   <View style={styles.miniControls}>
+                    {renderSyncingIndicator()}
                     <TouchableOpacity
                       onPress={isPlaying ? pauseSong : resumeSong}
                       style={styles.playPauseButton}
+                      disabled={!canPause}
                     >
                       <Ionicons
                         name={isPlaying ? "pause" : "play"}
                         size={24}
-                        color="#a31fc4"
+                        color={canPause ? "#a31fc4" : "#444"}
                       />
                     </TouchableOpacity>
                   </View>
@@ -366,6 +446,7 @@ export default function MiniPlayer({ onSearchPress }: MiniPlayerProps) {
                   <TouchableOpacity onPress={collapsePlayer} style={styles.collapseButton}>
                     <Ionicons name="chevron-down" size={24} color="#a31fc4" />
                   </TouchableOpacity>
+                  {renderSyncingIndicator()}
                 </View>
 
                 {/* Now Playing Section - Full Width Album Art */}
@@ -420,17 +501,19 @@ export default function MiniPlayer({ onSearchPress }: MiniPlayerProps) {
                             onPress={showMoodPopup}
                           >
                             <Text style={styles.moodEmojiDisplay}>
-                              {getCurrentSongMood()?.mood === 'love' ? '❤️' : 
-                               getCurrentSongMood()?.mood === 'party' ? '🎉' : 
-                               getCurrentSongMood()?.mood === 'kiss' ? '😘' :
-                               getCurrentSongMood()?.mood === 'thumbsup' ? '👍' :
-                               getCurrentSongMood()?.mood === 'thumbsdown' ? '👎' :
-                               getCurrentSongMood()?.mood === 'puke' ? '🤮' :
-                               getCurrentSongMood()?.mood === 'crying' ? '😢' : '❤️'}
+                              {MOOD_EMOJI[getCurrentSongMood()!.mood] || MOOD_EMOJI.love}
                             </Text>
                             <Text style={styles.moodUserText}>
                               {getCurrentSongMood()?.userName}
                             </Text>
+                            {/* Everyone's vibes on this song */}
+                            {currentSongReactions.moods.length > 1 && (
+                              <Text style={styles.moodCountsText}>
+                                {(Object.entries(currentSongReactions.moodCounts) as [SongMoodType, number][])
+                                  .map(([mood, count]) => `${MOOD_EMOJI[mood]}${count}`)
+                                  .join(' ')}
+                              </Text>
+                            )}
                           </TouchableOpacity>
                         ) : (
                           <TouchableOpacity style={styles.moodSelector} onPress={showMoodPopup}>
@@ -535,6 +618,7 @@ export default function MiniPlayer({ onSearchPress }: MiniPlayerProps) {
                   <View style={styles.progressSection}>
                     <PanGestureHandler
                       ref={panGestureRef}
+                      enabled={canSeek}
                       onGestureEvent={handleSeekGesture}
                       onHandlerStateChange={handleSeekGesture}
                     >
@@ -567,19 +651,20 @@ export default function MiniPlayer({ onSearchPress }: MiniPlayerProps) {
 
                   {/* Player Controls */}
                   <View style={styles.playerControls}>
-                    <TouchableOpacity onPress={toggleShuffle}>
+                    <TouchableOpacity onPress={toggleShuffle} disabled={!canChangeMode}>
                       <Ionicons 
                         name="shuffle" 
                         size={24} 
                         color={isShuffleEnabled ? "#a31fc4" : "#666"} 
                       />
                     </TouchableOpacity>
-                    <TouchableOpacity onPress={skipPrevious}>
-                      <Ionicons name="play-skip-back" size={30} color="#a31fc4" />
+                    <TouchableOpacity onPress={skipPrevious} disabled={!canSkip}>
+                      <Ionicons name="play-skip-back" size={30} color={canSkip ? "#a31fc4" : "#444"} />
                     </TouchableOpacity>
                     <TouchableOpacity
                       onPress={isPlaying ? pauseSong : resumeSong}
-                      style={styles.playButton}
+                      style={[styles.playButton, !canPause && styles.controlDisabled]}
+                      disabled={!canPause}
                     >
                       <Ionicons
                         name={isPlaying ? "pause" : "play"}
@@ -587,10 +672,10 @@ export default function MiniPlayer({ onSearchPress }: MiniPlayerProps) {
                         color="#ffffff"
                       />
                     </TouchableOpacity>
-                    <TouchableOpacity onPress={skipNext}>
-                      <Ionicons name="play-skip-forward" size={30} color="#a31fc4" />
+                    <TouchableOpacity onPress={skipNext} disabled={!canSkip}>
+                      <Ionicons name="play-skip-forward" size={30} color={canSkip ? "#a31fc4" : "#444"} />
                     </TouchableOpacity>
-                    <TouchableOpacity onPress={toggleRepeat}>
+                    <TouchableOpacity onPress={toggleRepeat} disabled={!canChangeMode}>
                       <Ionicons 
                         name={repeatMode === 'one' ? "repeat-outline" : "repeat"} 
                         size={24} 
@@ -598,6 +683,60 @@ export default function MiniPlayer({ onSearchPress }: MiniPlayerProps) {
                       />
                     </TouchableOpacity>
                   </View>
+
+                  {showSkipVotes && (
+                    <TouchableOpacity
+                      style={[styles.skipVoteButton, hasVotedToSkip && styles.skipVoteButtonActive]}
+                      onPress={handleVoteToSkip}
+                    >
+                      <Ionicons name="hand-right-outline" size={16} color={hasVotedToSkip ? '#ffffff' : '#a31fc4'} />
+                      <Text style={[styles.skipVoteText, hasVotedToSkip && styles.skipVoteTextActive]}>
+                        {hasVotedToSkip ? 'Voted to skip' : 'Vote to skip'} • {skipVotes.voterIds.length}/{skipVotes.threshold}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {roomRole === 'listener' && !(canPause && canSkip && canSeek && canChangeMode) && (
+                    <Text style={styles.listenerHint}>The host controls playback in this room</Text>
+                  )}
+
+                  <View style={[styles.settingRow, !canCrossfade && styles.settingRowDisabled]}>
+                    <Ionicons name="swap-horizontal" size={18} color="#999" />
+                    <Text style={styles.settingLabel}>Crossfade</Text>
+                    <TouchableOpacity
+                      onPress={() => setCrossfade({ durationSec: crossfade.durationSec - 1 })}
+                      disabled={!canCrossfade || crossfade.durationSec <= 0}
+                    >
+                      <Ionicons name="remove-circle-outline" size={22} color="#a31fc4" />
+                    </TouchableOpacity>
+                    <Text style={styles.crossfadeValue}>
+                      {crossfade.durationSec > 0 ? `${crossfade.durationSec}s` : 'Gapless'}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => setCrossfade({ durationSec: crossfade.durationSec + 1 })}
+                      disabled={!canCrossfade || crossfade.durationSec >= MAX_CROSSFADE_SEC}
+                    >
+                      <Ionicons name="add-circle-outline" size={22} color="#a31fc4" />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.settingChip}
+                      onPress={cycleCrossfadeCurve}
+                      disabled={!canCrossfade || crossfade.durationSec === 0}
+                    >
+                      <Text style={styles.settingChipText}>{CROSSFADE_CURVE_LABELS[crossfade.curve]}</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {!canCrossfade && (
+                    <Text style={styles.listenerHint}>Crossfade is off in rooms so everyone stays in sync</Text>
+                  )}
+
+                  <View style={styles.settingRow}>
+                    <Ionicons name="volume-medium-outline" size={18} color="#999" />
+                    <Text style={styles.settingLabel}>Normalize volume</Text>
+                    <TouchableOpacity style={styles.settingChip} onPress={cycleNormalization}>
+                      <Text style={styles.settingChipText}>{NORMALIZATION_MODE_LABELS[normalization]}</Text>
+                    </TouchableOpacity>
+                  </View>
                 </View>
               </>
             )}
@@ -687,6 +826,16 @@ const styles = StyleSheet.create({
   playPauseButton: {
     padding: 8,
   },
+  syncingIndicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginHorizontal: 8,
+  },
+  syncingText: {
+    color: '#999',
+    fontSize: 12,
+  },
   miniProgressContainer: {
     position: 'absolute',
     bottom: 0,
@@ -806,6 +955,70 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  controlDisabled: {
+    backgroundColor: '#333',
+  },
+  listenerHint: {
+    color: '#666',
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    marginTop: 20,
+  },
+  settingRowDisabled: {
+    opacity: 0.4,
+  },
+  settingLabel: {
+    color: '#999',
+    fontSize: 13,
+  },
+  crossfadeValue: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '500',
+    minWidth: 52,
+    textAlign: 'center',
+  },
+  settingChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  settingChipText: {
+    color: '#999',
+    fontSize: 12,
+  },
+  skipVoteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 6,
+    marginTop: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#a31fc4',
+  },
+  skipVoteButtonActive: {
+    backgroundColor: '#a31fc4',
+  },
+  skipVoteText: {
+    color: '#a31fc4',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  skipVoteTextActive: {
+    color: '#ffffff',
+  },
   placeholderContainer: {
     position: 'absolute',
     bottom: 0,
@@ -827,6 +1040,15 @@ const styles = StyleSheet.create({
     color: '#999',
     marginLeft: 8,
   },
+  trackLoadErrorText: {
+    flex: 1,
+  },
+  trackLoadErrorDetail: {
+    color: '#666',
+    fontSize: 12,
+    marginLeft: 8,
+    marginTop: 2,
+  },
   bottomControlsSection: {
     width: '100%',
     paddingHorizontal: 32,
@@ -901,6 +1123,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontStyle: 'italic',
   },
+  moodCountsText: {
+    color: '#ccc',
+    fontSize: 12,
+  },
   moodContainer: {
     position: 'relative',
     alignItems: 'center',
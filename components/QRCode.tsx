@@ -0,0 +1,32 @@
+import React, { useMemo } from 'react';
+import Svg, { Path, Rect } from 'react-native-svg';
+import { encodeQRCode } from '../services/qrCode';
+
+interface QRCodeProps {
+  value: string;
+  size?: number;
+  color?: string;
+  backgroundColor?: string;
+}
+
+const QUIET_ZONE = 4; // modules of blank border scanners expect
+
+export default function QRCode({ value, size = 220, color = '#000000', backgroundColor = '#ffffff' }: QRCodeProps) {
+  const { path, dimension } = useMemo(() => {
+    const matrix = encodeQRCode(value);
+    let d = '';
+    matrix.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+      });
+    });
+    return { path: d, dimension: matrix.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <Svg width={size} height={size} viewBox={`0 0 ${dimension} ${dimension}`}>
+      <Rect x={0} y={0} width={dimension} height={dimension} fill={backgroundColor} />
+      <Path d={path} fill={color} />
+    </Svg>
+  );
+}
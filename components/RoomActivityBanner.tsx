@@ -0,0 +1,103 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useRef } from 'react';
+import {
+    Animated,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+} from 'react-native';
+import { useMusic } from '../contexts/MusicContext';
+
+const BANNER_DURATION = 4000;
+
+// In-app banner for room activity (joins, track changes, up next edits)
+export default function RoomActivityBanner() {
+  const { roomActivityNotification, dismissRoomNotification } = useMusic();
+  const translateY = useRef(new Animated.Value(-100)).current;
+  const visible = !!roomActivityNotification?.visible;
+
+  const hideBanner = useCallback(() => {
+    Animated.timing(translateY, {
+      toValue: -100,
+      duration: 250,
+      useNativeDriver: true,
+    }).start(() => {
+      dismissRoomNotification();
+    });
+  }, [translateY, dismissRoomNotification]);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    translateY.setValue(-100);
+    Animated.timing(translateY, {
+      toValue: 0,
+      duration: 250,
+      useNativeDriver: true,
+    }).start();
+
+    const timer = setTimeout(hideBanner, BANNER_DURATION);
+    return () => clearTimeout(timer);
+  }, [visible, roomActivityNotification?.message, translateY, hideBanner]);
+
+  if (!visible || !roomActivityNotification) return null;
+
+  const handleJoin = () => {
+    roomActivityNotification.onJoin?.();
+    hideBanner();
+  };
+
+  return (
+    <Animated.View style={[styles.container, { transform: [{ translateY }] }]}>
+      <Ionicons name="radio" size={18} color="#a31fc4" />
+      <Text style={styles.message} numberOfLines={2}>{roomActivityNotification.message}</Text>
+      {roomActivityNotification.onJoin && (
+        <TouchableOpacity style={styles.joinButton} onPress={handleJoin}>
+          <Text style={styles.joinText}>Listen</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity onPress={hideBanner} style={styles.closeButton}>
+        <Ionicons name="close" size={18} color="#999" />
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 12,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    zIndex: 2000,
+    elevation: 10,
+  },
+  message: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  joinButton: {
+    backgroundColor: '#a31fc4',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  joinText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 2,
+  },
+});
@@ -0,0 +1,289 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    FlatList,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { useMusic } from '../contexts/MusicContext';
+import { RoomChat } from '../hooks/useRoomChat';
+import { MAX_CHAT_MESSAGE_LENGTH, RoomChatMessage } from '../services/roomChat';
+import { toastManager } from './Toast';
+
+interface RoomChatPanelProps {
+  visible: boolean;
+  onClose: () => void;
+  chat: RoomChat;
+}
+
+const formatPosition = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const formatSentAt = (millis: number) => {
+  const date = new Date(millis);
+  return `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+export default function RoomChatPanel({ visible, onClose, chat }: RoomChatPanelProps) {
+  const { user } = useAuth();
+  const { currentRoom, currentSong, seekTo, canControl } = useMusic();
+  const { messages, hasMore, loadingOlder, loadOlder, markRead, sendMessage } = chat;
+
+  const [text, setText] = useState('');
+  const [pinToTrack, setPinToTrack] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  // Everything on screen counts as read
+  useEffect(() => {
+    if (visible) markRead();
+  }, [visible, markRead]);
+
+  const handleSend = async () => {
+    if (!text.trim()) return;
+    setSending(true);
+    try {
+      await sendMessage(text, { pinToTrack });
+      setText('');
+      setPinToTrack(false);
+    } catch (error: any) {
+      toastManager.showToast(error.message || 'Failed to send message', 'error');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Jump to the moment a message was pinned to, when that song is still playing
+  const handleTrackPress = (message: RoomChatMessage) => {
+    if (message.trackId !== currentSong?.id || message.trackPosition === undefined) return;
+    if (!canControl('seek')) {
+      toastManager.showToast('Only the host or a DJ can seek in this room', 'info');
+      return;
+    }
+    seekTo(message.trackPosition);
+  };
+
+  const renderMessage = ({ item }: { item: RoomChatMessage }) => {
+    const isOwn = item.userId === user?.uid;
+    return (
+      <View style={[styles.message, isOwn && styles.ownMessage]}>
+        {!isOwn && <Text style={styles.messageAuthor}>{item.userName}</Text>}
+        <Text style={styles.messageText}>{item.text}</Text>
+        {item.trackId && (
+          <TouchableOpacity
+            style={styles.trackChip}
+            onPress={() => handleTrackPress(item)}
+            disabled={item.trackId !== currentSong?.id}
+          >
+            <Ionicons name="musical-note" size={12} color="#a31fc4" />
+            <Text style={styles.trackChipText} numberOfLines={1}>
+              {item.trackTitle || 'Unknown song'} @ {formatPosition(item.trackPosition || 0)}
+            </Text>
+          </TouchableOpacity>
+        )}
+        <Text style={styles.messageTime}>{formatSentAt(item.createdAt)}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="chevron-down" size={24} color="#a31fc4" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Chat • {currentRoom}</Text>
+          <View style={{ width: 40 }} />
+        </View>
+
+        <FlatList
+          data={messages}
+          keyExtractor={item => item.id}
+          renderItem={renderMessage}
+          inverted
+          contentContainerStyle={styles.messageList}
+          onEndReached={loadOlder}
+          onEndReachedThreshold={0.3}
+          ListFooterComponent={
+            loadingOlder ? (
+              <ActivityIndicator color="#a31fc4" style={styles.historyIndicator} />
+            ) : !hasMore && messages.length > 0 ? (
+              <Text style={styles.historyEnd}>Start of the conversation</Text>
+            ) : null
+          }
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>No messages yet. Say hi!</Text>
+          }
+        />
+
+        <View style={styles.inputRow}>
+          <TouchableOpacity
+            style={styles.pinButton}
+            onPress={() => setPinToTrack(!pinToTrack)}
+            disabled={!currentSong}
+          >
+            <Ionicons
+              name="musical-note"
+              size={20}
+              color={pinToTrack ? '#a31fc4' : currentSong ? '#999' : '#444'}
+            />
+          </TouchableOpacity>
+          <TextInput
+            style={styles.input}
+            placeholder={pinToTrack && currentSong ? `About "${currentSong.title}"...` : 'Message'}
+            placeholderTextColor="#666"
+            value={text}
+            onChangeText={setText}
+            maxLength={MAX_CHAT_MESSAGE_LENGTH}
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.sendButton, (!text.trim() || sending) && styles.sendButtonDisabled]}
+            onPress={handleSend}
+            disabled={!text.trim() || sending}
+          >
+            <Ionicons name="send" size={18} color="#ffffff" />
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  messageList: {
+    padding: 16,
+  },
+  message: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 8,
+    maxWidth: '80%',
+    alignSelf: 'flex-start',
+  },
+  ownMessage: {
+    backgroundColor: '#3a1445',
+    alignSelf: 'flex-end',
+  },
+  messageAuthor: {
+    color: '#a31fc4',
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  messageText: {
+    color: '#ffffff',
+    fontSize: 15,
+  },
+  trackChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: '#222',
+  },
+  trackChipText: {
+    color: '#ccc',
+    fontSize: 12,
+    flexShrink: 1,
+  },
+  messageTime: {
+    color: '#666',
+    fontSize: 10,
+    marginTop: 4,
+    alignSelf: 'flex-end',
+  },
+  historyIndicator: {
+    marginVertical: 16,
+  },
+  historyEnd: {
+    color: '#666',
+    fontSize: 12,
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 32,
+    // The list is inverted, so flip the empty state back upright
+    transform: [{ scaleY: -1 }],
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    padding: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+    gap: 8,
+  },
+  pinButton: {
+    padding: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    color: '#ffffff',
+    fontSize: 15,
+    maxHeight: 120,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#a31fc4',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+});
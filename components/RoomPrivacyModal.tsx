@@ -0,0 +1,244 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    Modal,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { useMusic } from '../contexts/MusicContext';
+import { RoomVisibility } from '../services/roomVisibility';
+import { toastManager } from './Toast';
+
+interface RoomPrivacyModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const VISIBILITY_OPTIONS: { value: RoomVisibility; label: string; description: string; icon: any }[] = [
+  { value: 'public', label: 'Public', description: 'Anyone can find and join', icon: 'globe-outline' },
+  { value: 'unlisted', label: 'Unlisted', description: 'Only people with the link or ID', icon: 'link-outline' },
+  { value: 'private', label: 'Private', description: 'Passphrase or guest list required', icon: 'lock-closed-outline' },
+];
+
+export default function RoomPrivacyModal({ visible, onClose }: RoomPrivacyModalProps) {
+  const { roomVisibility, updateRoomVisibility, participants } = useMusic();
+  const { user } = useAuth();
+
+  const [visibility, setVisibility] = useState<RoomVisibility>(roomVisibility || 'public');
+  const [passphrase, setPassphrase] = useState('');
+  const [limitToCurrentMembers, setLimitToCurrentMembers] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setVisibility(roomVisibility || 'public');
+      setPassphrase('');
+      setLimitToCurrentMembers(false);
+    }
+  }, [visible, roomVisibility]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const allowedUserIds = limitToCurrentMembers
+        ? [...participants.map(p => p.id), ...(user ? [user.uid] : [])]
+        : [];
+      await updateRoomVisibility({
+        visibility,
+        // Leave an existing passphrase untouched when the field is empty
+        passphrase: passphrase.trim() ? passphrase : undefined,
+        allowedUserIds,
+      });
+      toastManager.showToast('Room privacy updated', 'success');
+      onClose();
+    } catch (error: any) {
+      toastManager.showToast(error.message || 'Failed to update room privacy', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>Who can join?</Text>
+
+          {VISIBILITY_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.option, visibility === option.value && styles.optionSelected]}
+              onPress={() => setVisibility(option.value)}
+            >
+              <Ionicons name={option.icon} size={20} color={visibility === option.value ? '#a31fc4' : '#666'} />
+              <View style={styles.optionText}>
+                <Text style={styles.optionLabel}>{option.label}</Text>
+                <Text style={styles.optionDescription}>{option.description}</Text>
+              </View>
+              {visibility === option.value && (
+                <Ionicons name="checkmark-circle" size={20} color="#a31fc4" />
+              )}
+            </TouchableOpacity>
+          ))}
+
+          {visibility === 'private' && (
+            <View style={styles.privateSettings}>
+              <TextInput
+                style={styles.input}
+                placeholder={roomVisibility === 'private' ? 'New passphrase (leave empty to keep)' : 'Passphrase'}
+                placeholderTextColor="#666"
+                value={passphrase}
+                onChangeText={setPassphrase}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+              <TouchableOpacity
+                style={styles.checkboxRow}
+                onPress={() => setLimitToCurrentMembers(!limitToCurrentMembers)}
+              >
+                <Ionicons
+                  name={limitToCurrentMembers ? 'checkbox' : 'square-outline'}
+                  size={20}
+                  color={limitToCurrentMembers ? '#a31fc4' : '#666'}
+                />
+                <Text style={styles.checkboxLabel}>Let everyone here now rejoin without the passphrase</Text>
+              </TouchableOpacity>
+              <Text style={styles.privacyNote}>
+                Keeps casual visitors out, but is not secure: don&apos;t reuse a passphrase you use elsewhere.
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 24,
+    width: '85%',
+    maxWidth: 360,
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    backgroundColor: '#222',
+  },
+  optionSelected: {
+    borderWidth: 1,
+    borderColor: '#a31fc4',
+  },
+  optionText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  optionLabel: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  optionDescription: {
+    color: '#999',
+    fontSize: 12,
+  },
+  privateSettings: {
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  checkboxLabel: {
+    color: '#ccc',
+    fontSize: 14,
+    flex: 1,
+  },
+  privacyNote: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 8,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 8,
+    backgroundColor: '#333',
+  },
+  cancelButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 8,
+    backgroundColor: '#a31fc4',
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
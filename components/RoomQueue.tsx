@@ -0,0 +1,117 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import {
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { useMusic } from '../contexts/MusicContext';
+import { toastManager } from './Toast';
+
+// The room's shared up next list, editable by anyone allowed to edit the queue
+export default function RoomQueue() {
+  const { roomQueue, removeFromRoomQueue, moveRoomQueueEntry, clearRoomQueue, canControl } = useMusic();
+  const canEdit = canControl('editQueue');
+
+  const runQueueAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error: any) {
+      toastManager.showToast(error.message || 'Failed to update up next', 'error');
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title}>Up next</Text>
+        {canEdit && roomQueue.length > 0 && (
+          <TouchableOpacity onPress={() => runQueueAction(clearRoomQueue)}>
+            <Text style={styles.clearText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {roomQueue.length === 0 ? (
+        <Text style={styles.emptyText}>Long-press a song to add it to up next</Text>
+      ) : (
+        roomQueue.map((entry, index) => (
+          <View key={entry.entryId} style={styles.entry}>
+            <Text style={styles.position}>{index + 1}</Text>
+            <View style={styles.entryDetails}>
+              <Text style={styles.entryTitle} numberOfLines={1}>{entry.title}</Text>
+              <Text style={styles.entryMeta} numberOfLines={1}>
+                {entry.artist} • added by {entry.addedByName}
+              </Text>
+            </View>
+            {canEdit && (
+              <>
+                <TouchableOpacity
+                  onPress={() => runQueueAction(() => moveRoomQueueEntry(entry.entryId, index - 1))}
+                  disabled={index === 0}
+                  style={styles.entryButton}
+                >
+                  <Ionicons name="chevron-up" size={18} color={index === 0 ? '#444' : '#999'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => runQueueAction(() => removeFromRoomQueue(entry.entryId))}
+                  style={styles.entryButton}
+                >
+                  <Ionicons name="close" size={18} color="#999" />
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  clearText: {
+    color: '#007AFF',
+    fontSize: 14,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 14,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  position: {
+    color: '#666',
+    fontSize: 14,
+    width: 24,
+  },
+  entryDetails: {
+    flex: 1,
+  },
+  entryTitle: {
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  entryMeta: {
+    color: '#999',
+    fontSize: 12,
+  },
+  entryButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+});
@@ -1,22 +1,86 @@
 // @ts-nocheck
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Audio } from 'expo-av';
-import * as FileSystem from 'expo-file-system';
-import { doc, getDoc, onSnapshot, serverTimestamp, setDoc, updateDoc } from 'firebase/firestore';
-import { getDownloadURL, listAll, ref } from 'firebase/storage';
-import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
-import { db, storage } from '../config/firebase';
-import { clearMusicWidget, showOrUpdateMusicWidget } from '../services/musicWidgetService';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { DriftControllerConfig } from '../services/driftController';
+import { createExpoAudioBackend } from '../services/expoAudioBackend';
+import { CrossfadeSettings, normalizeCrossfade } from '../services/crossfade';
+import { NormalizationMode } from '../services/loudness';
+import { loadCrossfadeSettings, loadNormalizationMode, saveCrossfadeSettings, saveNormalizationMode } from '../services/playerSettings';
+import { getTrackKey, PlayerEngine, PlayerState } from '../services/playerEngine';
+import {
+  cacheSongsToStorage,
+  clearCachedSongs,
+  downloadSong,
+  getCachedSongUri,
+  getPlayableUri,
+  loadCachedSongs,
+  preloadSong,
+  readLoudnessTags,
+} from '../services/songCache';
+import { LibrarySong, loadSongLibrary } from '../services/songLibrary';
+import {
+  canPerformRoomAction,
+  DEFAULT_ROOM_PERMISSIONS,
+  getRoomRole,
+  OPEN_ROOM_PERMISSIONS,
+  RoomAccessInfo,
+  RoomAction,
+  RoomPermissionPolicy,
+  RoomRole,
+} from '../services/roomPermissions';
+import { PresenceStatus } from '../services/roomPresence';
+import {
+  createShuffleSeed,
+  createTrackSessionId,
+  getRoomPlayOrder,
+  parseRoomPlaybackMode,
+  RoomTrackAdvance,
+} from '../services/roomPlayback';
+import {
+  addToRoomQueue,
+  clearRoomQueue,
+  moveRoomQueueEntry,
+  removeFromRoomQueue,
+  RoomQueueEntry,
+} from '../services/roomQueue';
+import { RoomAccessError, RoomVisibility, RoomVisibilitySettings, saveRoomVisibility } from '../services/roomVisibility';
+import { getActionSeq } from '../services/roomActions';
+import { ensureFirestoreTransport, SyncTransportKind } from '../services/syncTransport';
+import { recordHistoryReaction } from '../services/roomHistory';
+import { buildRoomTrackInfo, parseRoomTrackInfo, resolveRoomTrack, RoomTrackInfo } from '../services/roomTracks';
+import {
+  detectRoomActivity,
+  loadMutedRooms,
+  presentRoomActivityNotification,
+  RoomActivityEvent,
+  saveMutedRooms,
+} from '../services/roomActivity';
+import {
+  EMPTY_SONG_REACTIONS,
+  getSongReactions,
+  SongLike,
+  SongMood,
+  SongMoodType,
+  SongReactions,
+} from '../services/songReactions';
+import { getPlaybackAnchor, LATE_START_TOLERANCE_MS, PlaybackAnchor, waitForServerTime } from '../services/scheduledStart';
+import { buildPlaybackStart, PlaybackStartFields, ReadyWait, TrackReadiness } from '../services/roomReadiness';
+import { ParticipantPlayback } from '../services/playbackStatus';
+import { clearSyncDiagnostics } from '../services/syncDiagnostics';
+import { SkipVotePolicy, SkipVoteState } from '../services/skipVotes';
+import { ClockSyncState, getClockSync, getServerNow, startTimeSync, stopTimeSync, subscribeToClockSync } from '../services/timeSync';
+import { getRemotePosition, PlaybackSyncState, useDriftCorrection } from '../hooks/useDriftCorrection';
+import { useMusicWidget } from '../hooks/useMusicWidget';
+import { usePlaybackStatus } from '../hooks/usePlaybackStatus';
+import { useReadyCheck } from '../hooks/useReadyCheck';
+import { useRoomActions } from '../hooks/useRoomActions';
+import { useRoomAdvance } from '../hooks/useRoomAdvance';
+import { useRoomPresence } from '../hooks/useRoomPresence';
+import { RoomParticipant, useRoomState } from '../hooks/useRoomState';
+import { useSyncTransport } from '../hooks/useSyncTransport';
 import { useAuth } from './AuthContext';
 
-interface Song {
-  id: string;
-  title: string;
-  artist: string;
-  url: string;
-  duration: number;
-  albumArt?: string;
-}
+type Song = LibrarySong;
 
 interface Playlist {
   id: string;
@@ -24,38 +88,17 @@ interface Playlist {
   songs: Song[];
 }
 
-interface Participant {
-  id: string;
-  email: string;
-  joinedAt: number;
-}
+type Participant = RoomParticipant;
 
-interface SongLike {
-  songId: string;
-  userId: string;
-  userName: string;
-  timestamp: number;
+interface TrackLoadError {
+  trackId: string;
+  title: string | null;
+  message: string;
 }
 
-interface SongMood {
-  songId: string;
-  userId: string;
-  userName: string;
-  mood: 'love' | 'party' | 'kiss' | 'thumbsup' | 'thumbsdown' | 'puke' | 'crying';
-  timestamp: number;
-}
-
-interface MusicState {
-  currentSong: Song | null;
-  isPlaying: boolean;
-  currentTime: number;
-  duration: number;
-  queue: Song[];
+interface MusicState extends PlayerState<Song> {
   playlists: Playlist[];
   currentPlaylist: Playlist | null;
-  volume: number;
-  isShuffleEnabled: boolean;
-  repeatMode: 'off' | 'all' | 'one';
 }
 
 interface MusicContextType extends MusicState {
@@ -71,9 +114,10 @@ interface MusicContextType extends MusicState {
   addToPlaylist: (playlistId: string, song: Song) => void;
   playPlaylist: (playlist: Playlist) => Promise<void>;
   setVolume: (volume: number) => void;
-  joinRoom: (roomId: string) => Promise<void>;
+  joinRoom: (roomId: string, options?: JoinRoomOptions) => Promise<void>; // leaves the current room only once this one lets us in
   leaveRoom: () => Promise<void>;
   currentRoom: string | null;
+  syncTransportKind: SyncTransportKind;
   loadSongsFromStorage: () => Promise<void>;
   refreshSongsFromServer: () => Promise<void>;
   clearSongCache: () => Promise<void>;
@@ -85,8 +129,50 @@ interface MusicContextType extends MusicState {
   toggleRepeat: () => void;
   likeSong: (song: Song) => Promise<void>;
   getCurrentSongLikes: () => SongLike[];
-  setSongMood: (song: Song, mood: 'love' | 'party' | 'kiss' | 'thumbsup' | 'thumbsdown' | 'puke' | 'crying') => Promise<void>;
+  setSongMood: (song: Song, mood: SongMoodType) => Promise<void>;
   getCurrentSongMood: () => SongMood | null;
+  currentSongReactions: SongReactions; // everyone's likes and moods on the current song
+  clockSync: ClockSyncState;
+  driftConfig: DriftControllerConfig;
+  setDriftConfig: (config: Partial<DriftControllerConfig>) => void;
+  setCrossfade: (settings: Partial<CrossfadeSettings>) => void; // outside rooms only
+  setNormalization: (mode: NormalizationMode) => void;
+  roomAccess: RoomAccessInfo | null;
+  roomRole: RoomRole | null;
+  canControl: (action: RoomAction) => boolean;
+  setParticipantRole: (userId: string, role: 'dj' | 'listener') => Promise<void>;
+  transferHost: (userId: string) => Promise<void>;
+  updateRoomPermissions: (permissions: Partial<RoomPermissionPolicy>) => Promise<void>;
+  roomVisibility: RoomVisibility | null;
+  updateRoomVisibility: (settings: RoomVisibilitySettings) => Promise<void>;
+  participantStatuses: Record<string, PresenceStatus>;
+  participantPlayback: Record<string, ParticipantPlayback>; // what each member last reported hearing
+  pendingRoomActions: number; // room actions waiting to be sent
+  getPlaybackSyncState: () => Promise<PlaybackSyncState | null>;
+  roomQueue: RoomQueueEntry[];
+  addToRoomQueue: (song: Song) => Promise<void>;
+  removeFromRoomQueue: (entryId: string) => Promise<void>;
+  moveRoomQueueEntry: (entryId: string, toIndex: number) => Promise<void>;
+  clearRoomQueue: () => Promise<void>;
+  skipVotes: SkipVoteState | null;
+  voteToSkip: () => Promise<void>;
+  updateSkipVotePolicy: (policy: SkipVotePolicy) => Promise<void>;
+  roomNotificationsMuted: boolean;
+  setRoomNotificationsMuted: (muted: boolean) => void;
+  trackLoadError: TrackLoadError | null;
+  retryTrackLoad: () => void;
+  participantReadiness: Record<string, TrackReadiness | null>; // per member, for the current track
+  readyWait: ReadyWait | null; // set while the room waits for everyone to load the track
+  readyCheckEnabled: boolean;
+  updateReadyCheck: (enabled: boolean) => Promise<void>;
+}
+
+// For the diagnostics screen
+export type { PlaybackSyncState };
+
+interface JoinRoomOptions {
+  passphrase?: string; // required for private rooms unless on the allow-list
+  relayUrl?: string; // sync through a LAN relay (ws://host:port) instead of Firestore
 }
 
 const MusicContext = createContext<MusicContextType | undefined>(undefined);
@@ -99,125 +185,40 @@ export const useMusic = () => {
   return context;
 };
 
-const SONG_CACHE_DIR = `${FileSystem.documentDirectory}song-cache/`;
-const MAX_CACHE_SIZE_BYTES = 1024 * 1024 * 1024; // 1GB
-const CACHED_SONGS_KEY = 'cached_songs';
-const CACHE_TIMESTAMP_KEY = 'songs_cache_timestamp';
-const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-
-async function ensureCacheDir() {
-  const dirInfo = await FileSystem.getInfoAsync(SONG_CACHE_DIR);
-  if (!dirInfo.exists) {
-    await FileSystem.makeDirectoryAsync(SONG_CACHE_DIR, { intermediates: true });
-  }
-}
-
-async function getCacheSize(): Promise<number> {
-  try {
-    const dirInfo = await FileSystem.getInfoAsync(SONG_CACHE_DIR, { size: true });
-    // @ts-ignore – size is available when `size: true`
-    return dirInfo.size ?? 0;
-  } catch {
-    return 0;
-  }
-}
-
-// Cache songs to AsyncStorage
-async function cacheSongsToStorage(songs: Song[]): Promise<void> {
-  try {
-    const songsData = JSON.stringify(songs);
-    await AsyncStorage.setItem(CACHED_SONGS_KEY, songsData);
-    await AsyncStorage.setItem(CACHE_TIMESTAMP_KEY, Date.now().toString());
-    console.log('💾 Cached songs to AsyncStorage');
-  } catch (error) {
-    console.error('❌ Error caching songs to AsyncStorage:', error);
-  }
-}
-
-// Load cached songs from AsyncStorage
-async function loadCachedSongs(): Promise<Song[] | null> {
-  try {
-    const cachedSongs = await AsyncStorage.getItem(CACHED_SONGS_KEY);
-    const cacheTimestamp = await AsyncStorage.getItem(CACHE_TIMESTAMP_KEY);
-    
-    if (!cachedSongs || !cacheTimestamp) {
-      return null;
-    }
-    
-    const timestamp = parseInt(cacheTimestamp);
-    const now = Date.now();
-    
-    // Check if cache is still valid (24 hours)
-    if (now - timestamp > CACHE_DURATION) {
-      console.log('⏰ Song cache expired, will fetch fresh data');
-      return null;
-    }
-    
-    const songs = JSON.parse(cachedSongs);
-    console.log('📱 Loaded cached songs from AsyncStorage');
-    return songs;
-  } catch (error) {
-    console.error('❌ Error loading cached songs:', error);
-    return null;
-  }
-}
-
-async function cacheSongFile(remoteUrl: string, filename: string): Promise<string> {
-  try {
-    await ensureCacheDir();
-    const localUri = `${SONG_CACHE_DIR}${filename}`;
-
-    // If we already have the file cached, return it immediately
-    const info = await FileSystem.getInfoAsync(localUri);
-    if (info.exists) {
-      return localUri;
-    }
-
-    // Check total cache size – simple safeguard (no LRU deletion for brevity)
-    const currentSize = await getCacheSize();
-    if (currentSize > MAX_CACHE_SIZE_BYTES) {
-      console.log('⚠️ Song cache exceeded 1GB – skipping download');
-      return remoteUrl;
-    }
-
-    console.log('⏬ Downloading song for offline cache:', filename);
-    await FileSystem.downloadAsync(remoteUrl, localUri);
-    return localUri;
-  } catch (err) {
-    console.log('Cache download error, using remote URL', err);
-    return remoteUrl;
-  }
-}
+const LOBBY_ROOM_ID = 'listening'; // Shared room everyone auto-joins
 
 export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user } = useAuth();
+  const { user, username } = useAuth();
+  // Local playback; room starts are scheduled on the server clock
+  const [engine] = useState(() => new PlayerEngine<Song>({
+    backend: createExpoAudioBackend(),
+    clock: { now: getServerNow, waitUntil: waitForServerTime },
+    resolveUri: getPlayableUri,
+    preload: preloadSong,
+    lateStartToleranceMs: LATE_START_TOLERANCE_MS,
+    readLoudness: readLoudnessTags,
+  }));
   const [state, setState] = useState<MusicState>({
-    currentSong: null,
-    isPlaying: false,
-    currentTime: 0,
-    duration: 0,
-    queue: [],
+    ...engine.getState(),
     playlists: [],
     currentPlaylist: null,
-    volume: 1.0,
-    isShuffleEnabled: false,
-    repeatMode: 'off',
   });
   
   const [currentRoom, setCurrentRoom] = useState<string | null>(null);
-  const [participants, setParticipants] = useState<Participant[]>([]);
   const [lastPlayedBy, setLastPlayedBy] = useState<string | null>(null);
-  const [currentSongLikes, setCurrentSongLikes] = useState<SongLike[]>([]);
   const [currentSongMood, setCurrentSongMood] = useState<SongMood | null>(null);
   const [roomActivityNotification, setRoomActivityNotification] = useState<{
     visible: boolean;
     message: string;
     onJoin?: () => void;
   } | null>(null);
-  
-  const soundRef = useRef<Audio.Sound | null>(null);
-  const roomListenerRef = useRef<(() => void) | null>(null);
-  const shuffledQueue = useRef<Song[]>([]);
+  const [clockSync, setClockSync] = useState<ClockSyncState>(getClockSync());
+  const [mutedRooms, setMutedRooms] = useState<Record<string, boolean>>({});
+  const [trackLoadError, setTrackLoadError] = useState<TrackLoadError | null>(null);
+  const mutedRoomsRef = useRef<Record<string, boolean>>({});
+
+  // Room songs outside our library, resolved from the room's track metadata
+  const remoteTracksRef = useRef<Map<string, Song>>(new Map());
 
   // Timestamp-based sync state
   const lastActionTimeRef = useRef<Date | null>(null);
@@ -225,32 +226,165 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   const isUpdatingFromFirestoreRef = useRef(false);
   const seekDebounceRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Initialize audio
+  // Room track change identity: a new session starts on every track change, even repeats
+  const loadedTrackSessionRef = useRef<string | null>(null);
+
+  // How room state reaches the other devices; Firestore unless joined through a LAN relay
+  const { transport, transportRef, openTransport, switchTransport, discardTransport } = useSyncTransport();
+  const syncTransportKind: SyncTransportKind = transport.kind;
+  const firestoreRoom = syncTransportKind === 'firestore' ? currentRoom : null;
+
+  // Our playback actions, and which of the room's we have applied
+  const {
+    pendingRoomActions,
+    commitPlaybackAction,
+    flushRoomOutbox,
+    acceptRoomAction,
+    markActionApplied,
+  } = useRoomActions(currentRoom, user?.uid || null, transportRef, () => resyncWithRoom());
+
+  // Drift correction against the room's last known playback anchor
+  const {
+    remotePlaybackRef,
+    lastDriftRef,
+    driftConfig,
+    setDriftConfig,
+    applyDriftCorrection,
+    resetDriftCorrection,
+    getPlaybackSyncState,
+  } = useDriftCorrection(engine, !!currentRoom && state.isPlaying, positionSec => {
+    setState(prev => ({ ...prev, currentTime: positionSec }));
+  });
+
+  // What everyone sees of the room; local playback follows its settings
+  const {
+    participants,
+    roomAccess,
+    roomVisibility,
+    participantStatuses,
+    participantPlayback,
+    roomQueue,
+    roomPlaybackMode,
+    skipVotes,
+    songReactions,
+    participantReadiness,
+    readyWait,
+    readyCheckEnabled,
+    latestRoomDataRef,
+    roomAccessRef,
+  } = useRoomState(currentRoom, user?.uid || null, transport, (roomData, previousRoomData) => {
+    if (!user) return;
+
+    console.log('📡 [RECEIVE] Raw room data:', roomData);
+    if (acceptRoomAction(roomData)) {
+      console.log('🔄 [RECEIVE] Processing action:', { actionSeq: roomData.actionSeq, by: roomData.lastActionByUserId });
+      applyRoomState(roomData);
+    }
+
+    // Shuffle and repeat are room settings
+    const playbackMode = parseRoomPlaybackMode(roomData);
+    engine.setShuffle(playbackMode.shuffleEnabled);
+    engine.setRepeatMode(playbackMode.repeatMode);
+
+    // Tell the user what others are doing in the room
+    detectRoomActivity(
+      previousRoomData,
+      roomData,
+      user.uid,
+      (songId) => engine.getState().queue.find(s => s.id === songId)?.title || parseRoomTrackInfo(roomData)?.title || null
+    ).forEach(raiseRoomActivity);
+
+    releaseIfReady(roomData);
+
+    // Hearing from the room means we're connected again: send what's waiting
+    flushRoomOutbox();
+  });
+  const roomRole: RoomRole | null = currentRoom && user && roomAccess ? getRoomRole(roomAccess, user.uid) : null;
+
+  // Ready check and playback status rely on Firestore; a LAN relay goes without
+  const { reportReadiness, releaseIfReady } = useReadyCheck(firestoreRoom, user?.uid || null, readyWait);
+  usePlaybackStatus(
+    engine,
+    firestoreRoom,
+    user?.uid || null,
+    loadedTrackSessionRef,
+    lastDriftRef,
+    state.isPlaying,
+    state.currentSong?.id ?? null
+  );
+
+  // Next song and skip votes; in a room the room decides
+  const { advanceToNext, voteToSkip } = useRoomAdvance(
+    engine,
+    currentRoom,
+    user?.uid || null,
+    transportRef,
+    loadedTrackSessionRef,
+    advance => playRoomAdvance(advance)
+  );
+
+  // Presence heartbeats (a LAN relay tracks presence from the open connection instead)
+  useRoomPresence(firestoreRoom, user?.uid || null, latestRoomDataRef);
+
+  // Initialize audio and mirror the player engine into React state
   useEffect(() => {
-    const initAudio = async () => {
-      try {
-        await Audio.setAudioModeAsync({
-          allowsRecordingIOS: false,
-          staysActiveInBackground: true,
-          playsInSilentModeIOS: true,
-          shouldDuckAndroid: true,
-          playThroughEarpieceAndroid: false,
-        });
-        console.log('🎵 Audio initialized');
-      } catch (error) {
-        console.error('❌ Error initializing audio:', error);
-      }
+    const unsubscribers = [
+      engine.on('stateChanged', playerState => setState(prev => ({ ...prev, ...playerState }))),
+      engine.on('progress', progress => setState(prev => ({ ...prev, ...progress }))),
+      engine.on('trackChanged', song => {
+        if (!song) return;
+
+        // Clear mood when song changes
+        setCurrentSongMood(null);
+        setTrackLoadError(null);
+      }),
+      engine.on('error', (error, song) => {
+        console.error('❌ Playback error:', song?.title, error);
+      }),
+    ];
+
+    engine.init()
+      .then(() => console.log('🎵 Audio initialized'))
+      .catch(error => console.error('❌ Error initializing audio:', error));
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
     };
+  }, [engine]);
+
+  // Keep an estimate of the offset between this device's clock and server time
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = subscribeToClockSync(setClockSync);
+    startTimeSync(user.uid);
 
-    initAudio();
+    return () => {
+      unsubscribe();
+      stopTimeSync();
+    };
+  }, [user]);
+
+  // Per-room notification mute settings
+  useEffect(() => {
+    loadMutedRooms().then(rooms => {
+      mutedRoomsRef.current = rooms;
+      setMutedRooms(rooms);
+    });
   }, []);
 
+  // Crossfade and normalization preferences for local playback
+  useEffect(() => {
+    loadCrossfadeSettings().then(settings => engine.setCrossfade(settings));
+    loadNormalizationMode().then(mode => engine.setNormalization(mode));
+  }, [engine]);
+
   // Auto-join listening room
   useEffect(() => {
     const autoJoinListeningRoom = async () => {
       if (user && !currentRoom) {
         try {
-          await joinRoom('listening');
+          await joinRoom(LOBBY_ROOM_ID);
         } catch (error) {
           console.error('❌ Error auto-joining room:', error);
         }
@@ -260,84 +394,6 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     autoJoinListeningRoom();
   }, [user]);
 
-  // Extract metadata from audio files
-  const extractMetadata = async (fileUrl: string, fileName: string, filePath?: string): Promise<{ title: string; artist: string; albumArt?: string }> => {
-    try {
-      // Parse filename for basic metadata
-      const nameWithoutExt = fileName.replace(/\.[^/.]+$/, "");
-      const parts = nameWithoutExt.split(' - ');
-      
-      let title = nameWithoutExt;
-      let artist = 'Unknown Artist';
-      
-      if (parts.length >= 2) {
-        artist = parts[0].trim();
-        title = parts.slice(1).join(' - ').trim();
-      }
-      
-      // Try to find corresponding album art
-      let albumArt: string | undefined = undefined;
-      try {
-        // Look for common album art file names
-        const possibleAlbumArtNames = [
-          `${nameWithoutExt}.jpg`,
-          `${nameWithoutExt}.jpeg`,
-          `${nameWithoutExt}.png`,
-          `${artist} - album.jpg`,
-          `${artist} - album.jpeg`,
-          `${artist} - album.png`,
-          'cover.jpg',
-          'cover.jpeg',
-          'cover.png',
-          'album.jpg',
-          'album.jpeg',
-          'album.png',
-        ];
-
-        // Try to get album art from the same directory as the audio file
-        for (const artName of possibleAlbumArtNames) {
-          try {
-            let artRef;
-            if (filePath) {
-              // If we have a specific path, look in that directory
-              artRef = ref(storage, `${filePath}/${artName}`);
-            } else {
-              // Fallback to root directory
-              artRef = ref(storage, artName);
-            }
-            const artUrl = await getDownloadURL(artRef);
-            albumArt = artUrl;
-            console.log(`🎨 Found album art: ${artName} in ${filePath || 'root'}`);
-            break;
-          } catch (artError) {
-            // Continue to next possible name
-          }
-        }
-
-        // If no specific album art found, try a generic music placeholder
-        if (!albumArt) {
-          try {
-            const placeholderRef = ref(storage, 'music-placeholder.jpg');
-            albumArt = await getDownloadURL(placeholderRef);
-          } catch (placeholderError) {
-            // No placeholder available
-          }
-        }
-      } catch (error) {
-        console.log('No album art found for:', fileName);
-      }
-      
-      return { title, artist, albumArt };
-    } catch (error) {
-      console.error('Error extracting metadata:', error);
-      return {
-        title: fileName.replace(/\.[^/.]+$/, ""),
-        artist: 'Unknown Artist',
-        albumArt: undefined,
-      };
-    }
-  };
-
   // Load songs from Firebase Storage
   const loadSongsFromStorage = async () => {
     try {
@@ -349,135 +405,24 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       }
 
       // First, try to load cached song metadata
-      const cachedSongs = await loadCachedSongs();
+      const cachedSongs = await loadCachedSongs<Song>();
       if (cachedSongs && cachedSongs.length > 0) {
         console.log(`📱 Using cached song metadata: ${cachedSongs.length} songs`);
-        setState(prev => ({
-          ...prev,
-          queue: cachedSongs,
-        }));
+        engine.setQueue(cachedSongs);
         return; // Use cached metadata, don't fetch from server
       }
 
       console.log('🔍 No valid cache found, loading song metadata from Firebase Storage...');
-      
-      let songs: Song[] = [];
-      let foundPath = '';
-      
-      // Try root directory first
-      console.log('🔍 Trying to access root directory first...');
-      try {
-        const rootRef = ref(storage);
-        const rootResult = await listAll(rootRef);
-        
-        console.log(`📁 Root directory contains ${rootResult.items.length} items`);
-        
-        if (rootResult.items.length > 0) {
-          for (const itemRef of rootResult.items) {
-            try {
-              // Only process audio files
-              const fileName = itemRef.name.toLowerCase();
-              console.log(`📄 Found file: ${fileName}`);
-              
-              if (fileName.endsWith('.mp3') || fileName.endsWith('.wav') || 
-                  fileName.endsWith('.m4a') || fileName.endsWith('.aac') ||
-                  fileName.endsWith('.flac') || fileName.endsWith('.ogg')) {
-                
-                console.log(`🎵 Processing audio file metadata: ${fileName}`);
-                const downloadUrl = await getDownloadURL(itemRef);
-                const metadata = await extractMetadata(downloadUrl, itemRef.name, foundPath);
-                
-                const song: Song = {
-                  id: itemRef.name,
-                  title: metadata.title,
-                  artist: metadata.artist,
-                  url: downloadUrl, // Keep remote URL, will download on-demand
-                  duration: 0, // Will be set when the song is loaded
-                  albumArt: metadata.albumArt,
-                };
-                
-                songs.push(song);
-                console.log(`✅ Loaded song metadata: ${song.title} by ${song.artist}`);
-              }
-            } catch (fileError) {
-              console.error(`❌ Error loading file ${itemRef.name}:`, fileError);
-            }
-          }
-          
-          if (songs.length > 0) {
-            foundPath = 'root';
-          }
-        }
-      } catch (rootError) {
-        console.log('📁 Root directory not accessible');
-      }
-        
-      // If no songs found in root, try subdirectories
-      if (songs.length === 0) {
-        console.log('🔍 No songs in root, trying subdirectories...');
-        
-        const possiblePaths = [
-          `users/${user.uid}/music`,
-          `music`,
-          `songs`,
-        ];
-
-        for (const path of possiblePaths) {
-          try {
-            console.log(`🔍 Trying path: ${path}`);
-            const musicRef = ref(storage, path);
-            const result = await listAll(musicRef);
-        
-            if (result.items.length > 0) {
-              console.log(`📁 Found ${result.items.length} files in path: ${path}`);
-              foundPath = path;
-              
-              for (const itemRef of result.items) {
-                try {
-                  // Only process audio files
-                  const fileName = itemRef.name.toLowerCase();
-                  if (fileName.endsWith('.mp3') || fileName.endsWith('.wav') || 
-                      fileName.endsWith('.m4a') || fileName.endsWith('.aac') ||
-                      fileName.endsWith('.flac') || fileName.endsWith('.ogg')) {
-                    
-                    const downloadUrl = await getDownloadURL(itemRef);
-                    const metadata = await extractMetadata(downloadUrl, itemRef.name, foundPath);
-                    
-                    const song: Song = {
-                      id: itemRef.name,
-                      title: metadata.title,
-                      artist: metadata.artist,
-                      url: downloadUrl, // Keep remote URL, will download on-demand
-                      duration: 0, // Will be set when the song is loaded
-                      albumArt: metadata.albumArt,
-                    };
-                    
-                    songs.push(song);
-                    console.log(`✅ Loaded song metadata: ${song.title} by ${song.artist}`);
-                  }
-                } catch (fileError) {
-                  console.error(`❌ Error loading file ${itemRef.name}:`, fileError);
-                }
-              }
-              break; // Found songs, stop searching
-            }
-          } catch (pathError) {
-            console.log(`📁 Path ${path} not accessible or empty`);
-          }
-        }
-      }
+      const songs = await loadSongLibrary(user.uid);
       
       if (songs.length > 0) {
         // Cache the song metadata to AsyncStorage
         await cacheSongsToStorage(songs);
         
         // Update queue with loaded song metadata
-        setState(prev => ({
-          ...prev,
-          queue: songs,
-        }));
+        engine.setQueue(songs);
         
-        console.log(`🎵 Added ${songs.length} song metadata to queue from path: ${foundPath || 'root'}`);
+        console.log(`🎵 Added ${songs.length} song metadata to queue`);
         console.log('💡 Songs will be downloaded on-demand when played');
       } else {
         console.log('📁 No audio files found in any storage location');
@@ -489,44 +434,77 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   };
 
-  // Calculate current position based on timestamp
-  const calculateCurrentPosition = (lastActionTime: Date, lastActionSeekPosition: number): number => {
-    if (!lastActionTime) return lastActionSeekPosition;
-    
-    const now = new Date();
-    const elapsedTime = (now.getTime() - lastActionTime.getTime()) / 1000; // Convert to seconds
-    return lastActionSeekPosition + elapsedTime;
+  // Remember our own room actions so drift checks measure against them
+  const recordLocalAction = (
+    trackId: string | null,
+    seekPosition: number,
+    isPlaying: boolean,
+    anchorMillis: number = getServerNow()
+  ) => {
+    remotePlaybackRef.current = {
+      trackId,
+      lastActionTimeMillis: anchorMillis,
+      seekPosition,
+      isPlaying,
+    };
   };
 
-  // Update play/pause state in Firestore
-  const updatePlayPauseState = async (isPlaying: boolean, currentSeekPosition: number) => {
-    if (!currentRoom || !user) return;
+  const setCrossfade = (settings: Partial<CrossfadeSettings>) => {
+    const crossfade = normalizeCrossfade({ ...engine.getState().crossfade, ...settings });
+    engine.setCrossfade(crossfade);
+    saveCrossfadeSettings(crossfade);
+  };
+
+  const setNormalization = (mode: NormalizationMode) => {
+    engine.setNormalization(mode);
+    saveNormalizationMode(mode);
+  };
+
+  // Whether the local user may perform an action in the current room.
+  // Reads from a ref so sound callbacks never see a stale policy.
+  const canControl = (action: RoomAction): boolean => {
+    if (!currentRoom || !user || !roomAccessRef.current) return true;
+    return canPerformRoomAction(roomAccessRef.current, user.uid, action);
+  };
+
+  const ensureRoomPermission = (action: RoomAction): boolean => {
+    if (canControl(action)) return true;
+    console.log(`🚫 [ROOM] Not allowed to ${action} as ${roomRole}`);
+    return false;
+  };
+
+  // Re-read the room and apply its state, e.g. after one of our actions lost a race
+  const resyncWithRoom = async () => {
+    if (!currentRoom) return;
 
     try {
-      const updateData = {
-        isPlaying,
-        lastActionTime: serverTimestamp(),
-        lastActionSeekPosition: currentSeekPosition,
-        lastActionByUserId: user.uid,
-      };
-      
-      await updateDoc(doc(db as any, 'rooms', currentRoom), updateData);
-      
-      console.log('🔄 [WRITE] Updated play/pause state:', {
-        isPlaying,
-        currentSeekPosition,
-        userId: user.uid,
-        timestamp: 'serverTimestamp()',
-      });
+      const data = await transportRef.current.fetchRoom(currentRoom);
+      if (!data) return;
+
+      markActionApplied(getActionSeq(data));
+      applyRoomState(data);
     } catch (error) {
-      console.error('❌ Error updating play/pause state:', error);
+      console.error('❌ [SYNC] Error resyncing with room:', error);
     }
   };
 
+  // Update play/pause state in Firestore
+  const updatePlayPauseState = async (changes: Omit<PlaybackStartFields, 'readyWait'> & { readyWait?: ReadyWait | null }) => {
+    if (!currentRoom || !user) return;
+
+    const anchorMillis = changes.scheduledStartAt ?? getServerNow();
+    recordLocalAction(engine.getLoadedTrackId(), changes.lastActionSeekPosition, changes.isPlaying, anchorMillis);
+
+    await commitPlaybackAction('play/pause state', changes, changes.isPlaying ? anchorMillis : null);
+  };
+
   // Update seek position in Firestore (debounced)
   const updateSeekPosition = async (newSeekPosition: number) => {
     if (!currentRoom || !user) return;
 
+    const isPlaying = remotePlaybackRef.current?.isPlaying ?? engine.getState().isPlaying;
+    recordLocalAction(engine.getLoadedTrackId(), newSeekPosition, isPlaying);
+
     // Clear existing debounce
     if (seekDebounceRef.current) {
       clearTimeout(seekDebounceRef.current);
@@ -534,217 +512,215 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
     // Debounce seek updates
     seekDebounceRef.current = setTimeout(async () => {
-      try {
-        const updateData = {
-          lastActionTime: serverTimestamp(),
-          lastActionSeekPosition: newSeekPosition,
-          lastActionByUserId: user.uid,
-        };
-        
-        await updateDoc(doc(db as any, 'rooms', currentRoom), updateData);
-        
-        console.log('🔄 [WRITE] Updated seek position:', {
-          newSeekPosition,
-          userId: user.uid,
-          timestamp: 'serverTimestamp()',
-        });
-      } catch (error) {
-        console.error('❌ Error updating seek position:', error);
-      }
+      await commitPlaybackAction('seek position', {
+        lastActionSeekPosition: newSeekPosition,
+        scheduledStartAt: null,
+      }, isPlaying ? getServerNow() : null);
     }, 500); // 500ms debounce
   };
 
   // Update track in Firestore
-  const updateTrack = async (song: Song) => {
+  const updateTrack = async (song: Song, trackSessionId: string | null, start: PlaybackStartFields) => {
     if (!currentRoom || !user) return;
 
-    try {
-      const updateData = {
-        currentTrackId: song.id,
-        isPlaying: true,
-        lastActionTime: serverTimestamp(),
-        lastActionSeekPosition: 0,
-        lastActionByUserId: user.uid,
-      };
-      
-      await updateDoc(doc(db as any, 'rooms', currentRoom), updateData);
-      
-      console.log('🔄 [WRITE] Updated track:', {
-        currentTrackId: song.id,
-        songTitle: song.title,
-        userId: user.uid,
-        timestamp: 'serverTimestamp()',
-      });
-    } catch (error) {
-      console.error('❌ Error updating track:', error);
-    }
+    const anchorMillis = start.scheduledStartAt ?? getServerNow();
+    recordLocalAction(song.id, 0, start.isPlaying, anchorMillis);
+
+    await commitPlaybackAction('track', {
+      currentTrackId: song.id,
+      currentTrack: buildRoomTrackInfo(song),
+      trackSessionId,
+      ...start,
+    }, start.isPlaying ? anchorMillis : null);
   };
 
   const playSong = async (song: Song) => {
+    if (!ensureRoomPermission('changeTrack')) return;
+    await loadAndPlaySong(song);
+  };
+
+  // Load and start a song; `broadcast: false` is used when following the room.
+  // With a `start`, playback begins at that scheduled instant instead of right away.
+  const loadAndPlaySong = async (
+    song: Song,
+    {
+      broadcast = true,
+      trackSessionId = null,
+      start = null,
+      shouldPlay = true,
+    }: { broadcast?: boolean; trackSessionId?: string | null; start?: PlaybackAnchor | null; shouldPlay?: boolean } = {}
+  ) => {
     try {
       console.log('🎵 [USER] Playing song:', song.title);
+
+      // Our own track changes start a new room session; remote ones reuse the room's
+      const sessionId = broadcast && currentRoom && user ? createTrackSessionId(user.uid) : trackSessionId;
+      const trackKey = getTrackKey(song.id, sessionId);
+      engine.request(trackKey);
+
+      // Our own room track changes are announced before loading, so every
+      // device downloads at the same time and starts at the same instant
+      let playbackStart = start;
+      let startsPlaying = shouldPlay;
+      if (broadcast && currentRoom && user) {
+        const startFields = buildPlaybackStart(latestRoomDataRef.current, sessionId, 0);
+        playbackStart = { anchorMillis: startFields.scheduledStartAt ?? getServerNow(), seekPosition: 0 };
+        startsPlaying = startFields.isPlaying;
+        await updateTrack(song, sessionId, startFields);
+        if (engine.getRequestedKey() !== trackKey) return; // someone else's action won
+      }
       
       // Stop current song if playing
-      if (soundRef.current) {
-        await soundRef.current.stopAsync();
-        await soundRef.current.unloadAsync();
-      }
+      await engine.stop();
 
       // Check if song is already cached locally
-      let songUrl = song.url;
-      const localUri = `${SONG_CACHE_DIR}${song.id}`;
-      const localFileInfo = await FileSystem.getInfoAsync(localUri);
-      
-      if (localFileInfo.exists) {
+      let songUri = await getCachedSongUri(song);
+      if (songUri) {
         console.log('📱 Using cached song file');
-        songUrl = localUri;
       } else {
         console.log('⏬ Downloading song on-demand...');
-        try {
-          // Download the song file
-          await ensureCacheDir();
-          await FileSystem.downloadAsync(song.url, localUri);
-          songUrl = localUri;
-          console.log('✅ Song downloaded and cached');
-          
-          // Preload next song in background
-          preloadNextSong();
-        } catch (downloadError) {
-          console.log('⚠️ Failed to download song, using remote URL:', downloadError);
-          songUrl = song.url; // Fallback to remote URL
-        }
+        reportReadiness(sessionId, 'downloading');
+        songUri = await downloadSong(song);
+
+        // Preload next song in background
+        preloadNextSong();
       }
+      if (engine.getRequestedKey() !== trackKey) return; // another track change came in meanwhile
 
-      // Load and play new song
-      const { sound } = await Audio.Sound.createAsync(
-        { uri: songUrl },
-        { shouldPlay: true, volume: state.volume }
-      );
-      
-      soundRef.current = sound;
-      
-      // Set up playback status update
-      sound.setOnPlaybackStatusUpdate((status) => {
-        if (status.isLoaded) {
-          const currentPos = (status.positionMillis || 0) / 1000;
-          setState(prev => ({ 
-            ...prev, 
-            currentTime: currentPos,
-            duration: status.durationMillis ? status.durationMillis / 1000 : 0,
-          }));
-          
-          // Auto-skip when song ends (unless repeat one is enabled)
-          if (status.didJustFinish && state.repeatMode !== 'one') {
-            skipNext();
-          }
-        }
-      });
+      // Downloads take a while: follow the room's latest state for this track, not the one we started with
+      const roomData = latestRoomDataRef.current;
+      if (!broadcast && currentRoom && roomData && (roomData.trackSessionId || null) === sessionId) {
+        playbackStart = getPlaybackAnchor(roomData);
+        startsPlaying = !!roomData.isPlaying;
+      }
+
+      // Load the new song; scheduled starts wait until their instant
+      const loaded = await engine.load(song, { key: trackKey, uri: songUri, start: playbackStart, shouldPlay: startsPlaying });
+      if (!loaded) return; // Another track change came in while this one was loading
+      reportReadiness(sessionId, 'buffered');
       
-      // Optimistic update - immediate local change
-      setState(prev => ({
-        ...prev,
-        currentSong: song,
-        isPlaying: true,
-        currentTime: 0,
-        duration: song.duration,
-      }));
-
-      // Show music widget immediately
-      const currentMood = getCurrentSongMood();
-      const vibeText = currentMood ? `${currentMood.mood} by ${currentMood.userName}` : undefined;
-      await showOrUpdateMusicWidget(song as MiniSong, true, 0, vibeText);
-
-      // Update Firestore with new track
-      await updateTrack(song);
+      loadedTrackSessionRef.current = sessionId;
+      resetDriftCorrection();
 
       // Update last played by
-      if (currentRoom && user) {
-        setLastPlayedBy(user.email?.split('@')[0] || 'Unknown');
+      if (broadcast && currentRoom && user) {
+        setLastPlayedBy(username || user.email?.split('@')[0] || 'Unknown');
       }
-
-      // Clear mood when song changes
-      setCurrentSongMood(null);
-      
     } catch (error) {
       console.error('Error playing song:', error);
+      if (!broadcast) {
+        await showTrackLoadError({ trackId: song.id, title: song.title, message: 'This song could not be played' });
+      }
     }
   };
 
-  // Preload next song in background
-  const preloadNextSong = async () => {
+  // A song the room is playing: from our library, or fetched using the room's track metadata
+  const getRoomSong = async (trackId: string, track: RoomTrackInfo | null): Promise<Song> => {
+    const known = engine.getState().queue.find(s => s.id === trackId) || remoteTracksRef.current.get(trackId);
+    if (known) return known;
+    if (!track) throw new Error('The room didn\'t share this song\'s details');
+
+    console.log('🔍 [ROOM] Fetching track from outside our library:', track.title);
+    const song = await resolveRoomTrack(track);
+    remoteTracksRef.current.set(trackId, song);
+    return song;
+  };
+
+  // Load the room's current track. If it can't be loaded we stop rather than
+  // keep playing the previous song, and say why.
+  const followRoomTrack = async (roomData: any) => {
+    const trackId = roomData.currentTrackId;
+    const trackSessionId = roomData.trackSessionId || null;
+    const trackKey = getTrackKey(trackId, trackSessionId);
+    const track = parseRoomTrackInfo(roomData);
+    engine.request(trackKey);
+
     try {
-      const queueToUse = state.isShuffleEnabled ? shuffledQueue.current : state.queue;
-      const currentIndex = queueToUse.findIndex(s => s.id === state.currentSong?.id);
-      
-      if (currentIndex < queueToUse.length - 1) {
-        const nextSong = queueToUse[currentIndex + 1];
-        const localUri = `${SONG_CACHE_DIR}${nextSong.id}`;
-        const localFileInfo = await FileSystem.getInfoAsync(localUri);
-        
-        if (!localFileInfo.exists) {
-          console.log('🔄 Preloading next song:', nextSong.title);
-          await ensureCacheDir();
-          await FileSystem.downloadAsync(nextSong.url, localUri);
-          console.log('✅ Next song preloaded');
-        }
-      }
-    } catch (error) {
-      console.log('⚠️ Failed to preload next song:', error);
+      const song = await getRoomSong(trackId, track);
+      if (engine.getRequestedKey() !== trackKey) return; // the room moved on meanwhile
+
+      console.log('🎵 [RECEIVE] Loading new track:', song.title);
+      await loadAndPlaySong(song, {
+        broadcast: false,
+        trackSessionId,
+        start: getPlaybackAnchor(roomData),
+        shouldPlay: !!roomData.isPlaying,
+      });
+    } catch (error: any) {
+      if (engine.getRequestedKey() !== trackKey) return;
+      console.log('⚠️ [RECEIVE] Could not load room track:', trackId, error.message);
+      await showTrackLoadError({ trackId, title: track?.title || null, message: error.message });
     }
   };
 
+  // The room is playing something we can't load: stop the old song and say so
+  const showTrackLoadError = async (error: TrackLoadError) => {
+    reportReadiness(latestRoomDataRef.current?.trackSessionId || null, 'failed');
+    await engine.unload();
+    setTrackLoadError(error);
+  };
+
+  const retryTrackLoad = () => {
+    const roomData = latestRoomDataRef.current;
+    if (!roomData?.currentTrackId) return;
+
+    setTrackLoadError(null);
+    remoteTracksRef.current.delete(roomData.currentTrackId);
+    followRoomTrack(roomData);
+  };
+
+  // Preload next song in background
+  const preloadNextSong = () => {
+    const nextSong = engine.getNextSong(getPlayOrder());
+    if (nextSong) preloadSong(nextSong);
+  };
+
   const pauseSong = async () => {
-    try {
-      if (soundRef.current) {
-        const status = await soundRef.current.getStatusAsync();
-        
-        if (status.isLoaded && status.isPlaying) {
-          console.log('⏸️ [USER] Pausing song - optimistic update');
-          
-          // Optimistic update - immediate local change
-          await soundRef.current.pauseAsync();
-          setState(prev => ({ ...prev, isPlaying: false }));
-
-          if (state.currentSong) {
-            const currentMood = getCurrentSongMood();
-            const vibeText = currentMood ? `${currentMood.mood} by ${currentMood.userName}` : undefined;
-            await showOrUpdateMusicWidget(state.currentSong as MiniSong, false, state.currentTime, vibeText);
-          }
+    if (!ensureRoomPermission('pause')) return;
 
-          // Update Firestore in background
-          const currentPos = status.positionMillis ? status.positionMillis / 1000 : 0;
-          console.log('⏸️ [USER] Current position when pausing:', currentPos);
-          await updatePlayPauseState(false, currentPos);
-        }
-      }
+    try {
+      // Pausing before a scheduled start calls the start off
+      const currentPos = await engine.pause();
+      if (currentPos === null) return;
+      console.log('⏸️ [USER] Paused song - optimistic update');
+
+      // Update Firestore in background
+      console.log('⏸️ [USER] Current position when pausing:', currentPos);
+      await updatePlayPauseState({ isPlaying: false, lastActionSeekPosition: currentPos, scheduledStartAt: null });
     } catch (error) {
       console.error('Error pausing song:', error);
     }
   };
 
   const resumeSong = async () => {
+    if (!ensureRoomPermission('pause')) return;
+
     try {
-      if (soundRef.current) {
-        const status = await soundRef.current.getStatusAsync();
+      const status = await engine.getStatus();
+      
+      if (status && !status.isPlaying) {
+        console.log('▶️ [USER] Resuming song - optimistic update');
+        const currentPos = status.positionMillis / 1000;
+        // In a room everyone resumes together a moment from now, or once everyone is ready
+        const startFields = currentRoom
+          ? buildPlaybackStart(latestRoomDataRef.current, loadedTrackSessionRef.current, currentPos)
+          : null;
+        if (startFields && !startFields.isPlaying) {
+          console.log('⏳ [USER] Waiting for everyone to be ready before resuming');
+          await updatePlayPauseState(startFields);
+          return;
+        }
         
-        if (status.isLoaded && !status.isPlaying) {
-          console.log('▶️ [USER] Resuming song - optimistic update');
-          
-          // Optimistic update - immediate local change
-          await soundRef.current.playAsync();
-          setState(prev => ({ ...prev, isPlaying: true }));
-
-          if (state.currentSong) {
-            const currentMood = getCurrentSongMood();
-            const vibeText = currentMood ? `${currentMood.mood} by ${currentMood.userName}` : undefined;
-            await showOrUpdateMusicWidget(state.currentSong as MiniSong, true, state.currentTime, vibeText);
-          }
-
-          // Update Firestore in background
-          const currentPos = status.positionMillis ? status.positionMillis / 1000 : 0;
-          console.log('▶️ [USER] Current position when resuming:', currentPos);
-          await updatePlayPauseState(true, currentPos);
+        // Optimistic update - immediate local change
+        if (startFields?.scheduledStartAt) {
+          engine.startAt({ anchorMillis: startFields.scheduledStartAt, seekPosition: currentPos });
+        } else {
+          await engine.play();
         }
+
+        // Update Firestore in background
+        console.log('▶️ [USER] Current position when resuming:', currentPos);
+        await updatePlayPauseState(startFields || { isPlaying: true, lastActionSeekPosition: currentPos, scheduledStartAt: null });
       }
     } catch (error) {
       console.error('Error resuming song:', error);
@@ -752,20 +728,14 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   };
 
   const seekTo = async (time: number) => {
+    if (!ensureRoomPermission('seek')) return;
+
     try {
-      if (soundRef.current) {
+      if (engine.getPlayer()) {
         console.log('⏩ [USER] Seeking to position:', time);
         
         // Optimistic update - immediate local change
-        await soundRef.current.setPositionAsync(time * 1000);
-        setState(prev => ({ ...prev, currentTime: time }));
-
-        // Immediately update music widget for seek
-        if (state.currentSong) {
-          const currentMood = getCurrentSongMood();
-          const vibeText = currentMood ? `${currentMood.mood} by ${currentMood.userName}` : undefined;
-          await showOrUpdateMusicWidget(state.currentSong as MiniSong, state.isPlaying, time, vibeText);
-        }
+        await engine.seek(time);
 
         // Update Firestore with debounced seek
         await updateSeekPosition(time);
@@ -775,97 +745,160 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   };
 
+  const ensureFirestoreRoom = (feature: string) => ensureFirestoreTransport(transportRef.current, feature);
+
   const skipNext = async () => {
-    if (state.repeatMode === 'one' && state.currentSong) {
-      // Repeat current song
-      await playSong(state.currentSong);
-      return;
+    if (!ensureRoomPermission('skip')) return;
+    await advanceToNext();
+  };
+
+  // Songs in the order next/previous walk through: the room's shared order when in a room
+  const getPlayOrder = (): Song[] => {
+    if (currentRoom && roomPlaybackMode) {
+      const library = engine.getState().queue;
+      return getRoomPlayOrder(library.map(s => s.id), roomPlaybackMode)
+        .map(id => library.find(s => s.id === id))
+        .filter(Boolean) as Song[];
     }
+    return engine.getPlayOrder();
+  };
 
-    const queueToUse = state.isShuffleEnabled ? shuffledQueue.current : state.queue;
-    const currentIndex = queueToUse.findIndex(song => song.id === state.currentSong?.id);
-    
-    if (currentIndex < queueToUse.length - 1) {
-      const nextSong = queueToUse[currentIndex + 1];
-      await playSong(nextSong);
-      
-      // Preload the song after next
-      if (currentIndex + 2 < queueToUse.length) {
-        const songAfterNext = queueToUse[currentIndex + 2];
-        preloadSpecificSong(songAfterNext);
-      }
-    } else if (state.repeatMode === 'all' && queueToUse.length > 0) {
-      // Repeat queue from beginning
-      await playSong(queueToUse[0]);
-      
-      // Preload second song
-      if (queueToUse.length > 1) {
-        preloadSpecificSong(queueToUse[1]);
-      }
+  // Load a track change this device just committed to the room
+  const playRoomAdvance = async (advance: RoomTrackAdvance) => {
+    markActionApplied(advance.actionSeq);
+    if (!user) return;
+
+    let song: Song;
+    try {
+      song = await getRoomSong(advance.trackId, advance.track);
+    } catch (error: any) {
+      await showTrackLoadError({ trackId: advance.trackId, title: advance.track.title, message: error.message });
+      return;
     }
+
+    console.log('⏭️ [ROOM] Advanced to:', song.title, advance.fromUpNext ? '(up next)' : '');
+    // Without a scheduled start the room is waiting for everyone to be ready
+    const startsPlaying = advance.scheduledStartAt !== null;
+    const start = { anchorMillis: advance.scheduledStartAt ?? getServerNow(), seekPosition: 0 };
+    recordLocalAction(song.id, 0, startsPlaying, start.anchorMillis);
+    await loadAndPlaySong(song, { broadcast: false, trackSessionId: advance.trackSessionId, start, shouldPlay: startsPlaying });
+    setLastPlayedBy(username || user.email?.split('@')[0] || 'Unknown');
   };
 
   const skipPrevious = async () => {
-    if (state.repeatMode === 'one' && state.currentSong) {
-      // Repeat current song
-      await playSong(state.currentSong);
+    if (!ensureRoomPermission('skip')) return;
+
+    // In a room this goes by the room's order and changes the track for everyone
+    const previousSong = engine.getPreviousSong(getPlayOrder());
+    if (!previousSong) return;
+    await loadAndPlaySong(previousSong);
+
+    // Preload the song before it
+    const songBefore = engine.getPreviousSong(getPlayOrder());
+    if (songBefore && songBefore.id !== previousSong.id) {
+      preloadSong(songBefore);
+    }
+  };
+
+  const addToQueue = (song: Song) => {
+    if (!ensureRoomPermission('editQueue')) return;
+
+    // Everyone in a room shares one up next list
+    if (currentRoom) {
+      addSongToRoomQueue(song).catch(error => {
+        console.error('❌ [QUEUE] Error adding to up next:', error);
+      });
       return;
     }
 
-    const queueToUse = state.isShuffleEnabled ? shuffledQueue.current : state.queue;
-    const currentIndex = queueToUse.findIndex(song => song.id === state.currentSong?.id);
-    
-    if (currentIndex > 0) {
-      const prevSong = queueToUse[currentIndex - 1];
-      await playSong(prevSong);
-      
-      // Preload the song before previous
-      if (currentIndex > 1) {
-        const songBeforePrev = queueToUse[currentIndex - 2];
-        preloadSpecificSong(songBeforePrev);
-      }
-    } else if (state.repeatMode === 'all' && queueToUse.length > 0) {
-      // Go to last song in queue
-      const lastSong = queueToUse[queueToUse.length - 1];
-      await playSong(lastSong);
-      
-      // Preload second to last song
-      if (queueToUse.length > 1) {
-        const secondToLastSong = queueToUse[queueToUse.length - 2];
-        preloadSpecificSong(secondToLastSong);
-      }
+    engine.addToQueue(song);
+  };
+
+  const removeFromQueue = (index: number) => {
+    if (!ensureRoomPermission('editQueue')) return;
+
+    engine.removeFromQueue(index);
+  };
+
+  const addSongToRoomQueue = async (song: Song) => {
+    if (!currentRoom || !user) return;
+    if (!ensureRoomPermission('editQueue')) throw new Error('You are not allowed to edit the queue');
+    ensureFirestoreRoom('Up next');
+
+    try {
+      await addToRoomQueue(currentRoom, song, user.uid, username || user.email?.split('@')[0] || 'Unknown');
+      console.log('➕ [QUEUE] Added to up next:', song.title);
+    } catch (error: any) {
+      console.error('❌ [QUEUE] Error adding to up next:', error);
+      throw new Error(error.message === 'Up next is full' ? error.message : 'Failed to add to up next');
     }
   };
 
-  // Preload a specific song
-  const preloadSpecificSong = async (song: Song) => {
+  const removeSongFromRoomQueue = async (entryId: string) => {
+    if (!currentRoom || !user) return;
+    if (!ensureRoomPermission('editQueue')) throw new Error('You are not allowed to edit the queue');
+    ensureFirestoreRoom('Up next');
+
     try {
-      const localUri = `${SONG_CACHE_DIR}${song.id}`;
-      const localFileInfo = await FileSystem.getInfoAsync(localUri);
-      
-      if (!localFileInfo.exists) {
-        console.log('🔄 Preloading specific song:', song.title);
-        await ensureCacheDir();
-        await FileSystem.downloadAsync(song.url, localUri);
-        console.log('✅ Specific song preloaded:', song.title);
-      }
+      await removeFromRoomQueue(currentRoom, entryId, user.uid);
     } catch (error) {
-      console.log('⚠️ Failed to preload specific song:', error);
+      console.error('❌ [QUEUE] Error removing from up next:', error);
+      throw new Error('Failed to remove from up next');
     }
   };
 
-  const addToQueue = (song: Song) => {
-    setState(prev => ({
-      ...prev,
-      queue: [...prev.queue, song],
-    }));
+  const moveSongInRoomQueue = async (entryId: string, toIndex: number) => {
+    if (!currentRoom || !user) return;
+    if (!ensureRoomPermission('editQueue')) throw new Error('You are not allowed to edit the queue');
+    ensureFirestoreRoom('Up next');
+
+    try {
+      await moveRoomQueueEntry(currentRoom, entryId, toIndex, user.uid);
+    } catch (error) {
+      console.error('❌ [QUEUE] Error moving up next entry:', error);
+      throw new Error('Failed to reorder up next');
+    }
   };
 
-  const removeFromQueue = (index: number) => {
-    setState(prev => ({
-      ...prev,
-      queue: prev.queue.filter((_, i) => i !== index),
-    }));
+  const clearSharedRoomQueue = async () => {
+    if (!currentRoom || !user) return;
+    if (!ensureRoomPermission('editQueue')) throw new Error('You are not allowed to edit the queue');
+    ensureFirestoreRoom('Up next');
+
+    try {
+      await clearRoomQueue(currentRoom, user.uid);
+    } catch (error) {
+      console.error('❌ [QUEUE] Error clearing up next:', error);
+      throw new Error('Failed to clear up next');
+    }
+  };
+
+  // Host-only: how many votes it takes to skip
+  const updateSkipVotePolicy = async (policy: SkipVotePolicy) => {
+    if (!currentRoom || !user) return;
+    if (roomRole !== 'host') throw new Error('Only the host can change skip voting');
+    ensureFirestoreRoom('Skip voting');
+
+    try {
+      await transportRef.current.updateRoom(currentRoom, { skipVotePolicy: policy });
+    } catch (error) {
+      console.error('❌ Error updating skip vote policy:', error);
+      throw new Error('Failed to update skip voting');
+    }
+  };
+
+  // Host-only: make track changes wait until everyone has the song loaded
+  const updateReadyCheck = async (enabled: boolean) => {
+    if (!currentRoom || !user) return;
+    if (roomRole !== 'host') throw new Error('Only the host can change the ready check');
+    ensureFirestoreRoom('The ready check');
+
+    try {
+      await transportRef.current.updateRoom(currentRoom, { readyCheckEnabled: enabled });
+    } catch (error) {
+      console.error('❌ Error updating ready check:', error);
+      throw new Error('Failed to update ready check');
+    }
   };
 
   const createPlaylist = (name: string) => {
@@ -892,248 +925,142 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   };
 
   const playPlaylist = async (playlist: Playlist) => {
+    if (!ensureRoomPermission('changeTrack')) return;
+
     if (playlist.songs.length > 0) {
-      setState(prev => ({
-        ...prev,
-        queue: playlist.songs,
-        currentPlaylist: playlist,
-      }));
-      await playSong(playlist.songs[0]);
+      engine.setQueue(playlist.songs);
+      setState(prev => ({ ...prev, currentPlaylist: playlist }));
+      await loadAndPlaySong(playlist.songs[0]);
     }
   };
 
-  // Update progress tracking
-  useEffect(() => {
-    const updateProgress = async () => {
-      if (soundRef.current && state.isPlaying) {
-        try {
-          const status = await soundRef.current.getStatusAsync();
-          if (status.isLoaded) {
-            const currentPos = status.positionMillis ? status.positionMillis / 1000 : 0;
-            setState(prev => ({
-              ...prev,
-              currentTime: currentPos,
-              duration: status.durationMillis ? status.durationMillis / 1000 : 0,
-            }));
-          }
-        } catch (error) {
-          console.error('Error updating progress:', error);
-        }
-      }
-    };
+  const setVolume = (volume: number) => {
+    engine.setVolume(volume);
+  };
 
-    const progressInterval = setInterval(updateProgress, 1000);
-    
-    return () => {
-      clearInterval(progressInterval);
-    };
-  }, [state.isPlaying]);
+  // Bring local playback in line with a room document
+  const applyRoomState = (data: any) => {
+    // A newer action replaces any start we were still waiting for
+    engine.cancelScheduledStart();
+
+    // Update local state based on Firestore data. A new track session
+    // means a track change even when the track ID repeats.
+    const trackKey = getTrackKey(data.currentTrackId, data.trackSessionId || null);
+    const isTrackChange = !!data.currentTrackId && trackKey !== engine.getRequestedKey();
+    if (isTrackChange) {
+      console.log('🎵 [RECEIVE] Track change detected:', {
+        newTrackId: data.currentTrackId,
+        trackSessionId: data.trackSessionId,
+        currentTrackId: engine.getLoadedTrackId(),
+      });
 
-  // Cleanup music widget when component unmounts
-  useEffect(() => {
-    return () => {
-      clearMusicWidget();
-    };
-  }, []);
+      followRoomTrack(data);
+    }
 
-  // Room participant tracking
-  useEffect(() => {
-    if (currentRoom && user) {
-      console.log('👥 Setting up participants listener for room:', currentRoom);
-      
-      // Listen to participants in the room
-      const roomRef = doc(db as any, 'rooms', currentRoom);
-      const unsubscribe = onSnapshot(roomRef, (doc) => {
-        if (doc.exists()) {
-          const roomData = doc.data();
-          const roomParticipants = roomData.participants || [];
-          
-          // Filter out current user from participants list
-          const otherParticipants = roomParticipants.filter((p: Participant) => p.id !== user.uid);
-          setParticipants(otherParticipants);
-          
-          console.log(`👥 Updated participants: ${otherParticipants.length} others in room`);
-        }
+    // Calculate current position and update player. Playback runs from the
+    // scheduled start if the action has one, else from the action time.
+    const anchor = getPlaybackAnchor(data);
+    if (anchor && data.lastActionSeekPosition !== undefined) {
+      const lastActionTimeMillis = anchor.anchorMillis;
+      const lastActionTime = new Date(lastActionTimeMillis);
+      const serverNow = getServerNow();
+      remotePlaybackRef.current = {
+        trackId: data.currentTrackId,
+        lastActionTimeMillis,
+        seekPosition: data.lastActionSeekPosition,
+        isPlaying: data.isPlaying,
+      };
+      const calculatedPosition = getRemotePosition(remotePlaybackRef.current);
+
+      console.log('⏰ [RECEIVE] Time calculation:', {
+        lastActionTime: lastActionTime.toISOString(),
+        lastActionTimeMillis,
+        scheduledStart: lastActionTimeMillis > serverNow,
+        serverNow,
+        clockOffsetMs: getClockSync().offsetMs,
+        elapsedTimeSeconds: (serverNow - lastActionTimeMillis) / 1000,
+        lastActionSeekPosition: data.lastActionSeekPosition,
+        calculatedPosition,
+        isPlaying: data.isPlaying,
       });
 
-      return () => {
-        console.log('🔇 Cleaning up participants listener');
-        unsubscribe();
-      };
-    } else {
-      setParticipants([]);
-    }
-  }, [currentRoom, user]);
+      // Update player state, correcting drift only as much as needed.
+      // A new track starts itself once loaded.
+      if (isTrackChange || engine.getLoadedKey() !== trackKey) {
+        console.log('🎵 [RECEIVE] Waiting for new track to load');
+      } else if (engine.getPlayer()) {
+        engine.getStatus().then(async status => {
+          if (status) {
+            console.log('🎵 [RECEIVE] Updating player state:', {
+              currentPosition: status.positionMillis / 1000,
+              calculatedPosition,
+              isPlaying: data.isPlaying,
+              wasPlaying: status.isPlaying,
+            });
 
-  // Generate shuffled queue when shuffle is enabled
-  useEffect(() => {
-    if (state.isShuffleEnabled && state.queue.length > 0) {
-      const currentIndex = state.queue.findIndex(song => song.id === state.currentSong?.id);
-      const otherSongs = state.queue.filter((_, index) => index !== currentIndex);
-      const shuffled = [...otherSongs].sort(() => Math.random() - 0.5);
-      
-      if (state.currentSong) {
-        shuffledQueue.current = [state.currentSong, ...shuffled];
+            // Update play/pause state immediately
+            if (data.isPlaying !== status.isPlaying) {
+              if (data.isPlaying) {
+                console.log('▶️ [RECEIVE] Starting playback at:', lastActionTime.toISOString());
+                await engine.startAt(anchor);
+              } else {
+                console.log('⏸️ [RECEIVE] Pausing playback');
+                await engine.pause();
+              }
+            } else {
+              console.log('🔄 [RECEIVE] Play/pause state unchanged');
+            }
+
+            await applyDriftCorrection();
+          } else {
+            console.log('⚠️ [RECEIVE] Sound not loaded, cannot update');
+          }
+        }).catch((error) => {
+          console.error('❌ [RECEIVE] Error updating player state:', error);
+        });
       } else {
-        shuffledQueue.current = shuffled;
+        console.log('⚠️ [RECEIVE] No sound reference available');
       }
-    }
-  }, [state.isShuffleEnabled, state.queue, state.currentSong]);
-
-  const setVolume = (volume: number) => {
-    setState(prev => ({ ...prev, volume }));
-    if (soundRef.current) {
-      soundRef.current.setVolumeAsync(volume);
+    } else {
+      console.log('⚠️ [RECEIVE] Missing timestamp or seek position data');
     }
   };
 
-  const joinRoom = async (roomId: string) => {
+  const joinRoom = async (roomId: string, options: JoinRoomOptions = {}) => {
     try {
       if (!user) throw new Error('User not authenticated');
 
       console.log('🚪 Joining room:', roomId);
-      
-      const roomRef = doc(db as any, 'rooms', roomId);
-      const roomDoc = await getDoc(roomRef);
-
-      if (!roomDoc.exists()) {
-        // Create room with initial state
-        await setDoc(roomRef, {
-          id: roomId,
-          participants: [{
-            id: user.uid,
-            email: user.email,
-            joinedAt: Date.now(),
-          }],
-          currentTrackId: null,
-          isPlaying: false,
-          lastActionTime: serverTimestamp(),
-          lastActionSeekPosition: 0,
-          lastActionByUserId: null,
-          createdAt: Date.now(),
+
+      const roomTransport = openTransport(options.relayUrl);
+      try {
+        await roomTransport.join(roomId, { id: user.uid, email: user.email, name: username || null }, {
+          passphrase: options.passphrase,
+          permissions: roomId === LOBBY_ROOM_ID ? OPEN_ROOM_PERMISSIONS : DEFAULT_ROOM_PERMISSIONS,
         });
-      } else {
-        // Add user to existing room
-        const roomData = roomDoc.data();
-        const participants = roomData.participants || [];
-        
-        const existingParticipant = participants.find((p: Participant) => p.id === user.uid);
-        
-        if (!existingParticipant) {
-          participants.push({
-            id: user.uid,
-            email: user.email,
-            joinedAt: Date.now(),
-          });
-          
-          await updateDoc(roomRef, { participants });
-        }
+      } catch (error) {
+        discardTransport(roomTransport);
+        throw error;
       }
 
-      setCurrentRoom(roomId);
-      
-      // Set up real-time listener
-      if (roomListenerRef.current) {
-        roomListenerRef.current();
+      // Only leave the room we're in once the new one has let us in
+      if (currentRoom && currentRoom !== roomId) {
+        await leaveRoom();
       }
-      
-      roomListenerRef.current = onSnapshot(roomRef, (doc) => {
-        if (doc.exists()) {
-          const data = doc.data();
-          
-          console.log('📡 [RECEIVE] Raw Firestore data:', data);
-          
-          // Handle self-updates (ignore if we're the one who made the change)
-          if (data.lastActionByUserId === user.uid) {
-            console.log('🔄 [RECEIVE] Ignoring self-update from user:', user.uid);
-            return;
-          }
 
-          console.log('🔄 [RECEIVE] Processing update from other user:', data.lastActionByUserId);
-          
-          // Update local state based on Firestore data
-          if (data.currentTrackId && data.currentTrackId !== state.currentSong?.id) {
-            console.log('🎵 [RECEIVE] Track change detected:', {
-              newTrackId: data.currentTrackId,
-              currentTrackId: state.currentSong?.id,
-            });
-            
-            // Find the song in our queue
-            const song = state.queue.find(s => s.id === data.currentTrackId);
-            if (song) {
-              console.log('🎵 [RECEIVE] Loading new track:', song.title);
-              playSong(song);
-            } else {
-              console.log('⚠️ [RECEIVE] Track not found in queue:', data.currentTrackId);
-            }
-          }
-
-          // Calculate current position and update player
-          if (data.lastActionTime && data.lastActionSeekPosition !== undefined) {
-            // Convert Firestore Timestamp to milliseconds
-            const lastActionTimeMillis = data.lastActionTime.toMillis();
-            const lastActionTime = new Date(lastActionTimeMillis);
-            const currentLocalTime = Date.now();
-            const elapsedTime = (currentLocalTime - lastActionTimeMillis) / 1000; // Convert to seconds
-            const calculatedPosition = data.lastActionSeekPosition + elapsedTime;
-            
-            console.log('⏰ [RECEIVE] Time calculation:', {
-              lastActionTime: lastActionTime.toISOString(),
-              lastActionTimeMillis,
-              currentLocalTime,
-              elapsedTimeSeconds: elapsedTime,
-              lastActionSeekPosition: data.lastActionSeekPosition,
-              calculatedPosition,
-              isPlaying: data.isPlaying,
-            });
-            
-            // Update player state immediately
-            if (soundRef.current) {
-              soundRef.current.getStatusAsync().then(status => {
-                if (status.isLoaded) {
-                  console.log('🎵 [RECEIVE] Updating player state:', {
-                    currentPosition: status.positionMillis ? status.positionMillis / 1000 : 0,
-                    calculatedPosition,
-                    isPlaying: data.isPlaying,
-                    wasPlaying: status.isPlaying,
-                  });
-                  
-                  // Seek to calculated position immediately
-                  soundRef.current?.setPositionAsync(calculatedPosition * 1000);
-                  setState(prev => ({ ...prev, currentTime: calculatedPosition }));
-                  
-                  // Update play/pause state immediately
-                  if (data.isPlaying !== state.isPlaying) {
-                    if (data.isPlaying) {
-                      console.log('▶️ [RECEIVE] Starting playback');
-                      soundRef.current?.playAsync();
-                      setState(prev => ({ ...prev, isPlaying: true }));
-                    } else {
-                      console.log('⏸️ [RECEIVE] Pausing playback');
-                      soundRef.current?.pauseAsync();
-                      setState(prev => ({ ...prev, isPlaying: false }));
-                    }
-                  } else {
-                    console.log('🔄 [RECEIVE] Play/pause state unchanged');
-                  }
-                } else {
-                  console.log('⚠️ [RECEIVE] Sound not loaded, cannot update');
-                }
-              }).catch((error) => {
-                console.error('❌ [RECEIVE] Error updating player state:', error);
-              });
-            } else {
-              console.log('⚠️ [RECEIVE] No sound reference available');
-            }
-          } else {
-            console.log('⚠️ [RECEIVE] Missing timestamp or seek position data');
-          }
-        }
-      });
+      // Switching rooms can mean switching transports. The room's updates come
+      // in through useRoomState once it picks up the new room.
+      switchTransport(roomTransport);
+      setCurrentRoom(roomId);
+      clearSyncDiagnostics();
 
       console.log('✅ Successfully joined room');
     } catch (error) {
-      console.error('❌ Error joining room:', error);
+      if (error instanceof RoomAccessError) {
+        console.log('🔒 Room access denied:', error.code);
+      } else {
+        console.error('❌ Error joining room:', error);
+      }
       throw error;
     }
   };
@@ -1143,34 +1070,14 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       if (currentRoom && user) {
         console.log('🚪 Leaving room');
         
-        const roomRef = doc(db as any, 'rooms', currentRoom);
-        const roomDoc = await getDoc(roomRef);
-        
-        if (roomDoc.exists()) {
-          const roomData = roomDoc.data();
-          const participants = roomData.participants || [];
-          
-          // Remove user from participants
-          const updatedParticipants = participants.filter((p: Participant) => p.id !== user.uid);
-          
-          // Never delete the room, just remove the user
-          await updateDoc(roomRef, { 
-            participants: updatedParticipants,
-          });
-        }
-        
-        // Clean up listener
-        if (roomListenerRef.current) {
-          roomListenerRef.current();
-          roomListenerRef.current = null;
-        }
-        
+        await transportRef.current.leave(currentRoom, user.uid);
+
         setCurrentRoom(null);
-        setParticipants([]);
         setLastPlayedBy(null);
-        
-        // Clear now-playing notification when leaving room
-        await clearMusicWidget();
+        remotePlaybackRef.current = null;
+        setTrackLoadError(null);
+        clearSyncDiagnostics();
+        switchTransport();
         
         console.log('✅ Successfully left room');
       }
@@ -1180,26 +1087,146 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   };
 
-  const dismissRoomNotification = () => {
-    setRoomActivityNotification(null);
+  // Host-only: promote a participant to co-DJ or demote them to listener
+  const setParticipantRole = async (userId: string, role: 'dj' | 'listener') => {
+    if (!currentRoom || !user) return;
+    if (roomRole !== 'host') throw new Error('Only the host can change roles');
+
+    try {
+      const djIds = roomAccess?.djIds || [];
+      const updatedDjIds = role === 'dj'
+        ? Array.from(new Set([...djIds, userId]))
+        : djIds.filter(id => id !== userId);
+
+      await transportRef.current.updateRoom(currentRoom, { djIds: updatedDjIds });
+      console.log('🎧 Updated role:', { userId, role });
+    } catch (error) {
+      console.error('❌ Error updating participant role:', error);
+      throw new Error('Failed to update role');
+    }
   };
 
+  // Host-only: hand the room over to another participant
+  const transferHost = async (userId: string) => {
+    if (!currentRoom || !user) return;
+    if (roomRole !== 'host') throw new Error('Only the host can transfer the room');
+    // The relay only hands the room on when the host leaves
+    ensureFirestoreRoom('Handing over the room');
+
+    try {
+      const djIds = (roomAccess?.djIds || []).filter(id => id !== userId);
+      // The outgoing host stays on as a co-DJ
+      await transportRef.current.updateRoom(currentRoom, {
+        ownerId: userId,
+        djIds: [...djIds, user.uid],
+      });
+      console.log('👑 Transferred host to:', userId);
+    } catch (error) {
+      console.error('❌ Error transferring host:', error);
+      throw new Error('Failed to transfer host');
+    }
+  };
+
+  // Host-only: change who may skip, seek, pause, change track or edit the queue
+  const updateRoomPermissions = async (permissions: Partial<RoomPermissionPolicy>) => {
+    if (!currentRoom || !user) return;
+    if (roomRole !== 'host') throw new Error('Only the host can change room permissions');
+
+    try {
+      await transportRef.current.updateRoom(currentRoom, {
+        permissions: { ...(roomAccess?.permissions || OPEN_ROOM_PERMISSIONS), ...permissions },
+      });
+    } catch (error) {
+      console.error('❌ Error updating room permissions:', error);
+      throw new Error('Failed to update room permissions');
+    }
+  };
+
+  // Host-only: make the room public, unlisted or private
+  const updateRoomVisibility = async (settings: RoomVisibilitySettings) => {
+    if (!currentRoom || !user) return;
+    if (roomRole !== 'host') throw new Error('Only the host can change who can join');
+    ensureFirestoreRoom('Room privacy');
+    if (currentRoom === LOBBY_ROOM_ID && settings.visibility !== 'public') {
+      throw new Error('The shared listening room is always public');
+    }
+
+    await saveRoomVisibility(currentRoom, settings);
+  };
+
+  // Banner in the foreground, local notification in the background, nothing when muted
+  const raiseRoomActivity = (event: RoomActivityEvent) => {
+    if (!currentRoom || mutedRoomsRef.current[currentRoom]) return;
+    console.log('📣 Room activity:', event.message);
+
+    if (AppState.currentState !== 'active') {
+      presentRoomActivityNotification(currentRoom, event);
+      return;
+    }
+
+    setRoomActivityNotification({
+      visible: true,
+      message: event.message,
+      onJoin: event.type === 'trackStart' ? () => listenAlong() : undefined,
+    });
+  };
+
+  // Make sure we are playing whatever the room is playing, from the right position
+  const listenAlong = async () => {
+    const roomData = latestRoomDataRef.current;
+    if (!roomData?.currentTrackId) return;
+
+    const trackKey = getTrackKey(roomData.currentTrackId, roomData.trackSessionId || null);
+    if (trackKey !== engine.getRequestedKey()) {
+      await followRoomTrack(roomData);
+    }
+    await applyDriftCorrection();
+  };
+
+  const setRoomNotificationsMuted = (muted: boolean) => {
+    if (!currentRoom) return;
+    const rooms = { ...mutedRoomsRef.current, [currentRoom]: muted };
+    mutedRoomsRef.current = rooms;
+    setMutedRooms(rooms);
+    saveMutedRooms(rooms);
+  };
+
+  // Stable, so the banner's auto-hide timer isn't restarted on every render
+  const dismissRoomNotification = useCallback(() => {
+    setRoomActivityNotification(null);
+  }, []);
+
   const toggleShuffle = () => {
-    setState(prev => ({ ...prev, isShuffleEnabled: !prev.isShuffleEnabled }));
+    if (currentRoom) {
+      // Shared setting: a fresh seed gives everyone the same new order
+      if (!ensureRoomPermission('changeTrack')) return;
+      transportRef.current.updateRoom(currentRoom, {
+        shuffleEnabled: !engine.getState().isShuffleEnabled,
+        shuffleSeed: createShuffleSeed(),
+      }).catch(error => {
+        console.error('❌ Error updating room shuffle:', error);
+      });
+    }
+    engine.setShuffle(!engine.getState().isShuffleEnabled);
   };
 
   const toggleRepeat = () => {
-    setState(prev => ({
-      ...prev,
-      repeatMode: prev.repeatMode === 'off' ? 'all' : prev.repeatMode === 'all' ? 'one' : 'off',
-    }));
+    const { repeatMode } = engine.getState();
+    const nextRepeatMode = repeatMode === 'off' ? 'all' : repeatMode === 'all' ? 'one' : 'off';
+    if (currentRoom) {
+      if (!ensureRoomPermission('changeTrack')) return;
+      transportRef.current.updateRoom(currentRoom, { repeatMode: nextRepeatMode }).catch(error => {
+        console.error('❌ Error updating room repeat mode:', error);
+      });
+    }
+    engine.setRepeatMode(nextRepeatMode);
   };
 
   const likeSong = async (song: Song) => {
     if (!user || !currentRoom) return;
 
     try {
-      const userName = user.email?.split('@')[0] || 'Unknown';
+      const userName = username || user.email?.split('@')[0] || 'Unknown';
       const like: SongLike = {
         songId: song.id,
         userId: user.uid,
@@ -1208,33 +1235,37 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       };
 
       // Update room with like information
-      await updateDoc(doc(db as any, 'rooms', currentRoom), {
+      await transportRef.current.updateRoom(currentRoom, {
         [`likes.${song.id}.${user.uid}`]: like,
         lastUpdated: Date.now(),
         updatedBy: user.uid,
       });
-
-      // Update local state
-      setCurrentSongLikes(prev => {
-        const filtered = prev.filter(l => !(l.songId === song.id && l.userId === user.uid));
-        return [...filtered, like];
-      });
+      // Room history lives in Firestore only
+      if (transportRef.current.kind === 'firestore' && engine.getLoadedTrackId() === song.id && loadedTrackSessionRef.current) {
+        recordHistoryReaction(currentRoom, loadedTrackSessionRef.current, 'likes', user.uid, {
+          userName,
+          timestamp: like.timestamp,
+        });
+      }
 
     } catch (error) {
       console.error('Error liking song:', error);
     }
   };
 
+  // Everyone's reactions in a room come back through the room snapshot
+  const currentSongReactions = currentRoom ? getSongReactions(songReactions, state.currentSong?.id) : EMPTY_SONG_REACTIONS;
+
   const getCurrentSongLikes = (): SongLike[] => {
     if (!state.currentSong) return [];
-    return currentSongLikes.filter(like => like.songId === state.currentSong!.id);
+    return currentSongReactions.likes;
   };
 
-  const setSongMood = async (song: Song, mood: 'love' | 'party' | 'kiss' | 'thumbsup' | 'thumbsdown' | 'puke' | 'crying') => {
+  const setSongMood = async (song: Song, mood: SongMoodType) => {
     if (!user) return;
 
     try {
-      const userName = user.email?.split('@')[0] || 'Unknown';
+      const userName = username || user.email?.split('@')[0] || 'Unknown';
       const songMood: SongMood = {
         songId: song.id,
         userId: user.uid,
@@ -1248,17 +1279,18 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
       // Update room with mood information if in a room
       if (currentRoom) {
-        await updateDoc(doc(db as any, 'rooms', currentRoom), {
+        await transportRef.current.updateRoom(currentRoom, {
           [`moods.${song.id}.${user.uid}`]: songMood,
           lastUpdated: Date.now(),
           updatedBy: user.uid,
         });
-      }
-
-      // Update music widget with new mood
-      if (state.currentSong && state.currentSong.id === song.id) {
-        const vibeText = `${mood} by ${userName}`;
-        await showOrUpdateMusicWidget(song as MiniSong, state.isPlaying, state.currentTime, vibeText);
+        if (transportRef.current.kind === 'firestore' && engine.getLoadedTrackId() === song.id && loadedTrackSessionRef.current) {
+          recordHistoryReaction(currentRoom, loadedTrackSessionRef.current, 'moods', user.uid, {
+            userName,
+            mood,
+            timestamp: songMood.timestamp,
+          });
+        }
       }
 
     } catch (error) {
@@ -1268,15 +1300,18 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const getCurrentSongMood = (): SongMood | null => {
     if (!state.currentSong) return null;
-    return currentSongMood;
+    return currentSongReactions.latestMood || currentSongMood;
   };
 
+  const currentVibe = getCurrentSongMood();
+  useMusicWidget(state.currentSong, state.isPlaying, state.currentTime, currentVibe ? `${currentVibe.mood} by ${currentVibe.userName}` : undefined);
+
   const refreshSongsFromServer = async () => {
     try {
       console.log('🔄 Force refreshing songs from server...');
       
       // Clear the cache first
-      await clearSongCache();
+      await clearCachedSongs();
       
       // Load fresh data from server
       await loadSongsFromStorage();
@@ -1287,34 +1322,12 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   };
 
-  const clearSongCache = async () => {
-    try {
-      console.log('🗑️ Clearing song cache...');
-      
-      // Clear AsyncStorage cache
-      await AsyncStorage.removeItem(CACHED_SONGS_KEY);
-      await AsyncStorage.removeItem(CACHE_TIMESTAMP_KEY);
-      
-      // Clear file cache directory
-      try {
-        const dirInfo = await FileSystem.getInfoAsync(SONG_CACHE_DIR);
-        if (dirInfo.exists) {
-          await FileSystem.deleteAsync(SONG_CACHE_DIR);
-          await FileSystem.makeDirectoryAsync(SONG_CACHE_DIR, { intermediates: true });
-        }
-      } catch (fileError) {
-        console.log('⚠️ Could not clear file cache:', fileError);
-      }
-      
-      console.log('✅ Song cache cleared');
-    } catch (error) {
-      console.error('❌ Error clearing song cache:', error);
-    }
-  };
+  const clearSongCache = () => clearCachedSongs();
 
   const value = {
     ...state,
     currentRoom,
+    syncTransportKind,
     participants,
     playSong,
     pauseSong,
@@ -1342,6 +1355,40 @@ export const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     getCurrentSongLikes,
     setSongMood,
     getCurrentSongMood,
+    currentSongReactions,
+    clockSync,
+    driftConfig,
+    setDriftConfig,
+    setCrossfade,
+    setNormalization,
+    roomAccess,
+    roomRole,
+    canControl,
+    setParticipantRole,
+    transferHost,
+    updateRoomPermissions,
+    roomVisibility,
+    updateRoomVisibility,
+    participantStatuses,
+    participantPlayback,
+    pendingRoomActions,
+    getPlaybackSyncState,
+    roomQueue,
+    addToRoomQueue: addSongToRoomQueue,
+    removeFromRoomQueue: removeSongFromRoomQueue,
+    moveRoomQueueEntry: moveSongInRoomQueue,
+    clearRoomQueue: clearSharedRoomQueue,
+    skipVotes,
+    voteToSkip,
+    updateSkipVotePolicy,
+    roomNotificationsMuted: !!currentRoom && !!mutedRooms[currentRoom],
+    setRoomNotificationsMuted,
+    trackLoadError,
+    retryTrackLoad,
+    participantReadiness,
+    readyWait,
+    readyCheckEnabled,
+    updateReadyCheck,
   };
 
   return (
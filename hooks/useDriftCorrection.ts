@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createDriftController, DriftControllerConfig } from '../services/driftController';
+import { PlayerEngine, PlayerTrack } from '../services/playerEngine';
+import { recordDriftSample } from '../services/syncDiagnostics';
+import { getServerNow } from '../services/timeSync';
+
+const DRIFT_CHECK_INTERVAL = 2000; // Re-check room drift every 2 seconds while playing
+
+// The room's last playback action: where it put the track and when (server clock)
+export interface RemotePlayback {
+  trackId: string | null;
+  lastActionTimeMillis: number;
+  seekPosition: number;
+  isPlaying: boolean;
+}
+
+// Where the room says we should be versus where our player actually is
+export interface PlaybackSyncState {
+  trackId: string | null;
+  isPlaying: boolean;
+  remotePositionSec: number;
+  localPositionSec: number;
+}
+
+// Where the room's playback is now, in seconds
+export function getRemotePosition(remote: RemotePlayback): number {
+  if (!remote.isPlaying || !remote.lastActionTimeMillis) return remote.seekPosition;
+  return remote.seekPosition + Math.max(0, (getServerNow() - remote.lastActionTimeMillis) / 1000);
+}
+
+/**
+ * Keeps `engine` on the room's position: `remotePlaybackRef` holds the room's
+ * last playback action, and while `active` the player is checked against it
+ * every couple of seconds and nudged or seeked as needed. `onSeek` hears about
+ * hard seeks. Also exposes the controller's tuning for the diagnostics screen.
+ */
+export function useDriftCorrection<T extends PlayerTrack>(
+  engine: PlayerEngine<T>,
+  active: boolean,
+  onSeek: (positionSec: number) => void
+) {
+  const [controller] = useState(() => createDriftController());
+  const [driftConfig, setDriftConfigState] = useState<DriftControllerConfig>(controller.getConfig());
+  const remotePlaybackRef = useRef<RemotePlayback | null>(null);
+  // Drift measured by the last check, published with our playback status
+  const lastDriftRef = useRef<number | null>(null);
+
+  const onSeekRef = useRef(onSeek);
+  useEffect(() => {
+    onSeekRef.current = onSeek;
+  });
+
+  // Compare local playback with the room anchor and nudge/seek if needed
+  const applyDriftCorrection = useCallback(async () => {
+    const remote = remotePlaybackRef.current;
+    const player = engine.getPlayer();
+    if (!player || !remote || remote.trackId !== engine.getLoadedTrackId()) {
+      lastDriftRef.current = null;
+      return null;
+    }
+
+    const targetPosition = getRemotePosition(remote);
+    const correction = await controller.correct(player, targetPosition);
+    lastDriftRef.current = correction.driftSec;
+    recordDriftSample(getServerNow(), targetPosition, correction);
+    if (correction.type === 'seek') {
+      console.log('⏩ [SYNC] Hard seek to correct drift:', correction);
+      onSeekRef.current(correction.positionSec);
+    } else if (correction.type === 'nudge') {
+      console.log('🎚️ [SYNC] Nudging playback rate:', correction);
+    }
+    return correction;
+  }, [engine, controller]);
+
+  // Periodically re-check drift against the room while playing
+  useEffect(() => {
+    if (!active) return;
+
+    const driftInterval = setInterval(() => {
+      applyDriftCorrection().catch(error => {
+        console.error('❌ [SYNC] Error correcting drift:', error);
+      });
+    }, DRIFT_CHECK_INTERVAL);
+
+    return () => {
+      clearInterval(driftInterval);
+    };
+  }, [active, applyDriftCorrection]);
+
+  // Room position versus the player's own, for the diagnostics screen
+  // Stable, so the diagnostics screen can poll it from an effect
+  const getPlaybackSyncState = useCallback(async (): Promise<PlaybackSyncState | null> => {
+    const remote = remotePlaybackRef.current;
+    const status = await engine.getStatus();
+    if (!status || !remote) return null;
+
+    return {
+      trackId: remote.trackId,
+      isPlaying: remote.isPlaying,
+      remotePositionSec: getRemotePosition(remote),
+      localPositionSec: status.positionMillis / 1000,
+    };
+  }, [engine]);
+
+  const setDriftConfig = useCallback((config: Partial<DriftControllerConfig>) => {
+    controller.setConfig(config);
+    setDriftConfigState(controller.getConfig());
+  }, [controller]);
+
+  // A new track starts from a clean slate
+  const resetDriftCorrection = useCallback(() => controller.reset(), [controller]);
+
+  return {
+    remotePlaybackRef,
+    lastDriftRef,
+    driftConfig,
+    setDriftConfig,
+    applyDriftCorrection,
+    resetDriftCorrection,
+    getPlaybackSyncState,
+  };
+}
@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+import { clearMusicWidget, MiniSong, showOrUpdateMusicWidget } from '../services/musicWidgetService';
+
+/**
+ * Keeps the now-playing notification in step with the player: shown for the
+ * current song with its play state and vibe, cleared when nothing is loaded
+ * and when the player goes away.
+ */
+export function useMusicWidget(song: MiniSong | null, isPlaying: boolean, positionSec: number, vibe?: string) {
+  // The widget only redraws on song, play state or vibe changes; the position
+  // is whatever it is at that moment
+  const positionRef = useRef(positionSec);
+  useEffect(() => {
+    positionRef.current = positionSec;
+  }, [positionSec]);
+
+  useEffect(() => {
+    if (!song) {
+      clearMusicWidget();
+      return;
+    }
+    showOrUpdateMusicWidget(song, isPlaying, positionRef.current, vibe);
+  }, [song, isPlaying, vibe]);
+
+  useEffect(() => {
+    return () => {
+      clearMusicWidget();
+    };
+  }, []);
+}
@@ -0,0 +1,42 @@
+import { MutableRefObject, useEffect } from 'react';
+import { PLAYBACK_STATUS_INTERVAL_MS, publishPlaybackStatus } from '../services/playbackStatus';
+import { PlayerEngine, PlayerTrack } from '../services/playerEngine';
+
+/**
+ * Publishes what this device is hearing in `roomId` at a low rate, and right
+ * away when the song or play state changes, so others can see who is in sync.
+ * `trackSessionRef` and `driftRef` hold the loaded track session and the drift
+ * measured by the last check. Pass a null room to stop (a LAN relay doesn't
+ * carry playback status).
+ */
+export function usePlaybackStatus<T extends PlayerTrack>(
+  engine: PlayerEngine<T>,
+  roomId: string | null,
+  userId: string | null,
+  trackSessionRef: MutableRefObject<string | null>,
+  driftRef: MutableRefObject<number | null>,
+  isPlaying: boolean,
+  songId: string | null
+) {
+  useEffect(() => {
+    if (!roomId || !userId) return;
+
+    const publishStatus = async () => {
+      const status = await engine.getStatus().catch(() => null);
+      await publishPlaybackStatus(roomId, userId, {
+        trackId: status ? engine.getLoadedTrackId() : null,
+        trackSessionId: status ? trackSessionRef.current : null,
+        isPlaying: !!status && status.isPlaying,
+        positionSec: status ? status.positionMillis / 1000 : 0,
+        driftSec: status && status.isPlaying ? driftRef.current : null,
+      });
+    };
+
+    publishStatus();
+    const statusInterval = setInterval(publishStatus, PLAYBACK_STATUS_INTERVAL_MS);
+
+    return () => {
+      clearInterval(statusInterval);
+    };
+  }, [engine, roomId, userId, trackSessionRef, driftRef, isPlaying, songId]);
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect } from 'react';
+import {
+  ReadyWait,
+  releaseReadyWait,
+  reportTrackReadiness,
+  shouldReleaseReadyWait,
+  TrackReadiness,
+} from '../services/roomReadiness';
+import { getServerNow } from '../services/timeSync';
+
+/**
+ * The ready check in `roomId` (see services/roomReadiness): `reportReadiness`
+ * tells the room how far along this device is with a track, and a room waiting
+ * on `readyWait` is started once everyone is ready or time is up. Every device
+ * tries; the room only takes the first release. Pass a null room where there is
+ * no ready check (a LAN relay doesn't carry readiness).
+ */
+export function useReadyCheck(roomId: string | null, userId: string | null, readyWait: ReadyWait | null) {
+  const reportReadiness = useCallback((trackSessionId: string | null, readiness: TrackReadiness) => {
+    if (!roomId || !userId || !trackSessionId) return;
+    reportTrackReadiness(roomId, userId, trackSessionId, readiness);
+  }, [roomId, userId]);
+
+  // Called with each room update: readiness may just have become complete
+  const releaseIfReady = useCallback(async (roomData: any) => {
+    if (!roomId || !userId) return;
+    if (!shouldReleaseReadyWait(roomData, getServerNow())) return;
+
+    try {
+      const actionSeq = await releaseReadyWait(roomId, userId, roomData.trackSessionId || null);
+      if (actionSeq !== null) {
+        console.log('✅ [ROOM] Ready check passed, starting playback:', { actionSeq });
+      }
+    } catch (error) {
+      console.error('❌ [ROOM] Error releasing ready check:', error);
+    }
+  }, [roomId, userId]);
+
+  // Readiness may not change before a ready check times out, so release it at the
+  // deadline; the commit checks again that the room is still waiting on this track
+  useEffect(() => {
+    if (!readyWait || !roomId || !userId) return;
+
+    const timeout = setTimeout(() => {
+      releaseReadyWait(roomId, userId, readyWait.trackSessionId)
+        .then(actionSeq => {
+          if (actionSeq !== null) console.log('✅ [ROOM] Ready check timed out, starting playback:', { actionSeq });
+        })
+        .catch(error => {
+          console.error('❌ [ROOM] Error releasing ready check:', error);
+        });
+    }, Math.max(0, readyWait.deadline - getServerNow()) + 100);
+
+    return () => clearTimeout(timeout);
+  }, [readyWait, roomId, userId]);
+
+  return { reportReadiness, releaseIfReady };
+}
@@ -0,0 +1,187 @@
+import { MutableRefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { StaleRoomActionError } from '../services/roomActions';
+import {
+  createOutboxEntry,
+  enqueueOutboxEntry,
+  flushOutbox,
+  getRetryDelay,
+  isPermanentRoomError,
+  loadOutbox,
+  mergeFlushResult,
+  OutboxEntry,
+  saveOutbox,
+} from '../services/roomOutbox';
+import { recordRoomSnapshot } from '../services/syncDiagnostics';
+import { SyncTransport } from '../services/syncTransport';
+import { getServerNow } from '../services/timeSync';
+
+/**
+ * Versioned playback actions in `roomId` (see services/roomActions). Our own
+ * actions are sent on top of the last one this device applied; those that
+ * can't be sent wait in the outbox and are retried with backoff, and the ones
+ * left from an earlier visit are replayed on joining. `acceptRoomAction` says
+ * whether a room update carries an action we haven't applied yet.
+ * `onOutOfSync` runs when one of our actions lost to someone else's, so the
+ * caller can re-read the room.
+ */
+export function useRoomActions(
+  roomId: string | null,
+  userId: string | null,
+  transportRef: MutableRefObject<SyncTransport>,
+  onOutOfSync: () => Promise<void>
+) {
+  // Highest room actionSeq this device has applied (-1 until the first update)
+  const lastAppliedSeqRef = useRef<number>(-1);
+  // Room actions that couldn't be sent yet, oldest first
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const flushingRef = useRef(false);
+  const retryRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [pendingRoomActions, setPendingRoomActions] = useState(0);
+
+  const onOutOfSyncRef = useRef(onOutOfSync);
+  useEffect(() => {
+    onOutOfSyncRef.current = onOutOfSync;
+  });
+
+  const updateOutbox = useCallback((entries: OutboxEntry[]) => {
+    const outboxRoomId = entries[0]?.roomId || outboxRef.current[0]?.roomId;
+    outboxRef.current = entries;
+    setPendingRoomActions(entries.length);
+    if (outboxRoomId) saveOutbox(outboxRoomId, entries);
+  }, []);
+
+  const markActionApplied = useCallback((actionSeq: number) => {
+    lastAppliedSeqRef.current = Math.max(lastAppliedSeqRef.current, actionSeq);
+  }, []);
+
+  // The retry timer outlives the render that set it
+  const flushRoomOutboxRef = useRef<() => Promise<void>>(async () => {});
+
+  const scheduleOutboxFlush = useCallback(() => {
+    if (retryRef.current) clearTimeout(retryRef.current);
+    if (outboxRef.current.length === 0) return;
+
+    retryRef.current = setTimeout(() => {
+      retryRef.current = null;
+      flushRoomOutboxRef.current();
+    }, getRetryDelay(outboxRef.current[0].attempts));
+  }, []);
+
+  // Replay queued actions. Our replays reach this device through the room
+  // listener like anyone else's, and actions the room has moved past since are
+  // dropped in favour of the room's state.
+  const flushRoomOutbox = useCallback(async () => {
+    if (!userId || flushingRef.current || outboxRef.current.length === 0) return;
+    flushingRef.current = true;
+
+    try {
+      const pending = outboxRef.current;
+      const result = await flushOutbox(
+        pending,
+        (entry, baseSeq, changes) => transportRef.current.publishAction(entry.roomId, userId, baseSeq, changes),
+        getServerNow()
+      );
+
+      // Anything queued while we were sending goes after what is left
+      updateOutbox(mergeFlushResult(pending, result, outboxRef.current));
+
+      if (result.committedSeq !== null) {
+        console.log('📮 [WRITE] Replayed queued actions up to:', result.committedSeq);
+      }
+      if (result.discarded.length > 0) {
+        console.log('📮 [WRITE] Dropped superseded or unsendable actions:', result.discarded.map(entry => entry.label));
+        await onOutOfSyncRef.current();
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+    scheduleOutboxFlush();
+  }, [userId, transportRef, updateOutbox, scheduleOutboxFlush]);
+
+  useEffect(() => {
+    flushRoomOutboxRef.current = flushRoomOutbox;
+  }, [flushRoomOutbox]);
+
+  // Write a playback action to the room as the next versioned action. If someone
+  // else acted first, our optimistic local change is replaced by the room's state.
+  // `anchorMillis` is when playback was at the action's seek position, if it left the room playing.
+  const commitPlaybackAction = useCallback(async (label: string, changes: Record<string, any>, anchorMillis: number | null = null) => {
+    if (!roomId || !userId) return;
+
+    const entry = createOutboxEntry(roomId, label, changes, lastAppliedSeqRef.current, anchorMillis);
+    if (outboxRef.current.length > 0) {
+      // Keep our actions in order behind the ones still waiting
+      console.log(`📮 [WRITE] Queued ${label} behind ${outboxRef.current.length} pending action(s)`);
+      updateOutbox(enqueueOutboxEntry(outboxRef.current, entry));
+      await flushRoomOutbox();
+      return;
+    }
+
+    try {
+      const actionSeq = await transportRef.current.publishAction(roomId, userId, lastAppliedSeqRef.current, changes);
+      markActionApplied(actionSeq);
+      console.log(`🔄 [WRITE] Updated ${label}:`, { ...changes, actionSeq, userId });
+    } catch (error) {
+      if (error instanceof StaleRoomActionError) {
+        console.log(`⚠️ [WRITE] Rejected stale ${label} update, room is at action ${error.roomSeq}`);
+        await onOutOfSyncRef.current();
+      } else if (isPermanentRoomError(error)) {
+        console.error(`❌ [WRITE] Could not send ${label}:`, error);
+        await onOutOfSyncRef.current();
+      } else {
+        console.log(`📮 [WRITE] Could not send ${label}, queued for retry:`, error);
+        updateOutbox(enqueueOutboxEntry(outboxRef.current, { ...entry, attempts: 1 }));
+        scheduleOutboxFlush();
+      }
+    }
+  }, [roomId, userId, transportRef, updateOutbox, flushRoomOutbox, scheduleOutboxFlush, markActionApplied]);
+
+  // Apply every action newer than the last one we processed, whoever wrote it.
+  // Rooms from before versioned actions fall back to skipping our own writes.
+  const acceptRoomAction = useCallback((roomData: any): boolean => {
+    const hasActionSeq = typeof roomData.actionSeq === 'number';
+    const isNewAction = hasActionSeq
+      ? roomData.actionSeq > lastAppliedSeqRef.current
+      : roomData.lastActionByUserId !== userId;
+    recordRoomSnapshot(roomData, getServerNow(), isNewAction);
+
+    if (hasActionSeq) {
+      if (isNewAction) lastAppliedSeqRef.current = roomData.actionSeq;
+      return isNewAction;
+    }
+
+    lastAppliedSeqRef.current = 0;
+    if (!isNewAction) console.log('🔄 [RECEIVE] Ignoring self-update from user:', userId);
+    return isNewAction;
+  }, [userId]);
+
+  // Actions we couldn't send the last time we were here. Leaving drops what is
+  // still queued: it only makes sense in the room it was taken in.
+  useEffect(() => {
+    lastAppliedSeqRef.current = -1;
+    if (!roomId) return;
+
+    let active = true;
+    loadOutbox(roomId).then(entries => {
+      if (!active || entries.length === 0) return;
+      console.log(`📮 [WRITE] Replaying ${entries.length} action(s) queued for this room`);
+      updateOutbox(entries);
+      flushRoomOutboxRef.current();
+    });
+
+    return () => {
+      active = false;
+      if (retryRef.current) clearTimeout(retryRef.current);
+      retryRef.current = null;
+      updateOutbox([]);
+    };
+  }, [roomId, updateOutbox]);
+
+  return {
+    pendingRoomActions,
+    commitPlaybackAction,
+    flushRoomOutbox,
+    acceptRoomAction,
+    markActionApplied,
+  };
+}
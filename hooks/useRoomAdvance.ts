@@ -0,0 +1,89 @@
+import { MutableRefObject, useCallback, useEffect, useRef } from 'react';
+import { PlayerEngine, PlayerTrack } from '../services/playerEngine';
+import { advanceRoomTrack, RoomTrackAdvance } from '../services/roomPlayback';
+import { RoomTrackInfo } from '../services/roomTracks';
+import { toggleSkipVote } from '../services/skipVotes';
+import { ensureFirestoreTransport, SyncTransport } from '../services/syncTransport';
+
+/**
+ * Moving on to the next song. On our own the engine walks the library with
+ * shuffle and repeat and moves on by itself when a song ends; in `roomId` the
+ * room decides: every device tries when a song ends, and the room only takes
+ * the first advance for that track session. A passing skip vote advances the
+ * room the same way. `onAdvance` loads a track change this device committed.
+ */
+export function useRoomAdvance<T extends PlayerTrack & RoomTrackInfo>(
+  engine: PlayerEngine<T>,
+  roomId: string | null,
+  userId: string | null,
+  transportRef: MutableRefObject<SyncTransport>,
+  trackSessionRef: MutableRefObject<string | null>,
+  onAdvance: (advance: RoomTrackAdvance) => Promise<void>
+) {
+  const onAdvanceRef = useRef(onAdvance);
+  useEffect(() => {
+    onAdvanceRef.current = onAdvance;
+  });
+
+  // Move to the next song without a permission check (also used on track end).
+  // In a room the change is committed only if the room is still on the expected track session.
+  const advanceToNext = useCallback(async (
+    expectedTrackId: string | null = engine.getLoadedTrackId(),
+    expectedSessionId: string | null = trackSessionRef.current
+  ) => {
+    if (roomId && userId) {
+      try {
+        const advance = await advanceRoomTrack(
+          transportRef.current,
+          roomId,
+          expectedTrackId,
+          expectedSessionId,
+          engine.getState().queue,
+          userId
+        );
+        if (!advance) {
+          console.log('⏭️ [ROOM] No advance committed (already advanced elsewhere or nothing left to play)');
+          return;
+        }
+        await onAdvanceRef.current(advance);
+      } catch (error) {
+        console.error('❌ [ROOM] Error advancing track:', error);
+      }
+      return;
+    }
+
+    try {
+      await engine.next();
+    } catch (error) {
+      console.error('Error playing song:', error);
+    }
+  }, [engine, roomId, userId, transportRef, trackSessionRef]);
+
+  // Cast or withdraw a skip vote; the deciding vote skips the track for everyone
+  const voteToSkip = useCallback(async () => {
+    if (!roomId || !userId) return;
+    ensureFirestoreTransport(transportRef.current, 'Skip voting');
+
+    try {
+      const advance = await toggleSkipVote(roomId, userId, engine.getState().queue);
+      if (advance) {
+        console.log('🗳️ [ROOM] Skip vote passed');
+        await onAdvanceRef.current(advance);
+      }
+    } catch (error: any) {
+      console.error('❌ Error voting to skip:', error);
+      throw new Error(error.message || 'Failed to vote');
+    }
+  }, [engine, roomId, userId, transportRef]);
+
+  useEffect(() => {
+    engine.setAutoAdvance(!roomId);
+    if (!roomId) return;
+
+    return engine.on('ended', song => {
+      advanceToNext(song.id, trackSessionRef.current);
+    });
+  }, [engine, roomId, advanceToNext, trackSessionRef]);
+
+  return { advanceToNext, voteToSkip };
+}
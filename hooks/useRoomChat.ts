@@ -0,0 +1,118 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useMusic } from '../contexts/MusicContext';
+import {
+  fetchOlderMessages,
+  RoomChatMessage,
+  sendRoomMessage,
+  subscribeToRecentMessages,
+} from '../services/roomChat';
+
+const CHAT_PAGE_SIZE = 30;
+const LAST_READ_KEY_PREFIX = 'chat_last_read_';
+
+/**
+ * Chat for the room the user is currently in: live recent messages, paging
+ * through older history and an unread count remembered per room.
+ */
+export function useRoomChat() {
+  const { user, username } = useAuth();
+  const { currentRoom: roomId, currentSong, currentTime, syncTransportKind } = useMusic();
+  // Chat is stored in Firestore, so rooms on a LAN relay don't have it
+  const currentRoom = syncTransportKind === 'firestore' ? roomId : null;
+
+  const [messagesById, setMessagesById] = useState<Record<string, RoomChatMessage>>({});
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [lastReadAt, setLastReadAt] = useState(0);
+  const oldestCursorRef = useRef<QueryDocumentSnapshot | null>(null);
+
+  useEffect(() => {
+    setMessagesById({});
+    setHasMore(false);
+    setLastReadAt(0);
+    oldestCursorRef.current = null;
+    if (!currentRoom) return;
+
+    AsyncStorage.getItem(`${LAST_READ_KEY_PREFIX}${currentRoom}`)
+      .then(value => setLastReadAt(value ? Number(value) : 0))
+      .catch(error => console.error('❌ Error loading chat read state:', error));
+
+    return subscribeToRecentMessages(currentRoom, CHAT_PAGE_SIZE, (page) => {
+      // Merge so messages that scroll out of the live window stay visible
+      setMessagesById(prev => {
+        const next = { ...prev };
+        page.messages.forEach(message => {
+          next[message.id] = message;
+        });
+        return next;
+      });
+      if (!oldestCursorRef.current) {
+        oldestCursorRef.current = page.cursor;
+        setHasMore(page.hasMore);
+      }
+    });
+  }, [currentRoom]);
+
+  // Newest first, ready for an inverted list
+  const messages = useMemo(
+    () => Object.values(messagesById).sort((a, b) => b.createdAt - a.createdAt),
+    [messagesById]
+  );
+
+  const unreadCount = useMemo(
+    () => messages.filter(m => m.userId !== user?.uid && m.createdAt > lastReadAt).length,
+    [messages, user, lastReadAt]
+  );
+
+  const loadOlder = useCallback(async () => {
+    if (!currentRoom || !oldestCursorRef.current || loadingOlder || !hasMore) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await fetchOlderMessages(currentRoom, oldestCursorRef.current, CHAT_PAGE_SIZE);
+      setMessagesById(prev => {
+        const next = { ...prev };
+        page.messages.forEach(message => {
+          next[message.id] = message;
+        });
+        return next;
+      });
+      if (page.cursor) oldestCursorRef.current = page.cursor;
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('❌ Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [currentRoom, loadingOlder, hasMore]);
+
+  const markRead = useCallback(() => {
+    if (!currentRoom || messages.length === 0) return;
+    const newest = messages[0].createdAt;
+    if (newest <= lastReadAt) return;
+
+    setLastReadAt(newest);
+    AsyncStorage.setItem(`${LAST_READ_KEY_PREFIX}${currentRoom}`, newest.toString())
+      .catch(error => console.error('❌ Error saving chat read state:', error));
+  }, [currentRoom, messages, lastReadAt]);
+
+  const sendMessage = useCallback(async (text: string, { pinToTrack = false }: { pinToTrack?: boolean } = {}) => {
+    if (!currentRoom || !user) return;
+
+    await sendRoomMessage(currentRoom, {
+      userId: user.uid,
+      userName: username || user.email?.split('@')[0] || 'Unknown',
+      text,
+      ...(pinToTrack && currentSong
+        ? { trackId: currentSong.id, trackTitle: currentSong.title, trackPosition: currentTime }
+        : {}),
+    });
+  }, [currentRoom, user, username, currentSong, currentTime]);
+
+  return { messages, unreadCount, hasMore, loadingOlder, loadOlder, markRead, sendMessage };
+}
+
+export type RoomChat = ReturnType<typeof useRoomChat>;
@@ -0,0 +1,56 @@
+import { MutableRefObject, useEffect } from 'react';
+import { AppState } from 'react-native';
+import {
+  findStaleParticipants,
+  HEARTBEAT_INTERVAL_MS,
+  PresenceState,
+  pruneStaleParticipants,
+  sendPresenceHeartbeat,
+} from '../services/roomPresence';
+import { getServerNow } from '../services/timeSync';
+
+/**
+ * Presence heartbeats for `userId` in a Firestore room: keeps their entry
+ * fresh while the room still lists them, reports away while the app is in the
+ * background and prunes members who stopped responding. `roomDataRef` holds
+ * the latest room snapshot. Pass a null room to stop (a LAN relay tracks
+ * presence from the open connection instead).
+ */
+export function useRoomPresence(roomId: string | null, userId: string | null, roomDataRef: MutableRefObject<any>) {
+  useEffect(() => {
+    if (!roomId || !userId) return;
+
+    let presenceState: PresenceState = AppState.currentState === 'active' ? 'active' : 'background';
+
+    const sendHeartbeat = () => {
+      const roomData = roomDataRef.current;
+      // Left, or pruned while unreachable: don't write ourselves back in
+      if (!(roomData?.participants || []).some((p: any) => p.id === userId)) return;
+
+      sendPresenceHeartbeat(roomId, userId, presenceState)
+        .catch(error => console.error('❌ Error sending presence heartbeat:', error));
+
+      if (findStaleParticipants(roomData, getServerNow(), userId).length > 0) {
+        pruneStaleParticipants(roomId, userId)
+          .catch(error => console.error('❌ Error removing stale participants:', error));
+      }
+    };
+
+    sendHeartbeat();
+    const heartbeatInterval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+
+    // Report away while backgrounded, online again when we come back
+    const appStateSubscription = AppState.addEventListener('change', (nextAppState) => {
+      const nextPresenceState: PresenceState = nextAppState === 'active' ? 'active' : 'background';
+      if (nextPresenceState !== presenceState) {
+        presenceState = nextPresenceState;
+        sendHeartbeat();
+      }
+    });
+
+    return () => {
+      clearInterval(heartbeatInterval);
+      appStateSubscription.remove();
+    };
+  }, [roomId, userId, roomDataRef]);
+}
@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from 'react';
+import { getParticipantPlayback, ParticipantPlayback } from '../services/playbackStatus';
+import { parseRoomAccess, RoomAccessInfo } from '../services/roomPermissions';
+import { getPresenceStatuses, HEARTBEAT_INTERVAL_MS, PresenceStatus } from '../services/roomPresence';
+import { parseRoomPlaybackMode, RoomPlaybackMode } from '../services/roomPlayback';
+import { parseRoomQueue, RoomQueueEntry } from '../services/roomQueue';
+import {
+  getParticipantReadiness,
+  isReadyCheckEnabled,
+  parseReadyWait,
+  ReadyWait,
+  TrackReadiness,
+} from '../services/roomReadiness';
+import { getRoomVisibility, RoomVisibility } from '../services/roomVisibility';
+import { getSkipVoteState, SkipVoteState } from '../services/skipVotes';
+import { parseSongReactions, SongReactions } from '../services/songReactions';
+import { SyncMember, SyncTransport } from '../services/syncTransport';
+import { getServerNow } from '../services/timeSync';
+
+export interface RoomParticipant extends SyncMember {
+  joinedAt: number;
+}
+
+/**
+ * Everything the UI shows about the room the user is in, parsed from the room
+ * document as it arrives over `transport`: the other members and how they're
+ * doing, roles, settings, up next, skip votes, reactions and the ready check.
+ * `onRoomData` runs after each update with the room data it replaced.
+ */
+export function useRoomState(
+  roomId: string | null,
+  userId: string | null,
+  transport: SyncTransport,
+  onRoomData: (roomData: any, previousRoomData: any) => void
+) {
+  const [participants, setParticipants] = useState<RoomParticipant[]>([]);
+  const [roomAccess, setRoomAccess] = useState<RoomAccessInfo | null>(null);
+  const [roomVisibility, setRoomVisibility] = useState<RoomVisibility | null>(null);
+  const [participantStatuses, setParticipantStatuses] = useState<Record<string, PresenceStatus>>({});
+  const [participantPlayback, setParticipantPlayback] = useState<Record<string, ParticipantPlayback>>({});
+  const [roomQueue, setRoomQueue] = useState<RoomQueueEntry[]>([]);
+  const [roomPlaybackMode, setRoomPlaybackMode] = useState<RoomPlaybackMode | null>(null);
+  const [skipVotes, setSkipVotes] = useState<SkipVoteState | null>(null);
+  const [songReactions, setSongReactions] = useState<Record<string, SongReactions>>({});
+  const [participantReadiness, setParticipantReadiness] = useState<Record<string, TrackReadiness | null>>({});
+  const [readyWait, setReadyWait] = useState<ReadyWait | null>(null);
+  const [readyCheckEnabled, setReadyCheckEnabled] = useState(false);
+  // For callbacks that need the room as it is now rather than as of the last render
+  const latestRoomDataRef = useRef<any>(null);
+  const roomAccessRef = useRef<RoomAccessInfo | null>(null);
+
+  // Subscribing again for a new callback would replay the room, so keep the latest one aside
+  const onRoomDataRef = useRef(onRoomData);
+  useEffect(() => {
+    onRoomDataRef.current = onRoomData;
+  });
+
+  useEffect(() => {
+    if (!roomId || !userId) {
+      setParticipants([]);
+      roomAccessRef.current = null;
+      setRoomAccess(null);
+      setRoomVisibility(null);
+      latestRoomDataRef.current = null;
+      setParticipantStatuses({});
+      setParticipantPlayback({});
+      setRoomQueue([]);
+      setRoomPlaybackMode(null);
+      setSkipVotes(null);
+      setSongReactions({});
+      setParticipantReadiness({});
+      setReadyWait(null);
+      setReadyCheckEnabled(false);
+      return;
+    }
+
+    console.log('👥 Setting up participants listener for room:', roomId);
+
+    const unsubscribe = transport.subscribe(roomId, (roomData) => {
+      const previousRoomData = latestRoomDataRef.current;
+      latestRoomDataRef.current = roomData;
+
+      // Everyone but us
+      const otherParticipants = (roomData.participants || []).filter((p: RoomParticipant) => p.id !== userId);
+      setParticipants(otherParticipants);
+
+      // Track host, co-DJs and the room's permission policy
+      const access = parseRoomAccess(roomData);
+      roomAccessRef.current = access;
+      setRoomAccess(access);
+      setRoomVisibility(getRoomVisibility(roomData));
+
+      // Online/away/offline for everyone in the room
+      setParticipantStatuses(getPresenceStatuses(roomData, getServerNow()));
+      setParticipantPlayback(getParticipantPlayback(roomData, getServerNow()));
+
+      // Shared up next list, shuffle and repeat
+      setRoomQueue(parseRoomQueue(roomData));
+      setRoomPlaybackMode(parseRoomPlaybackMode(roomData));
+
+      // Skip votes on the current track
+      setSkipVotes(transport.kind === 'firestore' ? getSkipVoteState(roomData) : null);
+
+      // Everyone's likes and moods, per song
+      setSongReactions(parseSongReactions(roomData));
+
+      // Who has the current track loaded, and whether the room is waiting on it
+      setParticipantReadiness(getParticipantReadiness(roomData));
+      setReadyWait(parseReadyWait(roomData));
+      setReadyCheckEnabled(isReadyCheckEnabled(roomData));
+
+      onRoomDataRef.current(roomData, previousRoomData);
+      console.log(`👥 Updated participants: ${otherParticipants.length} others in room`);
+    });
+
+    // Statuses age even when nothing in the room changes
+    const agingInterval = setInterval(() => {
+      if (!latestRoomDataRef.current) return;
+      setParticipantStatuses(getPresenceStatuses(latestRoomDataRef.current, getServerNow()));
+      setParticipantPlayback(getParticipantPlayback(latestRoomDataRef.current, getServerNow()));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      console.log('🔇 Cleaning up participants listener');
+      clearInterval(agingInterval);
+      unsubscribe();
+    };
+  }, [roomId, userId, transport]);
+
+  return {
+    participants,
+    roomAccess,
+    roomVisibility,
+    participantStatuses,
+    participantPlayback,
+    roomQueue,
+    roomPlaybackMode,
+    skipVotes,
+    songReactions,
+    participantReadiness,
+    readyWait,
+    readyCheckEnabled,
+    latestRoomDataRef,
+    roomAccessRef,
+  };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useRef, useState } from 'react';
+import { firestoreTransport } from '../services/firestoreTransport';
+import { SyncTransport } from '../services/syncTransport';
+import { createWebSocketTransport } from '../services/webSocketTransport';
+
+/**
+ * How room state reaches the other devices: Firestore, unless the room was
+ * joined through a LAN relay. `openTransport` makes the transport for a join,
+ * `switchTransport` makes it current once the join went through (closing the
+ * one it replaces) and `discardTransport` drops one whose join failed.
+ * `transportRef` is for callbacks that must reach whichever one is current.
+ */
+export function useSyncTransport() {
+  const [transport, setTransport] = useState<SyncTransport>(firestoreTransport);
+  const transportRef = useRef<SyncTransport>(firestoreTransport);
+
+  // The relay at `relayUrl` (ws://host:port), or Firestore without one
+  const openTransport = useCallback(
+    (relayUrl?: string): SyncTransport => (relayUrl ? createWebSocketTransport(relayUrl) : firestoreTransport),
+    []
+  );
+
+  const switchTransport = useCallback((next: SyncTransport = firestoreTransport) => {
+    if (transportRef.current !== next) transportRef.current.close();
+    transportRef.current = next;
+    setTransport(next);
+  }, []);
+
+  const discardTransport = useCallback((candidate: SyncTransport) => {
+    if (candidate !== firestoreTransport && candidate !== transportRef.current) candidate.close();
+  }, []);
+
+  return { transport, transportRef, openTransport, switchTransport, discardTransport };
+}
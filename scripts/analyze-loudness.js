@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+
+/**
+ * Offline loudness analysis for loudness normalization (services/loudness.ts).
+ * Works on a local copy of a song folder and writes loudness.json into it.
+ * Upload that file to the same Firebase Storage folder as the songs.
+ *
+ * A song's own ReplayGain or iTunNORM tags are used where present. Otherwise the
+ * song is measured once with ffmpeg's EBU R128 filter. Songs already in the
+ * manifest are skipped unless their size changed or --force is given. Songs
+ * without an album gain in their tags get one from the other songs with the
+ * same album and album artist tags; songs without an album tag get none.
+ *
+ * Requires ffmpeg and ffprobe on the PATH.
+ * Usage: npm run analyze-loudness -- <folder> [--force]
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { spawnSync } = require("child_process");
+
+const MANIFEST_NAME = "loudness.json";
+const REFERENCE_LUFS = -18; // ReplayGain 2.0 reference level
+const AUDIO_EXTENSIONS = [".mp3", ".wav", ".m4a", ".aac", ".flac", ".ogg"];
+
+const args = process.argv.slice(2);
+const folder = args.find((arg) => !arg.startsWith("--"));
+const force = args.includes("--force");
+
+if (!folder) {
+  console.error("Usage: npm run analyze-loudness -- <folder> [--force]");
+  process.exit(1);
+}
+
+const round = (value) => (value == null ? undefined : Math.round(value * 100) / 100);
+
+function parseNumber(value) {
+  const number = parseFloat(value);
+  return isFinite(number) ? number : undefined;
+}
+
+function run(command, commandArgs) {
+  const result = spawnSync(command, commandArgs, { encoding: "utf8", maxBuffer: 16 * 1024 * 1024 });
+  if (result.error) throw new Error(`Could not run ${command}: ${result.error.message}`);
+  if (result.status !== 0) throw new Error(`${command} failed: ${result.stderr.trim().split("\n").pop()}`);
+  return result;
+}
+
+// Tags from the container and the audio stream, with lower-case names
+function readTags(file) {
+  const { stdout } = run("ffprobe", ["-v", "error", "-print_format", "json", "-show_entries", "format_tags:stream_tags", file]);
+  const probe = JSON.parse(stdout);
+  const tags = {};
+  [probe.format, ...(probe.streams || [])].forEach((section) => {
+    Object.entries((section && section.tags) || {}).forEach(([name, value]) => {
+      tags[name.toLowerCase()] = value;
+    });
+  });
+  return tags;
+}
+
+// Which album a song belongs to, for album gains
+function albumFromTags(tags) {
+  return {
+    album: tags.album || null,
+    albumArtist: tags.album_artist || tags.albumartist || tags.artist || null,
+  };
+}
+
+function loudnessFromTags(tags) {
+  const trackGainDb = parseNumber(tags.replaygain_track_gain);
+  if (trackGainDb != null) {
+    return {
+      trackGainDb,
+      trackPeak: parseNumber(tags.replaygain_track_peak),
+      albumGainDb: parseNumber(tags.replaygain_album_gain),
+      albumPeak: parseNumber(tags.replaygain_album_peak),
+    };
+  }
+
+  // iTunes Sound Check: the first two hex words are the left and right loudness
+  const soundCheck = (tags.itunnorm || "").trim().split(/\s+/);
+  if (soundCheck.length >= 2) {
+    const level = Math.max(parseInt(soundCheck[0], 16), parseInt(soundCheck[1], 16));
+    if (level > 0) return { trackGainDb: -10 * Math.log10(level / 1000) };
+  }
+
+  return null;
+}
+
+function measureLoudness(file) {
+  const { stderr } = run("ffmpeg", ["-hide_banner", "-nostats", "-i", file, "-map", "0:a:0", "-af", "ebur128=peak=true", "-f", "null", "-"]);
+  // The summary at the end repeats these labels; take the last of each
+  const integrated = [...stderr.matchAll(/I:\s+(-?[\d.]+) LUFS/g)].pop();
+  const peak = [...stderr.matchAll(/Peak:\s+(-?[\d.]+|-inf) dBFS/g)].pop();
+  if (!integrated) throw new Error("No loudness in ffmpeg output");
+
+  const peakDb = peak ? parseNumber(peak[1]) : undefined;
+  return {
+    trackGainDb: REFERENCE_LUFS - parseNumber(integrated[1]),
+    trackPeak: peakDb != null ? Math.pow(10, peakDb / 20) : undefined,
+  };
+}
+
+// One gain for every song of an album that has none from its tags: the level
+// of all its songs together, with the loudest peak among them
+function assignAlbumGains(tracks) {
+  const albums = new Map();
+  Object.values(tracks).forEach((entry) => {
+    // Gains worked out on an earlier run are worked out again
+    if (entry.albumSource) {
+      delete entry.albumGainDb;
+      delete entry.albumPeak;
+      delete entry.albumSource;
+    }
+    if (!entry.album) return;
+
+    const key = `${entry.albumArtist || ""}\n${entry.album}`;
+    albums.set(key, [...(albums.get(key) || []), entry]);
+  });
+
+  albums.forEach((entries) => {
+    const meanPower = entries.reduce((sum, entry) => sum + Math.pow(10, (REFERENCE_LUFS - entry.trackGainDb) / 10), 0) / entries.length;
+    const albumGainDb = REFERENCE_LUFS - 10 * Math.log10(meanPower);
+    const peaks = entries.map((entry) => entry.trackPeak);
+    const albumPeak = peaks.every((peak) => peak != null) ? Math.max(...peaks) : undefined;
+
+    entries
+      .filter((entry) => entry.albumGainDb == null)
+      .forEach((entry) => {
+        entry.albumGainDb = round(albumGainDb);
+        entry.albumPeak = round(albumPeak);
+        entry.albumSource = "analysis";
+      });
+  });
+}
+
+function main() {
+  const manifestPath = path.join(folder, MANIFEST_NAME);
+  const previous = fs.existsSync(manifestPath) ? JSON.parse(fs.readFileSync(manifestPath, "utf8")).tracks || {} : {};
+  const files = fs.readdirSync(folder).filter((name) => AUDIO_EXTENSIONS.includes(path.extname(name).toLowerCase()));
+  const tracks = {};
+
+  files.forEach((fileName) => {
+    const file = path.join(folder, fileName);
+    const { size } = fs.statSync(file);
+    try {
+      if (!force && previous[fileName] && previous[fileName].size === size) {
+        // Manifests from before album tags were recorded only need the tags read
+        tracks[fileName] = previous[fileName].album !== undefined
+          ? previous[fileName]
+          : { ...previous[fileName], ...albumFromTags(readTags(file)) };
+        return;
+      }
+
+      const tags = readTags(file);
+      const tagged = loudnessFromTags(tags);
+      const loudness = tagged || measureLoudness(file);
+      tracks[fileName] = {
+        trackGainDb: round(loudness.trackGainDb),
+        trackPeak: round(loudness.trackPeak),
+        albumGainDb: round(loudness.albumGainDb),
+        albumPeak: round(loudness.albumPeak),
+        source: tagged ? "tags" : "ebur128",
+        ...albumFromTags(tags),
+        size,
+      };
+      console.log(`🔊 ${fileName}: ${tracks[fileName].trackGainDb} dB (${tracks[fileName].source})`);
+    } catch (error) {
+      console.error(`❌ ${fileName}: ${error.message}`);
+    }
+  });
+
+  assignAlbumGains(tracks);
+  fs.writeFileSync(manifestPath, JSON.stringify({ version: 1, generatedAt: new Date().toISOString(), tracks }, null, 2));
+  console.log(`✅ Wrote ${manifestPath} for ${Object.keys(tracks).length} of ${files.length} songs`);
+  console.log("💡 Upload it to the same Firebase Storage folder as the songs");
+}
+
+main();
@@ -0,0 +1,263 @@
+#!/usr/bin/env node
+
+/**
+ * LAN relay for room sync, used by the WebSocket transport (services/webSocketTransport.ts).
+ * Keeps room state in memory, applies versioned playback actions and pushes the
+ * whole room to every subscribed device on each change.
+ *
+ * Usage: npm run sync-relay -- [port]   (default 8787)
+ * Then join a room in the app with the relay address, e.g. ws://192.168.1.20:8787
+ *
+ * Ownership only changes when the host leaves: clients can't write ownerId.
+ */
+
+const os = require("os");
+const { WebSocketServer } = require("ws");
+
+const PRESENCE_REFRESH_MS = 30 * 1000;
+
+// Fields an action may not set directly
+const RESERVED_FIELDS = ["id", "actionSeq", "lastActionTime", "lastActionByUserId", "participants", "presence", "ownerId"];
+
+const rooms = new Map(); // roomId -> room state
+const subscriptions = new Map(); // roomId -> Set<socket>
+
+function createRoom(roomId, member, permissions) {
+  const now = Date.now();
+  return {
+    id: roomId,
+    participants: [],
+    currentTrackId: null,
+    isPlaying: false,
+    lastActionTime: now,
+    lastActionSeekPosition: 0,
+    lastActionByUserId: null,
+    actionSeq: 0,
+    ownerId: member.id,
+    djIds: [],
+    ...(permissions ? { permissions } : {}),
+    visibility: "public",
+    presence: {},
+    createdAt: now,
+  };
+}
+
+function broadcast(roomId) {
+  const room = rooms.get(roomId);
+  const sockets = subscriptions.get(roomId);
+  if (!room || !sockets) return;
+
+  const message = JSON.stringify({ type: "state", roomId, room });
+  sockets.forEach((socket) => {
+    if (socket.readyState === socket.OPEN) socket.send(message);
+  });
+}
+
+function join(socket, roomId, member, permissions) {
+  if (!member || !member.id) throw new Error("Missing member");
+
+  let room = rooms.get(roomId);
+  if (!room) {
+    room = createRoom(roomId, member, permissions);
+    rooms.set(roomId, room);
+    console.log(`🏠 Created room ${roomId}`);
+  }
+
+  const participant = room.participants.find((p) => p.id === member.id);
+  if (!participant) {
+    room.participants.push({ id: member.id, email: member.email, name: member.name || null, joinedAt: Date.now() });
+  } else if (member.name) {
+    participant.name = member.name;
+  }
+  room.presence[member.id] = { lastSeen: Date.now(), state: "active" };
+
+  // Claim an unowned room (everyone left)
+  if (!room.participants.some((p) => p.id === room.ownerId)) {
+    room.ownerId = member.id;
+  }
+
+  socket.memberships.set(roomId, member.id);
+  console.log(`👋 ${member.email || member.id} joined ${roomId}`);
+  broadcast(roomId);
+}
+
+function leave(socket, roomId, userId) {
+  socket.memberships.delete(roomId);
+  const room = rooms.get(roomId);
+  if (!room) return;
+
+  room.participants = room.participants.filter((p) => p.id !== userId);
+  room.djIds = room.djIds.filter((id) => id !== userId);
+  delete room.presence[userId];
+
+  // Hand the room to a co-DJ, or else whoever has been here longest
+  if (room.ownerId === userId) {
+    const nextHost = room.djIds[0] || (room.participants[0] && room.participants[0].id) || null;
+    room.ownerId = nextHost;
+    room.djIds = room.djIds.filter((id) => id !== nextHost);
+  }
+
+  console.log(`🚪 ${userId} left ${roomId}`);
+  broadcast(roomId);
+}
+
+function applyAction(roomId, userId, baseSeq, changes) {
+  const room = rooms.get(roomId);
+  if (!room) throw new Error("Room no longer exists");
+  if (room.actionSeq > baseSeq) {
+    const error = new Error("Room changed before this action was applied");
+    error.code = "stale";
+    error.roomSeq = room.actionSeq;
+    throw error;
+  }
+
+  Object.entries(changes || {}).forEach(([key, value]) => {
+    if (!RESERVED_FIELDS.includes(key)) room[key] = value;
+  });
+  room.actionSeq += 1;
+  room.lastActionTime = Date.now();
+  room.lastActionByUserId = userId;
+
+  broadcast(roomId);
+  return room.actionSeq;
+}
+
+// Plain field updates (settings, roles, reactions): no new actionSeq, so
+// listeners don't treat them as playback. Dotted keys set nested fields,
+// as in Firestore updates.
+function updateRoom(roomId, changes) {
+  const room = rooms.get(roomId);
+  if (!room) throw new Error("Room no longer exists");
+
+  const entries = Object.entries(changes || {});
+  const reserved = entries.find(([key]) => RESERVED_FIELDS.includes(key.split(".")[0]));
+  if (reserved) throw new Error(`${reserved[0]} can't be changed on the relay`);
+
+  entries.forEach(([key, value]) => {
+    const path = key.split(".");
+    let target = room;
+    path.slice(0, -1).forEach((part) => {
+      if (!target[part] || typeof target[part] !== "object") target[part] = {};
+      target = target[part];
+    });
+    target[path[path.length - 1]] = value;
+  });
+
+  broadcast(roomId);
+}
+
+function handleMessage(socket, message) {
+  switch (message.type) {
+    case "ping":
+      return { reply: { type: "pong", sentAt: message.sentAt, relayTime: Date.now() } };
+    case "join":
+      join(socket, message.roomId, message.member, message.permissions);
+      return { value: null };
+    case "leave":
+      leave(socket, message.roomId, message.userId);
+      return { value: null };
+    case "action":
+      return { value: applyAction(message.roomId, message.userId, message.baseSeq, message.changes) };
+    case "update":
+      updateRoom(message.roomId, message.changes);
+      return { value: null };
+    case "fetch":
+      return { value: rooms.get(message.roomId) || null };
+    case "subscribe": {
+      const sockets = subscriptions.get(message.roomId) || new Set();
+      sockets.add(socket);
+      subscriptions.set(message.roomId, sockets);
+      const room = rooms.get(message.roomId);
+      if (room) socket.send(JSON.stringify({ type: "state", roomId: message.roomId, room }));
+      return { value: null };
+    }
+    case "unsubscribe": {
+      const sockets = subscriptions.get(message.roomId);
+      if (sockets) sockets.delete(socket);
+      return { value: null };
+    }
+    default:
+      throw new Error(`Unknown message type: ${message.type}`);
+  }
+}
+
+// Starts a relay on `port` (0 picks a free one); close the returned server to stop it
+function startRelay(port) {
+  const server = new WebSocketServer({ port });
+
+  server.on("connection", (socket, req) => {
+    socket.memberships = new Map(); // roomId -> userId
+    console.log(`🔌 Device connected from ${req.socket.remoteAddress}`);
+
+    socket.on("message", (data) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+
+      let response;
+      try {
+        const result = handleMessage(socket, message);
+        response = result.reply || { type: "result", requestId: message.requestId, ok: true, value: result.value };
+      } catch (error) {
+        response = {
+          type: "result",
+          requestId: message.requestId,
+          ok: false,
+          error: error.message,
+          code: error.code,
+          roomSeq: error.roomSeq,
+        };
+      }
+
+      // Joins and subscriptions sent while reconnecting have no request to answer
+      if (response.type === "result" && !message.requestId) return;
+      socket.send(JSON.stringify(response));
+    });
+
+    // A dropped device leaves its rooms, as if it had tapped Leave
+    socket.on("close", () => {
+      socket.memberships.forEach((userId, roomId) => leave(socket, roomId, userId));
+      subscriptions.forEach((sockets) => sockets.delete(socket));
+      console.log("🔌 Device disconnected");
+    });
+  });
+
+  // Connected devices are present; refresh their lastSeen so nobody shows as offline
+  const presenceInterval = setInterval(() => {
+    const now = Date.now();
+    const touched = new Set();
+    server.clients.forEach((socket) => {
+      socket.memberships.forEach((userId, roomId) => {
+        const room = rooms.get(roomId);
+        if (!room || !room.presence[userId]) return;
+        room.presence[userId].lastSeen = now;
+        touched.add(roomId);
+      });
+    });
+    touched.forEach(broadcast);
+  }, PRESENCE_REFRESH_MS);
+
+  server.on("listening", () => {
+    const { port: boundPort } = server.address();
+    const addresses = Object.values(os.networkInterfaces())
+      .flat()
+      .filter((iface) => iface && iface.family === "IPv4" && !iface.internal)
+      .map((iface) => `ws://${iface.address}:${boundPort}`);
+
+    console.log(`📡 Sync relay listening on port ${boundPort}`);
+    addresses.forEach((address) => console.log(`   ${address}`));
+  });
+
+  server.on("close", () => clearInterval(presenceInterval));
+
+  return server;
+}
+
+module.exports = { startRelay };
+
+if (require.main === module) {
+  startRelay(Number(process.argv[2] || process.env.PORT || 8787));
+}
@@ -0,0 +1,91 @@
+import { createDriftController, decideDriftCorrection, DEFAULT_DRIFT_CONFIG, DriftCorrectablePlayer } from '../driftController';
+
+const config = { toleranceSec: 0.15, hardSeekThresholdSec: 2, maxRateAdjustment: 0.05, catchUpSec: 8 };
+
+function createPlayer(positionMillis: number, isPlaying = true) {
+  const calls: string[] = [];
+  const player: DriftCorrectablePlayer = {
+    getStatusAsync: async () => ({ isLoaded: true, positionMillis, isPlaying }),
+    setPositionAsync: async (position) => {
+      calls.push(`seek ${position}`);
+    },
+    setRateAsync: async (rate) => {
+      calls.push(`rate ${rate}`);
+    },
+  };
+  return { player, calls };
+}
+
+describe('decideDriftCorrection', () => {
+  it('leaves drift inside the tolerance alone, up to and including it', () => {
+    expect(decideDriftCorrection(10, 10, config)).toEqual({ type: 'none', driftSec: 0 });
+    expect(decideDriftCorrection(0, 0.15, config).type).toBe('none');
+    expect(decideDriftCorrection(0.15, 0, config).type).toBe('none');
+  });
+
+  it('nudges just outside the tolerance', () => {
+    const correction = decideDriftCorrection(10, 10.2, config);
+    expect(correction.type).toBe('nudge');
+  });
+
+  it('speeds up when behind and slows down when ahead, closing the gap over catchUpSec', () => {
+    const behind = decideDriftCorrection(10, 10.24, config);
+    const ahead = decideDriftCorrection(10.24, 10, config);
+    expect(behind.type === 'nudge' && behind.rate).toBeCloseTo(1.03);
+    expect(ahead.type === 'nudge' && ahead.rate).toBeCloseTo(0.97);
+  });
+
+  it('caps the rate change at maxRateAdjustment', () => {
+    const behind = decideDriftCorrection(10, 11.9, config);
+    const ahead = decideDriftCorrection(11.9, 10, config);
+    expect(behind.type === 'nudge' && behind.rate).toBeCloseTo(1.05);
+    expect(ahead.type === 'nudge' && ahead.rate).toBeCloseTo(0.95);
+  });
+
+  it('hard-seeks from the threshold on, in either direction', () => {
+    expect(decideDriftCorrection(10, 12, config)).toEqual({ type: 'seek', driftSec: 2, positionSec: 12 });
+    expect(decideDriftCorrection(12, 10, config)).toEqual({ type: 'seek', driftSec: -2, positionSec: 10 });
+    expect(decideDriftCorrection(10, 11.99, config).type).toBe('nudge');
+  });
+
+  it('never seeks before the start of the track', () => {
+    expect(decideDriftCorrection(5, -1, config)).toEqual({ type: 'seek', driftSec: -6, positionSec: 0 });
+  });
+
+  it('uses the default config when none is given', () => {
+    expect(decideDriftCorrection(0, DEFAULT_DRIFT_CONFIG.hardSeekThresholdSec).type).toBe('seek');
+  });
+});
+
+describe('createDriftController', () => {
+  it('applies a nudge rate once and resets it when back in tolerance', async () => {
+    const controller = createDriftController(config);
+    const behind = createPlayer(10000);
+
+    await controller.correct(behind.player, 10.24);
+    await controller.correct(behind.player, 10.24);
+    expect(behind.calls).toEqual([`rate ${1 + 0.24 / 8}`]);
+    expect(controller.getCurrentRate()).toBeCloseTo(1.03);
+
+    await controller.correct(behind.player, 10);
+    expect(behind.calls).toEqual([`rate ${1 + 0.24 / 8}`, 'rate 1']);
+  });
+
+  it('restores normal speed before a hard seek', async () => {
+    const controller = createDriftController(config);
+    const { player, calls } = createPlayer(10000);
+
+    await controller.correct(player, 10.24);
+    await controller.correct(player, 20);
+    expect(calls).toEqual([`rate ${1 + 0.24 / 8}`, 'rate 1', 'seek 20000']);
+  });
+
+  it('does not nudge a paused player', async () => {
+    const controller = createDriftController(config);
+    const { player, calls } = createPlayer(10000, false);
+
+    const correction = await controller.correct(player, 10.24);
+    expect(correction.type).toBe('none');
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { applyGain, getLoudnessGain, parseLoudnessManifest, parseLoudnessTags } from '../loudness';
+
+// Tag bytes as the app reads them: one character per byte
+const id3Txxx = (name: string, value: string) => `TXXX\0\0\0\x1f\0\0\0${name}\0${value}`;
+const id3Utf16Txxx = (name: string, value: string) =>
+  `TXXX\0\0\0\x40\0\0\x01\xff\xfe${name.split('').join('\0')}\0\0\0\xff\xfe${value.split('').join('\0')}\0`;
+const mp4Freeform = (name: string, value: string) =>
+  `----\0\0\0\x1cmean\0\0\0\0com.apple.iTunes\0\0\0\x1dname\0\0\0\0${name}\0\0\0\x19data\0\0\0\x01\0\0\0\0${value}`;
+const soundCheck = (words: string[]) => `COMM\0\0\0\x68\0\0\0eng\0iTunNORM\0 ${words.join(' ')}`;
+
+describe('parseLoudnessTags', () => {
+  it('reads ID3 TXXX frames', () => {
+    const tags = id3Txxx('REPLAYGAIN_TRACK_GAIN', '-7.21 dB') + id3Txxx('REPLAYGAIN_TRACK_PEAK', '0.988525');
+    expect(parseLoudnessTags(tags)).toEqual({ trackGainDb: -7.21, trackPeak: 0.988525, albumGainDb: undefined, albumPeak: undefined });
+  });
+
+  it('reads UTF-16 ID3 frames', () => {
+    expect(parseLoudnessTags(id3Utf16Txxx('REPLAYGAIN_TRACK_GAIN', '+1.50 dB'))?.trackGainDb).toBe(1.5);
+  });
+
+  it('reads Vorbis comments with album gains', () => {
+    const tags = 'REPLAYGAIN_TRACK_GAIN=-3.10 dB\nREPLAYGAIN_TRACK_PEAK=0.91\nREPLAYGAIN_ALBUM_GAIN=-4.00 dB\nREPLAYGAIN_ALBUM_PEAK=0.99\n';
+    expect(parseLoudnessTags(tags)).toEqual({ trackGainDb: -3.1, trackPeak: 0.91, albumGainDb: -4, albumPeak: 0.99 });
+  });
+
+  it('reads tag names in any case, as APE tags store them', () => {
+    expect(parseLoudnessTags('\0\0replaygain_track_gain\0-2 dB')?.trackGainDb).toBe(-2);
+  });
+
+  it('reads MP4 freeform atoms', () => {
+    expect(parseLoudnessTags(mp4Freeform('REPLAYGAIN_TRACK_GAIN', '-2.50 dB'))?.trackGainDb).toBe(-2.5);
+  });
+
+  it('turns iTunes Sound Check into a gain from the louder channel', () => {
+    const words = ['000003E8', '00002710', '00000000', '00000000', '00000000', '00000000', '00000000', '00000000', '00000000', '00000000'];
+    expect(parseLoudnessTags(soundCheck(words))?.trackGainDb).toBeCloseTo(-10);
+  });
+
+  it('prefers ReplayGain over Sound Check', () => {
+    const words = Array(10).fill('00002710');
+    expect(parseLoudnessTags(soundCheck(words) + id3Txxx('REPLAYGAIN_TRACK_GAIN', '-1 dB'))?.trackGainDb).toBe(-1);
+  });
+
+  it('ignores malformed tags', () => {
+    expect(parseLoudnessTags('')).toBeNull();
+    expect(parseLoudnessTags('REPLAYGAIN_TRACK_GAIN=loud')).toBeNull();
+    expect(parseLoudnessTags(soundCheck(['000003E8', '000003E8']))).toBeNull();
+    expect(parseLoudnessTags(soundCheck(Array(10).fill('00000000')))).toBeNull();
+  });
+
+  it('never takes a value from the next tag', () => {
+    expect(parseLoudnessTags('REPLAYGAIN_TRACK_GAIN=\nREPLAYGAIN_TRACK_PEAK=0.98\n')).toBeNull();
+  });
+});
+
+describe('parseLoudnessManifest', () => {
+  it('keeps entries with a track gain and drops the rest', () => {
+    const manifest = {
+      tracks: {
+        'a.mp3': { trackGainDb: -6, trackPeak: 0.9, albumGainDb: -5, albumPeak: 1 },
+        'b.mp3': { trackGainDb: 'loud' },
+        'c.mp3': null,
+      },
+    };
+    expect(parseLoudnessManifest(manifest)).toEqual({
+      'a.mp3': { trackGainDb: -6, trackPeak: 0.9, albumGainDb: -5, albumPeak: 1 },
+    });
+    expect(parseLoudnessManifest(null)).toEqual({});
+  });
+});
+
+describe('getLoudnessGain', () => {
+  const loudness = { trackGainDb: -6, albumGainDb: -12 };
+
+  it('leaves songs alone when off or without loudness', () => {
+    expect(getLoudnessGain(loudness, 'off')).toBe(1);
+    expect(getLoudnessGain(null, 'track')).toBe(1);
+  });
+
+  it('uses the track gain in track mode and the album gain in album mode', () => {
+    expect(getLoudnessGain(loudness, 'track')).toBeCloseTo(0.501);
+    expect(getLoudnessGain(loudness, 'album')).toBeCloseTo(0.251);
+  });
+
+  it('falls back to the track gain in album mode without an album gain', () => {
+    expect(getLoudnessGain({ trackGainDb: -6 }, 'album')).toBeCloseTo(0.501);
+  });
+
+  it('never lifts peaks past full scale', () => {
+    expect(getLoudnessGain({ trackGainDb: 6, trackPeak: 0.8 }, 'track')).toBe(1.25);
+    expect(getLoudnessGain({ trackGainDb: 6, albumGainDb: 6, albumPeak: 0.5 }, 'album')).toBeCloseTo(1.995);
+    expect(getLoudnessGain({ trackGainDb: 6, trackPeak: 0.9, albumGainDb: 3, albumPeak: 0.9 }, 'album')).toBeCloseTo(1.111);
+  });
+});
+
+describe('applyGain', () => {
+  it('keeps the volume between silent and full', () => {
+    expect(applyGain(0.5, 0.5)).toBe(0.25);
+    expect(applyGain(0.8, 2)).toBe(1);
+    expect(applyGain(-1, 1)).toBe(0);
+  });
+});
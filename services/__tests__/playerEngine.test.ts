@@ -0,0 +1,284 @@
+import { AudioHandle, AudioLoadOptions } from '../audioBackend';
+import { CROSSFADE_CURVES, getCrossfadeGains } from '../crossfade';
+import { createFakeAudioBackend } from '../fakeAudioBackend';
+import { getTrackKey, PlayerClock, PlayerEngine, PlayerTrack } from '../playerEngine';
+
+const DURATION_MS = 60 * 1000;
+
+const song = (id: string): PlayerTrack => ({ id, title: `Song ${id}`, url: `https://songs/${id}.mp3`, duration: DURATION_MS / 1000 });
+const [songA, songB, songC] = ['a', 'b', 'c'].map(song);
+
+// Time only moves when the engine waits for a start, straight to that instant,
+// or when a test ticks it
+function createClock(start = 1000000) {
+  let now = start;
+  return {
+    now: () => now,
+    waitUntil: async (millis: number) => {
+      now = Math.max(now, millis);
+    },
+    tick: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+// Let promises the engine didn't await settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+// Let a crossfade take its next step
+const nextFadeStep = () => new Promise(resolve => setTimeout(resolve, 60));
+
+function createEngine(options: { clock?: PlayerClock; resolveUri?: (track: PlayerTrack) => Promise<string>; lateStartToleranceMs?: number } = {}) {
+  const backend = createFakeAudioBackend({ durationMillis: DURATION_MS });
+  const engine = new PlayerEngine({ backend, clock: createClock(), ...options });
+  return { backend, engine };
+}
+
+describe('PlayerEngine loads by track key', () => {
+  it('abandons a load when another track is requested before it finishes', async () => {
+    let resolveSlowUri: (uri: string) => void = () => {};
+    const { backend, engine } = createEngine({
+      resolveUri: (track) => (track.id === 'a' ? new Promise(resolve => { resolveSlowUri = resolve; }) : Promise.resolve(track.url)),
+    });
+    engine.setAutoAdvance(false);
+
+    const slowLoad = engine.load(songA);
+    await expect(engine.load(songB)).resolves.toBe(true);
+    resolveSlowUri(songA.url);
+
+    await expect(slowLoad).resolves.toBe(false);
+    expect(backend.handles.map(handle => handle.uri)).toEqual([songB.url]);
+    expect(engine.getState().currentSong?.id).toBe('b');
+    expect(engine.getLoadedKey()).toBe(getTrackKey('b'));
+  });
+
+  it('unloads a sound that finished loading after its track was replaced', async () => {
+    const backend = createFakeAudioBackend({ durationMillis: DURATION_MS });
+    let finishLoad: () => void = () => {};
+    const slowBackend = {
+      ...backend,
+      load: (uri: string, options: AudioLoadOptions) => new Promise<AudioHandle>(resolve => {
+        finishLoad = () => resolve(backend.load(uri, options));
+      }),
+    };
+    const engine = new PlayerEngine({ backend: slowBackend, clock: createClock() });
+    engine.setAutoAdvance(false);
+
+    const load = engine.load(songA, { key: getTrackKey('a', 'session-1') });
+    await settle();
+    engine.request(getTrackKey('a', 'session-2'));
+    finishLoad();
+
+    await expect(load).resolves.toBe(false);
+    expect(backend.handles[0].unloaded).toBe(true);
+    expect(engine.getLoadedKey()).toBeNull();
+  });
+});
+
+describe('PlayerEngine scheduled starts', () => {
+  it('starts on schedule from the seek position', async () => {
+    const clock = createClock();
+    const { backend, engine } = createEngine({ clock });
+    engine.setAutoAdvance(false);
+
+    await engine.load(songA, { start: { anchorMillis: clock.now() + 500, seekPosition: 12 } });
+    await settle();
+
+    const status = await backend.handles[0].getStatusAsync();
+    expect(status.isPlaying).toBe(true);
+    expect(status.positionMillis).toBe(12000);
+  });
+
+  it('joins a start it missed at the position the room has reached', async () => {
+    const clock = createClock();
+    const { backend, engine } = createEngine({ clock, lateStartToleranceMs: 100 });
+    engine.setAutoAdvance(false);
+
+    await engine.load(songA, { start: { anchorMillis: clock.now() - 3000, seekPosition: 10 } });
+    await settle();
+
+    const status = await backend.handles[0].getStatusAsync();
+    expect(status.isPlaying).toBe(true);
+    expect(status.positionMillis).toBe(13000);
+  });
+
+  it('treats a start within the tolerance as on time', async () => {
+    const clock = createClock();
+    const { backend, engine } = createEngine({ clock, lateStartToleranceMs: 100 });
+    engine.setAutoAdvance(false);
+
+    await engine.load(songA, { start: { anchorMillis: clock.now() - 50, seekPosition: 10 } });
+    await settle();
+
+    expect((await backend.handles[0].getStatusAsync()).positionMillis).toBe(10000);
+  });
+
+  it('never starts a start that was called off', async () => {
+    const clock = createClock();
+    let releaseStart: () => void = () => {};
+    const waitingClock: PlayerClock = { now: clock.now, waitUntil: () => new Promise(resolve => { releaseStart = resolve; }) };
+    const { backend, engine } = createEngine({ clock: waitingClock });
+    engine.setAutoAdvance(false);
+
+    await engine.load(songA, { start: { anchorMillis: clock.now() + 500, seekPosition: 0 } });
+    expect(engine.cancelScheduledStart()).toBe(true);
+    releaseStart();
+    await settle();
+
+    expect((await backend.handles[0].getStatusAsync()).isPlaying).toBe(false);
+  });
+});
+
+describe('PlayerEngine advancing on its own', () => {
+  it('loops the current sound for repeat one instead of moving on', async () => {
+    const { backend, engine } = createEngine();
+    const ended = jest.fn();
+    engine.on('ended', ended);
+    engine.setQueue([songA, songB, songC]);
+    engine.setRepeatMode('one');
+
+    await engine.load(songA);
+    await settle();
+    expect(backend.handles).toHaveLength(1);
+    expect(backend.handles[0].isLooping).toBe(true);
+
+    backend.advance(DURATION_MS + 1000);
+    await settle();
+
+    expect(ended).not.toHaveBeenCalled();
+    expect(engine.getState().currentSong?.id).toBe('a');
+    expect((await backend.handles[0].getStatusAsync()).isPlaying).toBe(true);
+  });
+
+  it('leaves repeat one to the room when not advancing by itself', async () => {
+    const { backend, engine } = createEngine();
+    const ended = jest.fn();
+    engine.on('ended', ended);
+    engine.setQueue([songA, songB]);
+    engine.setRepeatMode('one');
+    engine.setAutoAdvance(false);
+
+    await engine.load(songA);
+    await settle();
+    expect(backend.handles[0].isLooping).toBe(false);
+
+    backend.advance(DURATION_MS);
+    expect(ended).toHaveBeenCalledWith(songA);
+  });
+
+  it('hands over to the prepared next song when one ends', async () => {
+    const { backend, engine } = createEngine();
+    engine.setQueue([songA, songB, songC]);
+
+    await engine.load(songA);
+    await settle();
+    expect(backend.handles.map(handle => handle.uri)).toEqual([songA.url, songB.url]);
+
+    backend.advance(DURATION_MS);
+    await settle();
+
+    expect(engine.getState().currentSong?.id).toBe('b');
+    expect(backend.handles[0].unloaded).toBe(true);
+    expect((await backend.handles[1].getStatusAsync()).isPlaying).toBe(true);
+  });
+});
+
+describe('getCrossfadeGains', () => {
+  it('starts on the outgoing song and ends on the incoming one for every curve', () => {
+    CROSSFADE_CURVES.forEach(curve => {
+      const start = getCrossfadeGains(0, curve);
+      const end = getCrossfadeGains(1, curve);
+      expect(start.fadeOut).toBeCloseTo(1);
+      expect(start.fadeIn).toBeCloseTo(0);
+      expect(end.fadeOut).toBeCloseTo(0);
+      expect(end.fadeIn).toBeCloseTo(1);
+    });
+  });
+
+  it('keeps the combined power steady for equal power and dips in the middle for linear', () => {
+    const equalPower = getCrossfadeGains(0.5, 'equalPower');
+    expect(equalPower.fadeOut ** 2 + equalPower.fadeIn ** 2).toBeCloseTo(1);
+    expect(getCrossfadeGains(0.5, 'linear')).toEqual({ fadeOut: 0.5, fadeIn: 0.5 });
+    expect(getCrossfadeGains(0.25, 'sCurve').fadeIn).toBeLessThan(0.25);
+  });
+
+  it('holds the endpoints outside the fade', () => {
+    expect(getCrossfadeGains(-1, 'linear')).toEqual({ fadeOut: 1, fadeIn: 0 });
+    expect(getCrossfadeGains(2, 'linear')).toEqual({ fadeOut: 0, fadeIn: 1 });
+  });
+});
+
+describe('PlayerEngine crossfades', () => {
+  const FADE_MS = 10 * 1000;
+
+  async function playIntoFade() {
+    const clock = createClock();
+    const { backend, engine } = createEngine({ clock });
+    engine.setCrossfade({ durationSec: FADE_MS / 1000, curve: 'linear' });
+    engine.setQueue([songA, songB, songC]);
+
+    await engine.load(songA);
+    await settle();
+    backend.advance(DURATION_MS - FADE_MS);
+    await settle();
+    return { backend, clock, engine };
+  }
+
+  it('fades the next song in as the current one fades out, then lets the old one go', async () => {
+    const { backend, clock, engine } = await playIntoFade();
+    const [outgoing, incoming] = backend.handles;
+
+    expect(engine.getState().currentSong?.id).toBe('b');
+    expect(outgoing.volume).toBe(1);
+    expect(incoming.volume).toBe(0);
+    expect((await incoming.getStatusAsync()).isPlaying).toBe(true);
+
+    clock.tick(FADE_MS / 2);
+    await nextFadeStep();
+    expect(outgoing.volume).toBeCloseTo(0.5);
+    expect(incoming.volume).toBeCloseTo(0.5);
+    expect(outgoing.unloaded).toBe(false);
+
+    clock.tick(FADE_MS / 2);
+    await nextFadeStep();
+    expect(outgoing.unloaded).toBe(true);
+    expect(incoming.volume).toBe(1);
+  });
+
+  it('hands over right at the end without overlap when the fade is zero-length', async () => {
+    const clock = createClock();
+    const { backend, engine } = createEngine({ clock });
+    engine.setCrossfade({ durationSec: 0, curve: 'linear' });
+    engine.setQueue([songA, songB]);
+
+    await engine.load(songA);
+    await settle();
+    const endsAt = clock.now() + 500;
+    backend.advance(DURATION_MS - 500);
+    await settle();
+
+    // Waited for the last half second of A, then swapped without a fade
+    expect(clock.now()).toBe(endsAt);
+    expect(engine.getState().currentSong?.id).toBe('b');
+    expect(backend.handles[0].unloaded).toBe(true);
+    expect(backend.handles[1].volume).toBe(1);
+    expect((await backend.handles[1].getStatusAsync()).isPlaying).toBe(true);
+  });
+
+  it('drops both fading songs when skipping mid-fade', async () => {
+    const { backend, clock, engine } = await playIntoFade();
+    const [outgoing, incoming] = backend.handles;
+
+    await engine.next();
+    const skippedTo = backend.handles[backend.handles.length - 1];
+    expect(engine.getState().currentSong?.id).toBe('c');
+    expect(outgoing.unloaded).toBe(true);
+    expect(incoming.unloaded).toBe(true);
+    expect(skippedTo.volume).toBe(1);
+
+    // The fade doesn't carry on into the song we skipped to
+    clock.tick(FADE_MS / 2);
+    await nextFadeStep();
+    expect(skippedTo.volume).toBe(1);
+  });
+});
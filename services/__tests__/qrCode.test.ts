@@ -0,0 +1,107 @@
+import { encodeQRCode, QRMatrix } from '../qrCode';
+
+// sunulu://room/listening, checked module for module against the reference
+// encoder from qrcode-terminal built with the same mask
+const LOBBY_INVITE = [
+  '#######....##.#.#.#######',
+  '#.....#..#....###.#.....#',
+  '#.###.#.####......#.###.#',
+  '#.###.#.#..#.####.#.###.#',
+  '#.###.#.##.##...#.#.###.#',
+  '#.....#.###...###.#.....#',
+  '#######.#.#.#.#.#.#######',
+  '........#.##..##.........',
+  '#.#####....####...#####..',
+  '..####...###.#..##.#..#..',
+  '.....####.##.###..#######',
+  '.#.##...#.#....##..##..##',
+  '..#...##...####..##.#.###',
+  '##...#..#....#..#......#.',
+  '#..######..##..###.##..##',
+  '#...#..#.#.#..#.##.##..#.',
+  '#.#.#.##.###.##.#######.#',
+  '........#...##.##...#.##.',
+  '#######..##..##.#.#.##.##',
+  '#.....#.##..#..##...#..#.',
+  '#.###.#.#...#########.###',
+  '#.###.#.###......##.#..##',
+  '#.###.#.#.#####.#.......#',
+  '#.....#..###..####..##..#',
+  '#######.#.###....#..#.###',
+];
+
+// The 15 format bits for error correction level M with masks 0–7, from the spec's table
+const LEVEL_M_FORMAT_BITS = [0x5412, 0x5125, 0x5e7c, 0x5b4b, 0x45f9, 0x40ce, 0x4f97, 0x4aa0];
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+const toRows = (matrix: QRMatrix) => matrix.map(row => row.map(dark => (dark ? '#' : '.')).join(''));
+const versionOf = (matrix: QRMatrix) => (matrix.length - 17) / 4;
+
+// Both copies of the format bits, bit 0 first, in the order they are drawn
+function readFormatBits(matrix: QRMatrix): [number, number] {
+  const size = matrix.length;
+  const at = (x: number, y: number) => (matrix[y][x] ? 1 : 0);
+  let first = 0;
+  let second = 0;
+  for (let i = 0; i < 15; i++) {
+    let bit: number;
+    if (i <= 5) bit = at(8, i);
+    else if (i === 6) bit = at(8, 7);
+    else if (i === 7) bit = at(8, 8);
+    else if (i === 8) bit = at(7, 8);
+    else bit = at(14 - i, 8);
+    first |= bit << i;
+    second |= (i < 8 ? at(size - 1 - i, 8) : at(8, size - 15 + i)) << i;
+  }
+  return [first, second];
+}
+
+describe('encodeQRCode', () => {
+  it('encodes an invite link to the known matrix', () => {
+    expect(toRows(encodeQRCode('sunulu://room/listening'))).toEqual(LOBBY_INVITE);
+  });
+
+  it('picks the smallest version that fits at level M', () => {
+    expect(versionOf(encodeQRCode('a'.repeat(14)))).toBe(1);
+    expect(versionOf(encodeQRCode('a'.repeat(15)))).toBe(2);
+    expect(versionOf(encodeQRCode('a'.repeat(26)))).toBe(2);
+    expect(versionOf(encodeQRCode('a'.repeat(27)))).toBe(3);
+    expect(versionOf(encodeQRCode('a'.repeat(213)))).toBe(10);
+  });
+
+  it('counts bytes, not characters', () => {
+    expect(versionOf(encodeQRCode('é'.repeat(7)))).toBe(1);
+    expect(versionOf(encodeQRCode('é'.repeat(8)))).toBe(2);
+  });
+
+  it('refuses text past version 10', () => {
+    expect(() => encodeQRCode('a'.repeat(214))).toThrow('Text is too long to encode as a QR code');
+  });
+
+  it('writes level M format bits for the chosen mask, twice', () => {
+    ['sunulu://room/listening', 'sunulu://room/k3x9-friday-night-mix', 'a'.repeat(150)].forEach(text => {
+      const [first, second] = readFormatBits(encodeQRCode(text));
+      expect(second).toBe(first);
+      expect(LEVEL_M_FORMAT_BITS).toContain(first);
+    });
+  });
+
+  it('writes the version information from version 7 on', () => {
+    const matrix = encodeQRCode('a'.repeat(150));
+    const size = matrix.length;
+    expect(versionOf(matrix)).toBe(8);
+
+    const VERSION_8_BITS = 0x085bc;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      expect(matrix[b][a]).toBe(getBit(VERSION_8_BITS, i));
+      expect(matrix[a][b]).toBe(getBit(VERSION_8_BITS, i));
+    }
+  });
+
+  it('keeps the dark module next to the bottom-left finder', () => {
+    const matrix = encodeQRCode('sunulu://room/listening');
+    expect(matrix[matrix.length - 8][8]).toBe(true);
+  });
+});
@@ -0,0 +1,70 @@
+import { StaleRoomActionError } from '../roomActions';
+import { createOutboxEntry, enqueueOutboxEntry, flushOutbox, mergeFlushResult, OutboxEntry } from '../roomOutbox';
+
+// The outbox never touches Firestore itself; keep the SDK out of the test
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('../../config/firebase', () => ({ db: {} }));
+
+const pause = () => createOutboxEntry('room-1', 'pause', { isPlaying: false, lastActionSeekPosition: 10 }, 3, null);
+const resume = () => createOutboxEntry('room-1', 'resume', { isPlaying: true, lastActionSeekPosition: 10 }, 3, null);
+const seek = () => createOutboxEntry('room-1', 'seek', { lastActionSeekPosition: 42 }, 3, null);
+
+const rejectWith = (error: any) => async (): Promise<number> => {
+  throw error;
+};
+
+describe('mergeFlushResult', () => {
+  it('keeps an action queued during the flush that replaced the one being sent', async () => {
+    const inFlight = pause();
+    const flushed = [inFlight];
+    const result = await flushOutbox(flushed, rejectWith(new Error('offline')), Date.now());
+
+    // The user tapped resume while the pause was still being sent
+    const queued = resume();
+    const current = enqueueOutboxEntry(flushed, queued);
+
+    expect(mergeFlushResult(flushed, result, current).map(entry => entry.id)).toEqual([queued.id]);
+  });
+
+  it('puts actions queued during the flush after what is left', async () => {
+    const flushed = [pause()];
+    const result = await flushOutbox(flushed, rejectWith(new Error('offline')), Date.now());
+    const queued = seek();
+
+    const merged = mergeFlushResult(flushed, result, enqueueOutboxEntry(flushed, queued));
+    expect(merged.map(entry => entry.label)).toEqual(['pause', 'seek']);
+    expect(merged[0].attempts).toBe(1);
+  });
+
+  it('rebases actions queued during the flush on what it committed', async () => {
+    const flushed = [pause()];
+    const result = await flushOutbox(flushed, async () => 4, Date.now());
+    const queued: OutboxEntry = seek();
+
+    const merged = mergeFlushResult(flushed, result, enqueueOutboxEntry(flushed, queued));
+    expect(merged).toEqual([{ ...queued, baseSeq: 4 }]);
+  });
+});
+
+describe('flushOutbox', () => {
+  it('discards actions the room has moved past', async () => {
+    const result = await flushOutbox([pause()], rejectWith(new StaleRoomActionError(5)), Date.now());
+    expect(result.remaining).toEqual([]);
+    expect(result.discarded.map(entry => entry.label)).toEqual(['pause']);
+  });
+
+  it('discards actions that can never be sent instead of retrying them', async () => {
+    const gone = await flushOutbox([pause(), seek()], rejectWith(new Error('Room no longer exists')), Date.now());
+    const denied = await flushOutbox([pause()], rejectWith({ code: 'permission-denied' }), Date.now());
+
+    expect(gone.remaining).toEqual([]);
+    expect(gone.discarded.map(entry => entry.label)).toEqual(['pause', 'seek']);
+    expect(denied.remaining).toEqual([]);
+  });
+
+  it('keeps the rest in order behind an action that failed to go through', async () => {
+    const result = await flushOutbox([pause(), seek()], rejectWith(new Error('offline')), Date.now());
+    expect(result.remaining.map(entry => entry.label)).toEqual(['pause', 'seek']);
+    expect(result.discarded).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import { buildDiagnosticsTrace, clearSyncDiagnostics, DiagnosticsTraceContext, recordRoomSnapshot, redactSnapshot } from '../syncDiagnostics';
+
+const room = {
+  currentTrackId: 'song-1',
+  actionSeq: 4,
+  visibility: 'private',
+  passphraseHash: 'abc123',
+  allowedUserIds: ['user-2'],
+  participants: [
+    { id: 'user-1', email: 'ada@example.com', joinedAt: 1 },
+    { id: 'user-2', email: 'grace@example.com', joinedAt: 2 },
+  ],
+};
+
+const context: DiagnosticsTraceContext = {
+  roomId: 'room-1',
+  userId: 'user-1',
+  transport: 'firestore',
+  clockSync: { offsetMs: 0, uncertaintyMs: 0, roundTripMs: 0, sampleCount: 0, confidence: 'none', lastSyncedAt: null },
+  driftConfig: { toleranceSec: 0.15, hardSeekThresholdSec: 2, maxRateAdjustment: 0.05, catchUpSec: 8 },
+};
+
+describe('redactSnapshot', () => {
+  it('drops the passphrase hash, the allow-list and participant emails', () => {
+    expect(redactSnapshot(room)).toEqual({
+      currentTrackId: 'song-1',
+      actionSeq: 4,
+      visibility: 'private',
+      participants: [
+        { id: 'user-1', joinedAt: 1 },
+        { id: 'user-2', joinedAt: 2 },
+      ],
+    });
+  });
+
+  it('leaves the original room data alone', () => {
+    redactSnapshot(room);
+    expect(room.passphraseHash).toBe('abc123');
+    expect(room.participants[0].email).toBe('ada@example.com');
+  });
+
+  it('passes through a missing snapshot', () => {
+    expect(redactSnapshot(null)).toBeNull();
+  });
+});
+
+describe('buildDiagnosticsTrace', () => {
+  afterEach(() => clearSyncDiagnostics());
+
+  it('exports the latest snapshot redacted', () => {
+    recordRoomSnapshot(room, 1000, true);
+    const trace = JSON.stringify(buildDiagnosticsTrace(context, 2000));
+
+    expect(trace).toContain('song-1');
+    expect(trace).not.toContain('abc123');
+    expect(trace).not.toContain('allowedUserIds');
+    expect(trace).not.toContain('@example.com');
+  });
+});
@@ -0,0 +1,50 @@
+import { combineSamples, getConfidence } from '../timeSync';
+
+// Only the sample math is under test; keep the SDK out of it
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('../../config/firebase', () => ({ db: {} }));
+
+describe('combineSamples', () => {
+  it('takes the median offset of the fast probes and ignores slow ones', () => {
+    const combined = combineSamples([
+      { offsetMs: 100, roundTripMs: 40 },
+      { offsetMs: 102, roundTripMs: 50 },
+      { offsetMs: 98, roundTripMs: 60 },
+      { offsetMs: 500, roundTripMs: 400 },
+    ]);
+
+    expect(combined).toMatchObject({ offsetMs: 100, uncertaintyMs: 20, roundTripMs: 50, sampleCount: 3, confidence: 'high' });
+  });
+
+  it('is as uncertain as the spread between probes when that exceeds half the round trip', () => {
+    const combined = combineSamples([
+      { offsetMs: 0, roundTripMs: 20 },
+      { offsetMs: 150, roundTripMs: 20 },
+      { offsetMs: 300, roundTripMs: 20 },
+    ]);
+
+    expect(combined).toMatchObject({ offsetMs: 150, uncertaintyMs: 150, confidence: 'medium' });
+  });
+
+  it('gives up when no probe came back in time', () => {
+    expect(combineSamples([])).toBeNull();
+    expect(combineSamples([{ offsetMs: 10, roundTripMs: 6000 }])).toBeNull();
+  });
+});
+
+describe('getConfidence', () => {
+  it('has none without samples', () => {
+    expect(getConfidence(0, 0)).toBe('none');
+  });
+
+  it('needs three samples for high confidence', () => {
+    expect(getConfidence(75, 3)).toBe('high');
+    expect(getConfidence(75, 2)).toBe('medium');
+  });
+
+  it('drops with the uncertainty', () => {
+    expect(getConfidence(76, 5)).toBe('medium');
+    expect(getConfidence(250, 5)).toBe('medium');
+    expect(getConfidence(251, 5)).toBe('low');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { startRelay } from '../../scripts/sync-relay';
+import { StaleRoomActionError } from '../roomActions';
+import { SyncTransport } from '../syncTransport';
+import { createWebSocketTransport } from '../webSocketTransport';
+
+// Two devices syncing through a real relay; Firebase is never reached
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('../../config/firebase', () => ({ db: {} }));
+
+const host = { id: 'host', email: 'host@example.com', name: 'Host' };
+const guest = { id: 'guest', email: 'guest@example.com', name: 'Guest' };
+
+// Resolves with the first pushed room state that matches
+function nextState(transport: SyncTransport, roomId: string, matches: (room: any) => boolean): Promise<any> {
+  return new Promise(resolve => {
+    const unsubscribe = transport.subscribe(roomId, (room) => {
+      if (!room || !matches(room)) return;
+      unsubscribe();
+      resolve(room);
+    });
+  });
+}
+
+describe('WebSocket transport against the relay', () => {
+  let relay: ReturnType<typeof startRelay>;
+  let url: string;
+  let transports: SyncTransport[];
+
+  beforeAll(async () => {
+    // The ws client stands in for the WebSocket React Native provides
+    (global as any).WebSocket = WebSocket;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    relay = startRelay(0);
+    await new Promise(resolve => relay.once('listening', resolve));
+    url = `ws://127.0.0.1:${(relay.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => relay.close(resolve));
+  });
+
+  beforeEach(() => {
+    transports = [];
+  });
+
+  // Wait for the relay to see every device go, so nothing logs after the test
+  afterEach(async () => {
+    transports.forEach(transport => transport.close());
+    while (relay.clients.size > 0) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  });
+
+  const connect = () => {
+    const transport = createWebSocketTransport(url);
+    transports.push(transport);
+    return transport;
+  };
+
+  it('gives the room to whoever creates it and lists everyone who joins', async () => {
+    const hostDevice = connect();
+    const guestDevice = connect();
+
+    await hostDevice.join('lobby', host);
+    await guestDevice.join('lobby', guest);
+
+    const room = await hostDevice.fetchRoom('lobby');
+    expect(room.ownerId).toBe('host');
+    expect(room.participants.map((p: any) => p.name)).toEqual(['Host', 'Guest']);
+    expect(Object.keys(room.presence)).toEqual(['host', 'guest']);
+  });
+
+  it('pushes a playback action to the other device with its sequence number', async () => {
+    const hostDevice = connect();
+    const guestDevice = connect();
+    await hostDevice.join('party', host);
+    await guestDevice.join('party', guest);
+
+    const guestSees = nextState(guestDevice, 'party', room => room.actionSeq === 1);
+    const seq = await hostDevice.publishAction('party', 'host', 0, {
+      currentTrackId: 'song-1',
+      isPlaying: true,
+      lastActionSeekPosition: 12,
+    });
+    const room = await guestSees;
+
+    expect(seq).toBe(1);
+    expect(room).toMatchObject({ currentTrackId: 'song-1', isPlaying: true, lastActionSeekPosition: 12, lastActionByUserId: 'host' });
+    expect(typeof room.lastActionTime.toMillis()).toBe('number');
+  });
+
+  it('rejects an action based on an older sequence number', async () => {
+    const hostDevice = connect();
+    const guestDevice = connect();
+    await hostDevice.join('race', host);
+    await guestDevice.join('race', guest);
+
+    await hostDevice.publishAction('race', 'host', 0, { isPlaying: true });
+    const stale = guestDevice.publishAction('race', 'guest', 0, { isPlaying: false });
+
+    await expect(stale).rejects.toBeInstanceOf(StaleRoomActionError);
+    await expect(stale).rejects.toMatchObject({ roomSeq: 1 });
+    expect((await guestDevice.fetchRoom('race')).isPlaying).toBe(true);
+  });
+
+  it('never lets an action or update take over the room', async () => {
+    const hostDevice = connect();
+    const guestDevice = connect();
+    await hostDevice.join('coup', host);
+    await guestDevice.join('coup', guest);
+
+    await guestDevice.publishAction('coup', 'guest', 0, { ownerId: 'guest', isPlaying: true });
+    await expect(guestDevice.updateRoom('coup', { ownerId: 'guest' })).rejects.toThrow("ownerId can't be changed");
+    await expect(guestDevice.updateRoom('coup', { 'presence.host': null })).rejects.toThrow();
+
+    const room = await hostDevice.fetchRoom('coup');
+    expect(room).toMatchObject({ ownerId: 'host', isPlaying: true });
+    expect(room.presence.host).toBeTruthy();
+  });
+
+  it('applies dotted updates without bumping the action sequence', async () => {
+    const hostDevice = connect();
+    await hostDevice.join('settings', host);
+
+    await hostDevice.updateRoom('settings', { 'permissions.skip': 'host', vibe: 'chill' });
+
+    const room = await hostDevice.fetchRoom('settings');
+    expect(room).toMatchObject({ permissions: { skip: 'host' }, vibe: 'chill', actionSeq: 0 });
+  });
+
+  it('hands the room on when the host leaves', async () => {
+    const hostDevice = connect();
+    const guestDevice = connect();
+    await hostDevice.join('handover', host);
+    await guestDevice.join('handover', guest);
+
+    const guestSees = nextState(guestDevice, 'handover', room => room.participants.length === 1);
+    await hostDevice.leave('handover', 'host');
+
+    expect((await guestSees).ownerId).toBe('guest');
+  });
+});
@@ -0,0 +1,43 @@
+// services/audioBackend.ts
+
+import { DriftCorrectablePlayer } from './driftController';
+
+// The audio library underneath the player engine. The engine only talks to
+// these interfaces, so it runs on expo-av in the app (expoAudioBackend.ts) and
+// on an in-memory fake anywhere else (fakeAudioBackend.ts). Positions are in
+// milliseconds, as in expo-av.
+
+export interface AudioStatus {
+  isLoaded: boolean;
+  isPlaying: boolean;
+  positionMillis: number;
+  durationMillis: number | null;
+  didJustFinish: boolean;
+}
+
+export interface AudioLoadOptions {
+  shouldPlay: boolean;
+  volume: number;
+  positionMillis: number;
+}
+
+// One loaded sound
+export interface AudioHandle extends DriftCorrectablePlayer {
+  getStatusAsync(): Promise<AudioStatus>;
+  playAsync(): Promise<unknown>;
+  pauseAsync(): Promise<unknown>;
+  playFromPositionAsync(positionMillis: number): Promise<unknown>;
+  setPositionAsync(positionMillis: number): Promise<unknown>;
+  setRateAsync(rate: number, shouldCorrectPitch: boolean): Promise<unknown>;
+  setVolumeAsync(volume: number): Promise<unknown>;
+  setIsLoopingAsync(isLooping: boolean): Promise<unknown>;
+  stopAsync(): Promise<unknown>;
+  unloadAsync(): Promise<unknown>;
+  setOnStatusUpdate(listener: ((status: AudioStatus) => void) | null): void;
+}
+
+export interface AudioBackend {
+  // One-time setup, e.g. the audio session
+  init(): Promise<void>;
+  load(uri: string, options: AudioLoadOptions): Promise<AudioHandle>;
+}
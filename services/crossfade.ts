@@ -0,0 +1,57 @@
+// services/crossfade.ts
+
+// How one song hands over to the next when the player moves on by itself.
+// Without a crossfade the next song is loaded ahead of time and started the
+// moment the current one ends, so there is no gap. With one, both play for a
+// while: the outgoing song fades out as the incoming one fades in along the
+// chosen curve. Rooms start every track at a scheduled instant for everyone,
+// so this only applies outside a room.
+
+export type CrossfadeCurve = 'equalPower' | 'linear' | 'sCurve';
+
+export interface CrossfadeSettings {
+  durationSec: number; // 0 plays gaplessly
+  curve: CrossfadeCurve;
+}
+
+export interface CrossfadeGains {
+  fadeOut: number; // volume of the outgoing song, 0–1
+  fadeIn: number; // volume of the incoming song, 0–1
+}
+
+export const MAX_CROSSFADE_SEC = 12;
+export const CROSSFADE_CURVES: CrossfadeCurve[] = ['equalPower', 'linear', 'sCurve'];
+export const DEFAULT_CROSSFADE: CrossfadeSettings = { durationSec: 0, curve: 'equalPower' };
+
+export const CROSSFADE_CURVE_LABELS: Record<CrossfadeCurve, string> = {
+  equalPower: 'Equal power',
+  linear: 'Linear',
+  sCurve: 'S-curve',
+};
+
+export function normalizeCrossfade(settings: Partial<CrossfadeSettings>): CrossfadeSettings {
+  const durationSec = Number(settings.durationSec);
+  return {
+    durationSec: isFinite(durationSec) ? Math.min(MAX_CROSSFADE_SEC, Math.max(0, Math.round(durationSec))) : 0,
+    curve: settings.curve && CROSSFADE_CURVES.includes(settings.curve) ? settings.curve : DEFAULT_CROSSFADE.curve,
+  };
+}
+
+// Volumes `progress` (0–1) of the way through a fade. Equal power keeps the
+// combined loudness steady, linear dips in the middle, and the S-curve holds
+// the outgoing song longer before handing over quickly.
+export function getCrossfadeGains(progress: number, curve: CrossfadeCurve): CrossfadeGains {
+  const t = Math.min(1, Math.max(0, progress));
+
+  switch (curve) {
+    case 'linear':
+      return { fadeOut: 1 - t, fadeIn: t };
+    case 'sCurve': {
+      const eased = t * t * (3 - 2 * t);
+      return { fadeOut: 1 - eased, fadeIn: eased };
+    }
+    case 'equalPower':
+    default:
+      return { fadeOut: Math.cos((t * Math.PI) / 2), fadeIn: Math.sin((t * Math.PI) / 2) };
+  }
+}
@@ -0,0 +1,115 @@
+// services/driftController.ts
+
+// Keeps local playback aligned with the room's position without audible jumps.
+// Small drift is absorbed by playing slightly faster or slower for a while,
+// only large drift is fixed with a hard seek, and anything inside the
+// tolerance window is left alone.
+
+export interface DriftControllerConfig {
+  toleranceSec: number; // drift we ignore entirely
+  hardSeekThresholdSec: number; // drift above this is fixed by seeking
+  maxRateAdjustment: number; // largest deviation from 1.0 when nudging
+  catchUpSec: number; // how long a nudge should take to close the gap
+}
+
+export type DriftCorrection =
+  | { type: 'none'; driftSec: number }
+  | { type: 'nudge'; driftSec: number; rate: number }
+  | { type: 'seek'; driftSec: number; positionSec: number };
+
+// Minimal surface of an expo-av Sound the controller needs
+export interface DriftCorrectablePlayer {
+  getStatusAsync: () => Promise<{ isLoaded: boolean; positionMillis?: number; isPlaying?: boolean }>;
+  setPositionAsync: (positionMillis: number) => Promise<unknown>;
+  setRateAsync: (rate: number, shouldCorrectPitch: boolean) => Promise<unknown>;
+}
+
+export const DEFAULT_DRIFT_CONFIG: DriftControllerConfig = {
+  toleranceSec: 0.15,
+  hardSeekThresholdSec: 2,
+  maxRateAdjustment: 0.05,
+  catchUpSec: 8,
+};
+
+// Pure decision: what should we do about the gap between local and target?
+export function decideDriftCorrection(
+  localPositionSec: number,
+  targetPositionSec: number,
+  config: DriftControllerConfig = DEFAULT_DRIFT_CONFIG,
+): DriftCorrection {
+  // Positive drift means we are behind the room and need to speed up
+  const driftSec = targetPositionSec - localPositionSec;
+  const absDrift = Math.abs(driftSec);
+
+  if (absDrift <= config.toleranceSec) {
+    return { type: 'none', driftSec };
+  }
+
+  if (absDrift >= config.hardSeekThresholdSec) {
+    return { type: 'seek', driftSec, positionSec: Math.max(0, targetPositionSec) };
+  }
+
+  const desiredAdjustment = driftSec / config.catchUpSec;
+  const adjustment = Math.max(-config.maxRateAdjustment, Math.min(config.maxRateAdjustment, desiredAdjustment));
+  return { type: 'nudge', driftSec, rate: 1 + adjustment };
+}
+
+export function createDriftController(initialConfig: Partial<DriftControllerConfig> = {}) {
+  let config: DriftControllerConfig = { ...DEFAULT_DRIFT_CONFIG, ...initialConfig };
+  let currentRate = 1;
+
+  const setRate = async (player: DriftCorrectablePlayer, rate: number) => {
+    if (Math.abs(rate - currentRate) < 0.001) return;
+    await player.setRateAsync(rate, true);
+    currentRate = rate;
+  };
+
+  return {
+    getConfig: () => config,
+
+    setConfig: (partial: Partial<DriftControllerConfig>) => {
+      config = { ...config, ...partial };
+    },
+
+    getCurrentRate: () => currentRate,
+
+    // Compare the player's position with where the room says it should be
+    // and apply the smallest correction that fixes it.
+    correct: async (player: DriftCorrectablePlayer, targetPositionSec: number): Promise<DriftCorrection> => {
+      const status = await player.getStatusAsync();
+      if (!status.isLoaded) {
+        return { type: 'none', driftSec: 0 };
+      }
+
+      const localPositionSec = (status.positionMillis || 0) / 1000;
+      const correction = decideDriftCorrection(localPositionSec, targetPositionSec, config);
+
+      // A paused player cannot catch up by changing speed
+      if (correction.type === 'nudge' && !status.isPlaying) {
+        return { type: 'none', driftSec: correction.driftSec };
+      }
+
+      switch (correction.type) {
+        case 'seek':
+          await setRate(player, 1);
+          await player.setPositionAsync(correction.positionSec * 1000);
+          break;
+        case 'nudge':
+          await setRate(player, correction.rate);
+          break;
+        case 'none':
+          await setRate(player, 1);
+          break;
+      }
+
+      return correction;
+    },
+
+    // Forget the applied rate, e.g. after a new sound was loaded at 1.0
+    reset: () => {
+      currentRate = 1;
+    },
+  };
+}
+
+export type DriftController = ReturnType<typeof createDriftController>;
@@ -0,0 +1,56 @@
+// services/expoAudioBackend.ts
+
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { AudioBackend, AudioHandle, AudioStatus } from './audioBackend';
+
+// The player engine's audio backend in the app: expo-av sounds, with the audio
+// session set up to keep playing in the background and in silent mode.
+
+const toAudioStatus = (status: AVPlaybackStatus): AudioStatus => (
+  status.isLoaded
+    ? {
+      isLoaded: true,
+      isPlaying: status.isPlaying,
+      positionMillis: status.positionMillis || 0,
+      durationMillis: status.durationMillis ?? null,
+      didJustFinish: status.didJustFinish,
+    }
+    : { isLoaded: false, isPlaying: false, positionMillis: 0, durationMillis: null, didJustFinish: false }
+);
+
+function wrapSound(sound: Audio.Sound): AudioHandle {
+  return {
+    getStatusAsync: async () => toAudioStatus(await sound.getStatusAsync()),
+    playAsync: () => sound.playAsync(),
+    pauseAsync: () => sound.pauseAsync(),
+    playFromPositionAsync: (positionMillis) => sound.playFromPositionAsync(positionMillis),
+    setPositionAsync: (positionMillis) => sound.setPositionAsync(positionMillis),
+    setRateAsync: (rate, shouldCorrectPitch) => sound.setRateAsync(rate, shouldCorrectPitch),
+    setVolumeAsync: (volume) => sound.setVolumeAsync(volume),
+    setIsLoopingAsync: (isLooping) => sound.setIsLoopingAsync(isLooping),
+    stopAsync: () => sound.stopAsync(),
+    unloadAsync: () => sound.unloadAsync(),
+    setOnStatusUpdate: (listener) => {
+      sound.setOnPlaybackStatusUpdate(listener ? status => listener(toAudioStatus(status)) : null);
+    },
+  };
+}
+
+export function createExpoAudioBackend(): AudioBackend {
+  return {
+    init: async () => {
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: false,
+        staysActiveInBackground: true,
+        playsInSilentModeIOS: true,
+        shouldDuckAndroid: true,
+        playThroughEarpieceAndroid: false,
+      });
+    },
+
+    load: async (uri, options) => {
+      const { sound } = await Audio.Sound.createAsync({ uri }, options);
+      return wrapSound(sound);
+    },
+  };
+}
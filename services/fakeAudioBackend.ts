@@ -0,0 +1,150 @@
+// services/fakeAudioBackend.ts
+
+import { AudioBackend, AudioHandle, AudioLoadOptions, AudioStatus } from './audioBackend';
+
+// An in-memory audio backend for driving the player engine without a device.
+// Nothing is played: time only moves when advance() is called, at the sound's
+// playback rate, and a sound that reaches its end reports didJustFinish the way
+// expo-av does, or wraps around while looping. Loading one of `failingUris` rejects, like a broken download.
+
+export interface FakeAudioHandle extends AudioHandle {
+  uri: string;
+  rate: number;
+  volume: number;
+  isLooping: boolean;
+  unloaded: boolean;
+  advance(ms: number): void;
+}
+
+export interface FakeAudioBackend extends AudioBackend {
+  handles: FakeAudioHandle[]; // every sound loaded so far, oldest first
+  advance(ms: number): void; // moves every loaded sound forward
+}
+
+export interface FakeAudioOptions {
+  durationMillis?: number;
+  failingUris?: string[];
+}
+
+function createFakeHandle(uri: string, options: AudioLoadOptions, durationMillis: number): FakeAudioHandle {
+  let listener: ((status: AudioStatus) => void) | null = null;
+  let positionMillis = options.positionMillis;
+  let isPlaying = options.shouldPlay;
+
+  const getStatus = (didJustFinish = false): AudioStatus => (
+    handle.unloaded
+      ? { isLoaded: false, isPlaying: false, positionMillis: 0, durationMillis: null, didJustFinish: false }
+      : { isLoaded: true, isPlaying, positionMillis, durationMillis, didJustFinish }
+  );
+
+  const notify = (didJustFinish = false) => listener?.(getStatus(didJustFinish));
+
+  const ensureLoaded = () => {
+    if (handle.unloaded) throw new Error('Cannot complete operation because sound is not loaded.');
+  };
+
+  const handle: FakeAudioHandle = {
+    uri,
+    rate: 1,
+    volume: options.volume,
+    isLooping: false,
+    unloaded: false,
+
+    getStatusAsync: async () => getStatus(),
+
+    playAsync: async () => {
+      ensureLoaded();
+      isPlaying = true;
+      notify();
+    },
+
+    pauseAsync: async () => {
+      ensureLoaded();
+      isPlaying = false;
+      notify();
+    },
+
+    playFromPositionAsync: async (position) => {
+      ensureLoaded();
+      positionMillis = Math.min(durationMillis, Math.max(0, position));
+      isPlaying = true;
+      notify();
+    },
+
+    setPositionAsync: async (position) => {
+      ensureLoaded();
+      positionMillis = Math.min(durationMillis, Math.max(0, position));
+      notify();
+    },
+
+    setRateAsync: async (rate) => {
+      ensureLoaded();
+      handle.rate = rate;
+    },
+
+    setVolumeAsync: async (volume) => {
+      ensureLoaded();
+      handle.volume = volume;
+    },
+
+    setIsLoopingAsync: async (isLooping) => {
+      ensureLoaded();
+      handle.isLooping = isLooping;
+    },
+
+    stopAsync: async () => {
+      ensureLoaded();
+      isPlaying = false;
+      positionMillis = 0;
+      notify();
+    },
+
+    unloadAsync: async () => {
+      handle.unloaded = true;
+      listener = null;
+    },
+
+    setOnStatusUpdate: (nextListener) => {
+      listener = nextListener;
+    },
+
+    advance: (ms) => {
+      if (handle.unloaded || !isPlaying) return;
+
+      positionMillis = Math.min(durationMillis, positionMillis + ms * handle.rate);
+      if (positionMillis >= durationMillis && handle.isLooping) {
+        positionMillis = 0;
+        notify(true);
+      } else if (positionMillis >= durationMillis) {
+        isPlaying = false;
+        notify(true);
+      } else {
+        notify();
+      }
+    },
+  };
+
+  return handle;
+}
+
+export function createFakeAudioBackend({ durationMillis = 180 * 1000, failingUris = [] }: FakeAudioOptions = {}): FakeAudioBackend {
+  const handles: FakeAudioHandle[] = [];
+
+  return {
+    handles,
+
+    init: async () => {},
+
+    load: async (uri, options) => {
+      if (failingUris.includes(uri)) throw new Error(`Could not load ${uri}`);
+
+      const handle = createFakeHandle(uri, options, durationMillis);
+      handles.push(handle);
+      return handle;
+    },
+
+    advance: (ms) => {
+      handles.forEach(handle => handle.advance(ms));
+    },
+  };
+}
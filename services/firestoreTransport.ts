@@ -0,0 +1,145 @@
+// services/firestoreTransport.ts
+
+import { deleteField, doc, getDoc, onSnapshot, runTransaction, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { commitRoomAction } from './roomActions';
+import { DEFAULT_ROOM_PERMISSIONS, parseRoomAccess, pickNextHost } from './roomPermissions';
+import { checkRoomAccess } from './roomVisibility';
+import { SyncJoinOptions, SyncMember, SyncTransport } from './syncTransport';
+
+// Rooms live in the `rooms` collection; everyone listens to the room document.
+// Joining and leaving rewrite the member list and may hand the room on, so they
+// run in transactions: two members coming or going at once can't undo each other.
+
+async function join(roomId: string, member: SyncMember, options: SyncJoinOptions = {}) {
+  const roomRef = doc(db as any, 'rooms', roomId);
+
+  await runTransaction(db as any, async (transaction) => {
+    const roomDoc = await transaction.get(roomRef);
+
+    if (!roomDoc.exists()) {
+      // Create room with initial state
+      transaction.set(roomRef, {
+        id: roomId,
+        participants: [{
+          id: member.id,
+          email: member.email,
+          name: member.name,
+          joinedAt: Date.now(),
+        }],
+        currentTrackId: null,
+        isPlaying: false,
+        lastActionTime: serverTimestamp(),
+        lastActionSeekPosition: 0,
+        lastActionByUserId: null,
+        actionSeq: 0,
+        ownerId: member.id,
+        djIds: [],
+        permissions: options.permissions || DEFAULT_ROOM_PERMISSIONS,
+        visibility: 'public',
+        presence: {
+          [member.id]: { lastSeen: serverTimestamp(), state: 'active' },
+        },
+        lastActiveAt: serverTimestamp(),
+        createdAt: Date.now(),
+      });
+      return;
+    }
+
+    // Add user to existing room
+    const roomData = roomDoc.data();
+    const participants = [...(roomData.participants || [])];
+
+    // Private rooms need the passphrase or an allow-list entry (throws RoomAccessError)
+    checkRoomAccess(roomId, roomData, member.id, options.passphrase);
+
+    const existingIndex = participants.findIndex((p: any) => p.id === member.id);
+
+    const updates: Record<string, any> = {
+      [`presence.${member.id}`]: { lastSeen: serverTimestamp(), state: 'active' },
+      lastActiveAt: serverTimestamp(),
+    };
+
+    if (existingIndex === -1) {
+      participants.push({
+        id: member.id,
+        email: member.email,
+        name: member.name,
+        joinedAt: Date.now(),
+      });
+      updates.participants = participants;
+    } else if (member.name && participants[existingIndex].name !== member.name) {
+      // Picked up a new username since the last visit
+      participants[existingIndex] = { ...participants[existingIndex], name: member.name };
+      updates.participants = participants;
+    }
+
+    // Claim an unowned room (legacy documents or everyone left)
+    const currentOwnerPresent = participants.some((p: any) => p.id === roomData.ownerId);
+    if (!roomData.ownerId || !currentOwnerPresent) {
+      updates.ownerId = member.id;
+    }
+
+    transaction.update(roomRef, updates);
+  });
+}
+
+async function leave(roomId: string, userId: string) {
+  const roomRef = doc(db as any, 'rooms', roomId);
+
+  await runTransaction(db as any, async (transaction) => {
+    const roomDoc = await transaction.get(roomRef);
+    if (!roomDoc.exists()) return;
+
+    const roomData = roomDoc.data();
+    const participants = roomData.participants || [];
+
+    // Remove user from participants
+    const updatedParticipants = participants.filter((p: any) => p.id !== userId);
+    const access = parseRoomAccess(roomData);
+    const updates: Record<string, any> = {
+      participants: updatedParticipants,
+      djIds: access.djIds.filter(id => id !== userId),
+      [`presence.${userId}`]: deleteField(),
+    };
+
+    // Hand the room to someone else if the host is leaving
+    if (access.ownerId === userId) {
+      const nextHostId = pickNextHost(access, participants, userId);
+      updates.ownerId = nextHostId;
+      updates.djIds = updates.djIds.filter((id: string) => id !== nextHostId);
+      console.log('👑 Transferring host to:', nextHostId);
+    }
+
+    // Never delete the room, just remove the user
+    transaction.update(roomRef, updates);
+  });
+}
+
+async function updateRoom(roomId: string, changes: Record<string, any>) {
+  await updateDoc(doc(db as any, 'rooms', roomId), changes);
+}
+
+async function fetchRoom(roomId: string) {
+  const roomDoc = await getDoc(doc(db as any, 'rooms', roomId));
+  return roomDoc.exists() ? roomDoc.data() : null;
+}
+
+function subscribe(roomId: string, onRoomState: (roomData: any) => void) {
+  return onSnapshot(doc(db as any, 'rooms', roomId), (roomDoc) => {
+    if (roomDoc.exists()) onRoomState(roomDoc.data());
+  }, (error) => {
+    console.error('❌ [SYNC] Room listener error:', error);
+  });
+}
+
+export const firestoreTransport: SyncTransport = {
+  kind: 'firestore',
+  join,
+  leave,
+  publishAction: commitRoomAction,
+  updateRoom,
+  fetchRoom,
+  subscribe,
+  close: () => {},
+};
@@ -0,0 +1,101 @@
+// services/loudness.ts
+
+// Loudness normalization. A song can carry gains that bring it to a common
+// loudness (ReplayGain's -18 LUFS reference). They come from its own
+// ReplayGain or iTunNORM tags, or else from loudness.json. That file sits next
+// to the audio files and is written by scripts/analyze-loudness.js. The gain is
+// applied on top of the user's volume. Sounds can't play above full volume, so
+// quiet songs are only lifted while the volume is below the top.
+
+export type NormalizationMode = 'track' | 'album' | 'off';
+
+export interface TrackLoudness {
+  trackGainDb: number;
+  trackPeak?: number; // linear, 1 = full scale
+  albumGainDb?: number; // the same gain for every song of the album, keeping their relative levels
+  albumPeak?: number;
+}
+
+export const NORMALIZATION_MODES: NormalizationMode[] = ['track', 'album', 'off'];
+export const DEFAULT_NORMALIZATION: NormalizationMode = 'track';
+export const LOUDNESS_MANIFEST_NAME = 'loudness.json';
+
+export const NORMALIZATION_MODE_LABELS: Record<NormalizationMode, string> = {
+  track: 'Track',
+  album: 'Album',
+  off: 'Off',
+};
+
+// Linear gain for a song; album mode falls back to the track gain
+export function getLoudnessGain(loudness: TrackLoudness | null | undefined, mode: NormalizationMode): number {
+  if (!loudness || mode === 'off') return 1;
+
+  const useAlbum = mode === 'album' && loudness.albumGainDb != null;
+  const gainDb = useAlbum ? loudness.albumGainDb! : loudness.trackGainDb;
+  const peak = useAlbum ? loudness.albumPeak : loudness.trackPeak;
+  const gain = Math.pow(10, gainDb / 20);
+
+  // Never lift a song so far that its peaks would clip
+  return peak ? Math.min(gain, 1 / peak) : gain;
+}
+
+export function applyGain(volume: number, gain: number): number {
+  return Math.min(1, Math.max(0, volume * gain));
+}
+
+const toNumber = (value: string | undefined): number | undefined => {
+  const number = value != null ? parseFloat(value) : NaN;
+  return isFinite(number) ? number : undefined;
+};
+
+// The value follows within a few bytes of the name, never past the next tag's name
+const matchTag = (text: string, name: string): number | undefined => {
+  const match = text.match(new RegExp(`${name}(?:(?!REPLAYGAIN)[^0-9+.-]){0,32}([+-]?\\d+(?:\\.\\d+)?)`, 'i'));
+  return toNumber(match?.[1]);
+};
+
+// Gains from the tags in a file's raw bytes, one character per byte. Matching
+// the tag names in the text covers ID3 TXXX and COMM frames, Vorbis comments,
+// APE tags and MP4 freeform atoms alike. Null bytes are dropped first so UTF-16
+// frames read like the rest.
+export function parseLoudnessTags(bytes: string): TrackLoudness | null {
+  const text = bytes.replace(/\0/g, '');
+
+  const trackGainDb = matchTag(text, 'REPLAYGAIN_TRACK_GAIN');
+  if (trackGainDb != null) {
+    return {
+      trackGainDb,
+      trackPeak: matchTag(text, 'REPLAYGAIN_TRACK_PEAK'),
+      albumGainDb: matchTag(text, 'REPLAYGAIN_ALBUM_GAIN'),
+      albumPeak: matchTag(text, 'REPLAYGAIN_ALBUM_PEAK'),
+    };
+  }
+
+  // iTunes Sound Check: ten hex words, the first two the left and right
+  // loudness in thousandths of a reference level
+  const soundCheck = text.match(/iTunNORM[\s\S]{0,40}?((?: [0-9A-Fa-f]{8}){10})/);
+  if (soundCheck) {
+    const [left, right] = soundCheck[1].trim().split(' ').map(word => parseInt(word, 16));
+    const level = Math.max(left, right);
+    if (level > 0) return { trackGainDb: -10 * Math.log10(level / 1000) };
+  }
+
+  return null;
+}
+
+// Read loudness.json: `{ tracks: { [fileName]: TrackLoudness } }`
+export function parseLoudnessManifest(manifest: any): Record<string, TrackLoudness> {
+  const tracks: Record<string, TrackLoudness> = {};
+  Object.entries(manifest?.tracks || {}).forEach(([fileName, entry]: [string, any]) => {
+    const trackGainDb = toNumber(entry?.trackGainDb);
+    if (trackGainDb == null) return;
+
+    tracks[fileName] = {
+      trackGainDb,
+      trackPeak: toNumber(entry.trackPeak),
+      albumGainDb: toNumber(entry.albumGainDb),
+      albumPeak: toNumber(entry.albumPeak),
+    };
+  });
+  return tracks;
+}
@@ -0,0 +1,76 @@
+// services/playbackStatus.ts
+
+import { doc, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// What each member is actually hearing. Every device publishes its loaded track,
+// play state, position and last measured drift under `playbackStatus.<uid>` at a
+// low rate, and the drawer compares those reports with the room to show who is
+// in sync, who is lagging and who is paused. Drift is measured by the reporting
+// device against the room's playback anchor and is positive when it is behind.
+
+export const PLAYBACK_STATUS_INTERVAL_MS = 10 * 1000;
+export const LAGGING_DRIFT_SEC = 0.3;
+const STALE_REPORT_MS = 3 * PLAYBACK_STATUS_INTERVAL_MS;
+
+export type ParticipantSyncState = 'synced' | 'lagging' | 'paused' | 'elsewhere';
+
+export interface PlaybackStatusReport {
+  trackId: string | null;
+  trackSessionId: string | null;
+  isPlaying: boolean;
+  positionSec: number;
+  driftSec: number | null;
+}
+
+export interface ParticipantPlayback {
+  state: ParticipantSyncState;
+  driftSec: number | null;
+  positionSec: number;
+  reportedAt: number;
+}
+
+export async function publishPlaybackStatus(roomId: string, userId: string, report: PlaybackStatusReport): Promise<void> {
+  try {
+    await updateDoc(doc(db as any, 'rooms', roomId), {
+      [`playbackStatus.${userId}`]: { ...report, reportedAt: serverTimestamp() },
+    });
+  } catch (error) {
+    console.log('⚠️ Could not publish playback status:', error);
+  }
+}
+
+export function classifyPlayback(report: PlaybackStatusReport, roomData: any): ParticipantSyncState {
+  if (report.trackId !== (roomData?.currentTrackId || null) || report.trackSessionId !== (roomData?.trackSessionId || null)) {
+    return 'elsewhere';
+  }
+  if (!report.isPlaying) return 'paused';
+  if (report.driftSec !== null && Math.abs(report.driftSec) > LAGGING_DRIFT_SEC) return 'lagging';
+  return 'synced';
+}
+
+// Each member's playback as of their last report. Members who haven't reported
+// recently are left out rather than shown with old data.
+export function getParticipantPlayback(roomData: any, serverNow: number): Record<string, ParticipantPlayback> {
+  const playback: Record<string, ParticipantPlayback> = {};
+
+  Object.entries(roomData?.playbackStatus || {}).forEach(([userId, data]: [string, any]) => {
+    const reportedAt = data?.reportedAt?.toMillis ? data.reportedAt.toMillis() : 0;
+    if (!reportedAt || serverNow - reportedAt > STALE_REPORT_MS) return;
+
+    const report: PlaybackStatusReport = {
+      trackId: data.trackId || null,
+      trackSessionId: data.trackSessionId || null,
+      isPlaying: !!data.isPlaying,
+      positionSec: typeof data.positionSec === 'number' ? data.positionSec : 0,
+      driftSec: typeof data.driftSec === 'number' ? data.driftSec : null,
+    };
+    playback[userId] = {
+      state: classifyPlayback(report, roomData),
+      driftSec: report.driftSec,
+      positionSec: report.positionSec,
+      reportedAt,
+    };
+  });
+  return playback;
+}
@@ -0,0 +1,650 @@
+// services/playerEngine.ts
+
+import { AudioBackend, AudioHandle, AudioStatus } from './audioBackend';
+import { CrossfadeSettings, DEFAULT_CROSSFADE, getCrossfadeGains } from './crossfade';
+import { applyGain, DEFAULT_NORMALIZATION, getLoudnessGain, NormalizationMode, TrackLoudness } from './loudness';
+import { RepeatMode } from './roomPlayback';
+import { PlaybackAnchor } from './scheduledStart';
+
+// Local playback, independent of React and of rooms: the loaded sound, the
+// library it plays from with shuffle and repeat, and starts scheduled for an
+// instant on a given clock. Changes are pushed to listeners as events and the
+// engine reads its own state when reacting to the player, so nothing acts on a
+// stale copy. The audio library is injected (see audioBackend.ts), and so is
+// the clock, which MusicContext sets to server time for room starts.
+//
+// Every load is tied to a track key. Requesting another key drops loads still
+// in flight for the previous one, so only the latest track change ever plays.
+//
+// While the engine advances by itself it keeps the next song loaded alongside
+// the current one. Near the end it hands over to it, either gaplessly or
+// overlapping the two by the crossfade (see crossfade.ts). Repeat one loops the
+// current sound instead.
+//
+// Each sound plays at the user's volume times its song's normalization gain
+// (see loudness.ts).
+
+export interface PlayerTrack {
+  id: string;
+  title: string;
+  url: string;
+  duration: number;
+  loudness?: TrackLoudness; // stored gains; otherwise read from the file when loaded
+}
+
+export interface PlayerState<T extends PlayerTrack = PlayerTrack> {
+  currentSong: T | null;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  queue: T[];
+  volume: number;
+  isShuffleEnabled: boolean;
+  repeatMode: RepeatMode;
+  crossfade: CrossfadeSettings;
+  normalization: NormalizationMode;
+}
+
+export interface PlayerProgress {
+  currentTime: number;
+  duration: number;
+}
+
+export interface PlayerEvents<T extends PlayerTrack = PlayerTrack> {
+  trackChanged: (song: T | null) => void;
+  stateChanged: (state: PlayerState<T>) => void;
+  progress: (progress: PlayerProgress) => void;
+  ended: (song: T) => void;
+  error: (error: Error, song: T | null) => void;
+}
+
+export interface PlayerClock {
+  now(): number;
+  waitUntil(millis: number): Promise<void>;
+}
+
+export interface PlayerEngineOptions<T extends PlayerTrack = PlayerTrack> {
+  backend: AudioBackend;
+  clock?: PlayerClock;
+  // Where to play a song from, e.g. a downloaded copy; defaults to its URL
+  resolveUri?: (song: T) => Promise<string>;
+  // Called with the song likely to play after a skip, to fetch it ahead of time
+  preload?: (song: T) => void;
+  // Starting this late is still on time; anything later joins further in
+  lateStartToleranceMs?: number;
+  // Gains for a song without stored ones, from the file it plays from
+  readLoudness?: (uri: string) => Promise<TrackLoudness | null>;
+}
+
+export interface PlayerLoadOptions {
+  key?: string; // defaults to the song's own key
+  uri?: string; // skips resolveUri
+  start?: PlaybackAnchor | null; // start at this instant instead of right away
+  shouldPlay?: boolean;
+}
+
+interface PreparedSong<T> {
+  song: T;
+  handle: AudioHandle;
+}
+
+// Identifies one load of a track; room track changes add their session
+export const getTrackKey = (trackId: string | null, sessionId: string | null = null) => `${trackId}:${sessionId || ''}`;
+
+// How far ahead of the end to schedule a gapless handoff; status updates come every 500ms
+const HANDOFF_LOOKAHEAD_MS = 1000;
+const CROSSFADE_STEP_MS = 50;
+
+const systemClock: PlayerClock = {
+  now: () => Date.now(),
+  waitUntil: (millis) => new Promise(resolve => setTimeout(resolve, Math.max(0, millis - Date.now()))),
+};
+
+export class PlayerEngine<T extends PlayerTrack = PlayerTrack> {
+  private readonly backend: AudioBackend;
+  private readonly clock: PlayerClock;
+  private readonly resolveUri: (song: T) => Promise<string>;
+  private readonly preload: (song: T) => void;
+  private readonly lateStartToleranceMs: number;
+  private readonly readLoudness: (uri: string) => Promise<TrackLoudness | null>;
+
+  private state: PlayerState<T> = {
+    currentSong: null,
+    isPlaying: false,
+    currentTime: 0,
+    duration: 0,
+    queue: [],
+    volume: 1.0,
+    isShuffleEnabled: false,
+    repeatMode: 'off',
+    crossfade: DEFAULT_CROSSFADE,
+    normalization: DEFAULT_NORMALIZATION,
+  };
+  private shuffledQueue: T[] = [];
+  private handle: AudioHandle | null = null;
+  private requestedKey: string | null = null;
+  private loadedKey: string | null = null;
+  private pendingStart: object | null = null;
+  private autoAdvance = true;
+  private upNext: PreparedSong<T> | null = null;
+  private preparing: { songId: string } | null = null;
+  private pendingHandoff: { handle: AudioHandle } | null = null;
+  private fadingOut: AudioHandle | null = null;
+  private fadeTimer: ReturnType<typeof setInterval> | null = null;
+  // Gains read from the files of songs without stored ones, by song ID
+  private readLoudnessById = new Map<string, TrackLoudness | null>();
+  private listeners: Record<keyof PlayerEvents, ((...args: any[]) => void)[]> = { trackChanged: [], stateChanged: [], progress: [], ended: [], error: [] };
+
+  constructor({ backend, clock = systemClock, resolveUri, preload, lateStartToleranceMs = 0, readLoudness }: PlayerEngineOptions<T>) {
+    this.backend = backend;
+    this.clock = clock;
+    this.resolveUri = resolveUri || (async (song) => song.url);
+    this.preload = preload || (() => {});
+    this.lateStartToleranceMs = lateStartToleranceMs;
+    this.readLoudness = readLoudness || (async () => null);
+  }
+
+  async init(): Promise<void> {
+    await this.backend.init();
+  }
+
+  on<K extends keyof PlayerEvents<T>>(event: K, listener: PlayerEvents<T>[K]): () => void {
+    this.listeners[event] = [...this.listeners[event], listener];
+    return () => {
+      this.listeners[event] = this.listeners[event].filter(l => l !== listener);
+    };
+  }
+
+  getState(): PlayerState<T> {
+    return this.state;
+  }
+
+  // The track most recently asked for, which may still be loading
+  getRequestedKey(): string | null {
+    return this.requestedKey;
+  }
+
+  getLoadedKey(): string | null {
+    return this.loadedKey;
+  }
+
+  // The song the player has loaded, not one still loading
+  getLoadedTrackId(): string | null {
+    return this.loadedKey ? this.state.currentSong?.id ?? null : null;
+  }
+
+  // The loaded sound, for the drift controller
+  getPlayer(): AudioHandle | null {
+    return this.handle;
+  }
+
+  async getStatus(): Promise<AudioStatus | null> {
+    if (!this.handle) return null;
+    const status = await this.handle.getStatusAsync();
+    return status.isLoaded ? status : null;
+  }
+
+  hasPendingStart(): boolean {
+    return this.pendingStart !== null;
+  }
+
+  // Whether to move on by itself when a song ends. Rooms turn this off and
+  // decide what plays next together.
+  setAutoAdvance(enabled: boolean) {
+    if (enabled === this.autoAdvance) return;
+    this.autoAdvance = enabled;
+    if (!enabled) {
+      this.pendingHandoff = null;
+      this.finishCrossfade();
+    }
+    this.prepareNext();
+  }
+
+  setCrossfade(crossfade: CrossfadeSettings) {
+    this.updateState({ crossfade });
+  }
+
+  setQueue(queue: T[]) {
+    this.updateState({ queue });
+    this.reshuffle();
+    this.prepareNext();
+  }
+
+  addToQueue(song: T) {
+    this.setQueue([...this.state.queue, song]);
+  }
+
+  removeFromQueue(index: number) {
+    this.setQueue(this.state.queue.filter((_, i) => i !== index));
+  }
+
+  setShuffle(isShuffleEnabled: boolean) {
+    if (isShuffleEnabled === this.state.isShuffleEnabled) return;
+    this.updateState({ isShuffleEnabled });
+    this.reshuffle();
+    this.prepareNext();
+  }
+
+  setRepeatMode(repeatMode: RepeatMode) {
+    if (repeatMode === this.state.repeatMode) return;
+    this.updateState({ repeatMode });
+    this.prepareNext();
+  }
+
+  setVolume(volume: number) {
+    this.updateState({ volume });
+    this.applyVolume();
+  }
+
+  setNormalization(normalization: NormalizationMode) {
+    this.updateState({ normalization });
+    this.applyVolume();
+  }
+
+  // Songs in the order next/previous walk through
+  getPlayOrder(): T[] {
+    return this.state.isShuffleEnabled ? this.shuffledQueue : this.state.queue;
+  }
+
+  getNextSong(order: T[] = this.getPlayOrder()): T | null {
+    const { currentSong, repeatMode } = this.state;
+    if (repeatMode === 'one' && currentSong) return currentSong;
+
+    const index = order.findIndex(song => song.id === currentSong?.id);
+    if (index < order.length - 1) return order[index + 1];
+    return repeatMode === 'all' && order.length > 0 ? order[0] : null;
+  }
+
+  getPreviousSong(order: T[] = this.getPlayOrder()): T | null {
+    const { currentSong, repeatMode } = this.state;
+    if (repeatMode === 'one' && currentSong) return currentSong;
+
+    const index = order.findIndex(song => song.id === currentSong?.id);
+    if (index > 0) return order[index - 1];
+    return repeatMode === 'all' && order.length > 0 ? order[order.length - 1] : null;
+  }
+
+  // Make `key` the track we want; anything still loading for another key is dropped
+  request(key: string) {
+    this.requestedKey = key;
+    this.pendingStart = null;
+  }
+
+  // Load `song` as the requested track. Resolves false if another track was
+  // requested before it finished loading.
+  async load(song: T, { key = getTrackKey(song.id), uri, start = null, shouldPlay = true }: PlayerLoadOptions = {}): Promise<boolean> {
+    this.request(key);
+    await this.releaseSound();
+
+    // The song we got ready to play next is already loaded
+    let handle = start ? null : this.takeUpNext(song);
+    if (handle) {
+      await handle.setVolumeAsync(this.getSongVolume(song));
+      if (shouldPlay) await handle.playAsync();
+    } else {
+      const source = uri ?? await this.resolveUri(song);
+      if (this.requestedKey !== key) return false;
+
+      handle = await this.backend.load(source, {
+        shouldPlay: shouldPlay && !start,
+        volume: this.getSongVolume(song),
+        positionMillis: (start?.seekPosition || 0) * 1000,
+      });
+      this.readSongLoudness(song, source);
+    }
+    if (this.requestedKey !== key) {
+      await handle.unloadAsync();
+      return false;
+    }
+
+    this.setCurrentHandle(handle, song, key);
+
+    this.updateState({
+      currentSong: song,
+      isPlaying: shouldPlay,
+      currentTime: start?.seekPosition || 0,
+      duration: song.duration,
+    });
+    this.reshuffle();
+    this.emit('trackChanged', song);
+
+    if (start && shouldPlay) {
+      this.startAt(start);
+    }
+    this.prepareNext();
+    return true;
+  }
+
+  // Stop the current sound ahead of loading another. The current song stays
+  // in the state until the next one has loaded.
+  async stop(): Promise<void> {
+    this.pendingStart = null;
+    await this.releaseSound();
+  }
+
+  // Stop and forget the current song. The requested key is kept, so the same
+  // track isn't taken for a new one later.
+  async unload(): Promise<void> {
+    await this.stop();
+    this.preparing = null;
+    this.releaseUpNext();
+    this.updateState({ currentSong: null, isPlaying: false, currentTime: 0, duration: 0 });
+    this.emit('trackChanged', null);
+  }
+
+  async play(): Promise<boolean> {
+    if (!this.handle) return false;
+    this.pendingStart = null;
+    await this.handle.playAsync();
+    this.updateState({ isPlaying: true });
+    return true;
+  }
+
+  // Resolves the position we paused at, or null if nothing was playing or about to
+  async pause(): Promise<number | null> {
+    const startPending = this.cancelScheduledStart();
+    this.pendingHandoff = null;
+    this.finishCrossfade();
+    const status = await this.getStatus();
+    if (!this.handle || !status || !(status.isPlaying || startPending)) return null;
+
+    await this.handle.pauseAsync();
+    this.updateState({ isPlaying: false });
+    return status.positionMillis / 1000;
+  }
+
+  async seek(positionSec: number): Promise<boolean> {
+    if (!this.handle) return false;
+    this.pendingHandoff = null;
+    this.finishCrossfade();
+    await this.handle.setPositionAsync(positionSec * 1000);
+    this.updateState({ currentTime: positionSec });
+    return true;
+  }
+
+  // Start the loaded sound at `start.anchorMillis` on the engine's clock. If we
+  // only get there after that instant, join at the position reached by now.
+  async startAt(start: PlaybackAnchor): Promise<void> {
+    const handle = this.handle;
+    if (!handle) return;
+
+    const token = {};
+    this.pendingStart = token;
+    this.updateState({ isPlaying: true });
+
+    try {
+      if (start.anchorMillis > this.clock.now()) {
+        await handle.setPositionAsync(start.seekPosition * 1000);
+        await this.clock.waitUntil(start.anchorMillis);
+      }
+      if (this.pendingStart !== token || this.handle !== handle) return;
+      this.pendingStart = null;
+
+      const lateMs = this.clock.now() - start.anchorMillis;
+      if (lateMs > this.lateStartToleranceMs) {
+        const position = start.seekPosition + lateMs / 1000;
+        console.log('⏱️ [PLAYER] Missed scheduled start, joining at:', { lateMs, position });
+        await handle.playFromPositionAsync(position * 1000);
+      } else {
+        console.log('⏱️ [PLAYER] Starting on schedule:', { lateMs });
+        await handle.playAsync();
+      }
+    } catch (error: any) {
+      this.emit('error', error, this.state.currentSong);
+    }
+  }
+
+  // Call off a start that hasn't happened yet; true if there was one
+  cancelScheduledStart(): boolean {
+    const wasPending = this.pendingStart !== null;
+    this.pendingStart = null;
+    return wasPending;
+  }
+
+  async next(): Promise<void> {
+    const song = this.getNextSong();
+    if (!song) return;
+
+    await this.load(song);
+  }
+
+  async previous(): Promise<void> {
+    const song = this.getPreviousSong();
+    if (!song) return;
+
+    await this.load(song);
+    const preceding = this.getPreviousSong();
+    if (preceding && preceding.id !== song.id) this.preload(preceding);
+  }
+
+  private handleStatus(handle: AudioHandle, song: T, status: AudioStatus) {
+    if (handle !== this.handle || !status.isLoaded) return;
+
+    const progress = {
+      currentTime: status.positionMillis / 1000,
+      duration: status.durationMillis ? status.durationMillis / 1000 : 0,
+    };
+    this.state = { ...this.state, ...progress };
+    this.emit('progress', progress);
+
+    // Still playing means it looped back to the start
+    if (status.didJustFinish && status.isPlaying) return;
+
+    if (status.didJustFinish && this.autoAdvance && this.upNext) {
+      const handoff = { handle };
+      this.pendingHandoff = handoff;
+      this.handOff(handoff, 0);
+    } else if (status.didJustFinish) {
+      this.updateState({ isPlaying: false });
+      this.emit('ended', song);
+      if (this.autoAdvance) {
+        this.next().catch(error => this.emit('error', error, song));
+      }
+    } else {
+      this.watchForHandoff(handle, status);
+    }
+  }
+
+  // As the current song runs out, start the prepared one: overlapping the two
+  // by the crossfade, or right at the end
+  private watchForHandoff(handle: AudioHandle, status: AudioStatus) {
+    if (!this.autoAdvance || !this.upNext || this.pendingHandoff?.handle === handle) return;
+    if (!status.isPlaying || !status.durationMillis) return;
+
+    const remainingMs = status.durationMillis - status.positionMillis;
+    const fadeMs = Math.min(this.state.crossfade.durationSec * 1000, status.durationMillis / 2);
+    if (remainingMs > Math.max(fadeMs, HANDOFF_LOOKAHEAD_MS)) return;
+
+    const handoff = { handle };
+    this.pendingHandoff = handoff;
+    if (fadeMs > 0) {
+      this.handOff(handoff, remainingMs);
+    } else {
+      this.clock.waitUntil(this.clock.now() + remainingMs).then(() => this.handOff(handoff, 0));
+    }
+  }
+
+  // Make the prepared song current and start it, fading the outgoing one over `fadeMs`
+  private async handOff(handoff: { handle: AudioHandle }, fadeMs: number) {
+    const upNext = this.upNext;
+    const previousSong = this.state.currentSong;
+    if (this.pendingHandoff !== handoff || this.handle !== handoff.handle || !upNext || !previousSong) return;
+
+    const outgoing = handoff.handle;
+    const { song, handle } = upNext;
+    this.upNext = null;
+    this.pendingHandoff = null;
+    const key = getTrackKey(song.id);
+    this.request(key);
+    outgoing.setOnStatusUpdate(null);
+    this.setCurrentHandle(handle, song, key);
+
+    this.updateState({ currentSong: song, isPlaying: true, currentTime: 0, duration: song.duration });
+    this.reshuffle();
+    this.emit('ended', previousSong);
+    this.emit('trackChanged', song);
+
+    try {
+      await handle.setVolumeAsync(fadeMs > 0 ? 0 : this.getSongVolume(song));
+      await handle.playAsync();
+    } catch (error: any) {
+      this.emit('error', error, song);
+    }
+
+    if (fadeMs > 0 && this.handle === handle) {
+      console.log('🔀 [PLAYER] Crossfading into:', { title: song.title, fadeMs });
+      this.startCrossfade({ song: previousSong, handle: outgoing }, upNext, fadeMs);
+    } else {
+      this.releaseHandle(outgoing);
+    }
+    this.prepareNext();
+  }
+
+  private startCrossfade(outgoing: PreparedSong<T>, incoming: PreparedSong<T>, fadeMs: number) {
+    this.finishCrossfade();
+    this.fadingOut = outgoing.handle;
+
+    const startedAt = this.clock.now();
+    const step = () => {
+      const progress = (this.clock.now() - startedAt) / fadeMs;
+      const { fadeOut, fadeIn } = getCrossfadeGains(progress, this.state.crossfade.curve);
+      outgoing.handle.setVolumeAsync(this.getSongVolume(outgoing.song) * fadeOut).catch(() => {});
+      incoming.handle.setVolumeAsync(this.getSongVolume(incoming.song) * fadeIn).catch(() => {});
+      if (progress >= 1) this.finishCrossfade();
+    };
+    this.fadeTimer = setInterval(step, CROSSFADE_STEP_MS);
+    step();
+  }
+
+  // Cut a crossfade short, or tidy up after one: the outgoing song is released
+  // and the current one plays at its full volume
+  private finishCrossfade() {
+    if (this.fadeTimer) clearInterval(this.fadeTimer);
+    this.fadeTimer = null;
+
+    const outgoing = this.fadingOut;
+    if (!outgoing) return;
+    this.fadingOut = null;
+    this.releaseHandle(outgoing);
+    this.applyVolume();
+  }
+
+  // The user's volume with the song's normalization gain
+  private getSongVolume(song: T | null): number {
+    const loudness = song ? song.loudness ?? this.readLoudnessById.get(song.id) : null;
+    return applyGain(this.state.volume, getLoudnessGain(loudness, this.state.normalization));
+  }
+
+  private applyVolume() {
+    const song = this.state.currentSong;
+    if (!this.handle || this.fadingOut) return; // a running crossfade sets volumes as it goes
+    this.handle.setVolumeAsync(this.getSongVolume(song)).catch(error => this.emit('error', error, song));
+  }
+
+  // Look for loudness tags in the file of a song that has no stored gains
+  private async readSongLoudness(song: T, uri: string) {
+    if (song.loudness || this.readLoudnessById.has(song.id)) return;
+
+    const loudness = await this.readLoudness(uri);
+    this.readLoudnessById.set(song.id, loudness);
+    if (loudness) {
+      console.log('🔊 [PLAYER] Read loudness tags:', { title: song.title, ...loudness });
+      if (this.state.currentSong?.id === song.id) this.applyVolume();
+    }
+  }
+
+  // Load the song after the current one so it can start the moment it's
+  // needed, or loop the current sound for repeat one
+  private async prepareNext() {
+    const { currentSong, repeatMode } = this.state;
+    const next = this.autoAdvance && currentSong ? this.getNextSong() : null;
+
+    this.handle?.setIsLoopingAsync(this.autoAdvance && repeatMode === 'one')
+      .catch(error => this.emit('error', error, currentSong));
+
+    if (next && (next.id === this.upNext?.song.id || next.id === this.preparing?.songId)) return;
+    this.releaseUpNext();
+    this.preparing = null;
+    if (!next || next.id === currentSong?.id) return;
+
+    const preparing = { songId: next.id };
+    this.preparing = preparing;
+    try {
+      const uri = await this.resolveUri(next);
+      if (this.preparing !== preparing) return;
+
+      this.readSongLoudness(next, uri);
+      const handle = await this.backend.load(uri, { shouldPlay: false, volume: this.getSongVolume(next), positionMillis: 0 });
+      if (this.preparing !== preparing) {
+        await handle.unloadAsync();
+        return;
+      }
+
+      this.preparing = null;
+      this.upNext = { song: next, handle };
+      console.log('⏭️ [PLAYER] Next song ready:', next.title);
+    } catch (error: any) {
+      if (this.preparing === preparing) this.preparing = null;
+      console.log('⚠️ [PLAYER] Could not get the next song ready:', error);
+    }
+  }
+
+  private setCurrentHandle(handle: AudioHandle, song: T, key: string) {
+    this.handle = handle;
+    this.loadedKey = key;
+    handle.setOnStatusUpdate(status => this.handleStatus(handle, song, status));
+  }
+
+  private takeUpNext(song: T): AudioHandle | null {
+    if (this.upNext?.song.id !== song.id) return null;
+    const { handle } = this.upNext;
+    this.upNext = null;
+    return handle;
+  }
+
+  private releaseUpNext() {
+    const upNext = this.upNext;
+    this.upNext = null;
+    if (upNext) this.releaseHandle(upNext.handle);
+  }
+
+  private async releaseSound() {
+    this.pendingHandoff = null;
+    this.finishCrossfade();
+
+    const handle = this.handle;
+    if (!handle) return;
+
+    this.handle = null;
+    this.loadedKey = null;
+    await this.releaseHandle(handle);
+  }
+
+  private async releaseHandle(handle: AudioHandle) {
+    handle.setOnStatusUpdate(null);
+    try {
+      await handle.stopAsync();
+      await handle.unloadAsync();
+    } catch (error: any) {
+      console.log('⚠️ [PLAYER] Failed to unload previous song:', error);
+    }
+  }
+
+  // Shuffled order with the current song first, rebuilt whenever the song or the library changes
+  private reshuffle() {
+    const { currentSong, queue, isShuffleEnabled } = this.state;
+    if (!isShuffleEnabled || queue.length === 0) return;
+
+    const shuffled = queue.filter(song => song.id !== currentSong?.id).sort(() => Math.random() - 0.5);
+    this.shuffledQueue = currentSong ? [currentSong, ...shuffled] : shuffled;
+  }
+
+  private updateState(changes: Partial<PlayerState<T>>) {
+    this.state = { ...this.state, ...changes };
+    this.emit('stateChanged', this.state);
+  }
+
+  private emit<K extends keyof PlayerEvents<T>>(event: K, ...args: Parameters<PlayerEvents<T>[K]>) {
+    this.listeners[event].forEach(listener => listener(...args));
+  }
+}
@@ -0,0 +1,46 @@
+// services/playerSettings.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CrossfadeSettings, DEFAULT_CROSSFADE, normalizeCrossfade } from './crossfade';
+import { DEFAULT_NORMALIZATION, NORMALIZATION_MODES, NormalizationMode } from './loudness';
+
+// Playback preferences kept on this device
+
+const CROSSFADE_SETTINGS_KEY = 'crossfade_settings';
+const NORMALIZATION_MODE_KEY = 'normalization_mode';
+
+export async function loadCrossfadeSettings(): Promise<CrossfadeSettings> {
+  try {
+    const stored = await AsyncStorage.getItem(CROSSFADE_SETTINGS_KEY);
+    return stored ? normalizeCrossfade(JSON.parse(stored)) : DEFAULT_CROSSFADE;
+  } catch (error) {
+    console.error('❌ Error loading crossfade settings:', error);
+    return DEFAULT_CROSSFADE;
+  }
+}
+
+export async function saveCrossfadeSettings(settings: CrossfadeSettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(CROSSFADE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('❌ Error saving crossfade settings:', error);
+  }
+}
+
+export async function loadNormalizationMode(): Promise<NormalizationMode> {
+  try {
+    const stored = await AsyncStorage.getItem(NORMALIZATION_MODE_KEY);
+    return NORMALIZATION_MODES.find(mode => mode === stored) || DEFAULT_NORMALIZATION;
+  } catch (error) {
+    console.error('❌ Error loading normalization mode:', error);
+    return DEFAULT_NORMALIZATION;
+  }
+}
+
+export async function saveNormalizationMode(mode: NormalizationMode): Promise<void> {
+  try {
+    await AsyncStorage.setItem(NORMALIZATION_MODE_KEY, mode);
+  } catch (error) {
+    console.error('❌ Error saving normalization mode:', error);
+  }
+}
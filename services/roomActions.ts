@@ -0,0 +1,59 @@
+// services/roomActions.ts
+
+import { doc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { recordTrackChange } from './roomHistory';
+
+// Playback changes to a room (play/pause, seek, track change) are versioned
+// actions. Every action bumps `actionSeq` on the room document inside a
+// transaction, and is rejected if the room has moved past the sequence number
+// the acting device last saw. Listeners apply every action with a higher
+// sequence number than the last one they processed, whoever wrote it.
+
+export class StaleRoomActionError extends Error {
+  roomSeq: number;
+
+  constructor(roomSeq: number) {
+    super('Room changed before this action was applied');
+    this.name = 'StaleRoomActionError';
+    this.roomSeq = roomSeq;
+  }
+}
+
+export function getActionSeq(roomData: any): number {
+  return typeof roomData?.actionSeq === 'number' ? roomData.actionSeq : 0;
+}
+
+// Fields every action writes alongside its own changes
+export function buildActionFields(roomData: any, userId: string): Record<string, any> {
+  return {
+    actionSeq: getActionSeq(roomData) + 1,
+    lastActionTime: serverTimestamp(),
+    lastActionByUserId: userId,
+  };
+}
+
+// Apply `changes` as the next action if the room is still at `baseSeq`.
+// Resolves the new sequence number; throws StaleRoomActionError otherwise.
+export async function commitRoomAction(
+  roomId: string,
+  userId: string,
+  baseSeq: number,
+  changes: Record<string, any>
+): Promise<number> {
+  const roomRef = doc(db as any, 'rooms', roomId);
+
+  return runTransaction(db as any, async (transaction) => {
+    const roomDoc = await transaction.get(roomRef);
+    if (!roomDoc.exists()) throw new Error('Room no longer exists');
+
+    const roomData = roomDoc.data();
+    const roomSeq = getActionSeq(roomData);
+    if (roomSeq > baseSeq) throw new StaleRoomActionError(roomSeq);
+
+    const updates = { ...changes, ...buildActionFields(roomData, userId) };
+    await recordTrackChange(transaction, roomId, roomData, updates);
+    transaction.update(roomRef, updates);
+    return updates.actionSeq;
+  });
+}
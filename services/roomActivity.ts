@@ -0,0 +1,125 @@
+// services/roomActivity.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { parseRoomQueue } from './roomQueue';
+
+// Room activity worth telling people about, found by comparing consecutive
+// snapshots of the room document. Shown in-app as a banner, or as a local
+// notification while the app is in the background. Each room can be muted.
+
+export type RoomActivityType = 'join' | 'trackStart' | 'queueChange';
+
+export interface RoomActivityEvent {
+  type: RoomActivityType;
+  actorId: string;
+  message: string;
+  trackId?: string;
+}
+
+const ROOM_ACTIVITY_CHANNEL_ID = 'room-activity';
+const MUTED_ROOMS_KEY = 'muted_rooms';
+
+const displayName = (roomData: any, userId: string | null) => {
+  const participant = (roomData?.participants || []).find((p: any) => p.id === userId);
+  // Never part of an email address: notifications show on the lock screen
+  return participant?.name || 'Someone';
+};
+
+// Events in `next` that were not in `prev`, skipping anything `selfId` did
+export function detectRoomActivity(
+  prev: any,
+  next: any,
+  selfId: string,
+  getSongTitle: (songId: string) => string | null
+): RoomActivityEvent[] {
+  if (!prev || !next) return [];
+  const events: RoomActivityEvent[] = [];
+
+  // Someone joined
+  const previousIds = new Set((prev.participants || []).map((p: any) => p.id));
+  (next.participants || [])
+    .filter((p: any) => p.id !== selfId && !previousIds.has(p.id))
+    .forEach((p: any) => {
+      events.push({ type: 'join', actorId: p.id, message: `${displayName(next, p.id)} joined the room` });
+    });
+
+  // Someone started a track
+  const trackChanged = next.currentTrackId && (
+    next.currentTrackId !== prev.currentTrackId ||
+    (next.trackSessionId && next.trackSessionId !== prev.trackSessionId)
+  );
+  if (trackChanged && next.lastActionByUserId && next.lastActionByUserId !== selfId) {
+    const title = getSongTitle(next.currentTrackId);
+    events.push({
+      type: 'trackStart',
+      actorId: next.lastActionByUserId,
+      message: `${displayName(next, next.lastActionByUserId)} started ${title ? `"${title}"` : 'a new song'}`,
+      trackId: next.currentTrackId,
+    });
+  }
+
+  // The host changed up next (entries popped by a track change don't count)
+  const queueChanged = JSON.stringify(parseRoomQueue(prev)) !== JSON.stringify(parseRoomQueue(next));
+  if (!trackChanged && queueChanged && next.upNextUpdatedBy && next.upNextUpdatedBy !== selfId && next.upNextUpdatedBy === next.ownerId) {
+    const previousEntryIds = new Set(parseRoomQueue(prev).map(entry => entry.entryId));
+    const added = parseRoomQueue(next).filter(entry => !previousEntryIds.has(entry.entryId));
+    const host = displayName(next, next.ownerId);
+    events.push({
+      type: 'queueChange',
+      actorId: next.ownerId,
+      message: added.length === 1 ? `${host} added "${added[0].title}" to up next` : `${host} updated up next`,
+    });
+  }
+
+  return events;
+}
+
+export async function loadMutedRooms(): Promise<Record<string, boolean>> {
+  try {
+    const stored = await AsyncStorage.getItem(MUTED_ROOMS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('❌ Error loading muted rooms:', error);
+    return {};
+  }
+}
+
+export async function saveMutedRooms(mutedRooms: Record<string, boolean>): Promise<void> {
+  try {
+    await AsyncStorage.setItem(MUTED_ROOMS_KEY, JSON.stringify(mutedRooms));
+  } catch (error) {
+    console.error('❌ Error saving muted rooms:', error);
+  }
+}
+
+async function ensureRoomActivityChannel() {
+  if (Platform.OS !== 'android') return;
+
+  await Notifications.setNotificationChannelAsync(ROOM_ACTIVITY_CHANNEL_ID, {
+    name: 'Room Activity',
+    importance: Notifications.AndroidImportance.DEFAULT,
+    showBadge: false,
+  });
+}
+
+// Local notification for when the app is in the background
+export async function presentRoomActivityNotification(roomId: string, event: RoomActivityEvent): Promise<void> {
+  try {
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') return;
+
+    await ensureRoomActivityChannel();
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: `Room ${roomId}`,
+        body: event.message,
+        data: { roomId, type: event.type, trackId: event.trackId },
+      },
+      trigger: Platform.OS === 'android' ? { channelId: ROOM_ACTIVITY_CHANNEL_ID } : null,
+    });
+  } catch (error) {
+    console.error('❌ Error showing room activity notification:', error);
+  }
+}
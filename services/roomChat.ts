@@ -0,0 +1,118 @@
+// services/roomChat.ts
+
+import {
+  addDoc,
+  collection,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  QueryDocumentSnapshot,
+  serverTimestamp,
+  startAfter,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// Room chat lives in `rooms/{id}/messages`. A message can be pinned to the song
+// and position that was playing when it was sent.
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+
+export interface RoomChatMessage {
+  id: string;
+  userId: string;
+  userName: string;
+  text: string;
+  createdAt: number;
+  trackId?: string;
+  trackTitle?: string;
+  trackPosition?: number; // seconds into the track
+}
+
+export interface NewRoomChatMessage {
+  userId: string;
+  userName: string;
+  text: string;
+  trackId?: string;
+  trackTitle?: string;
+  trackPosition?: number;
+}
+
+export interface RoomChatPage {
+  messages: RoomChatMessage[]; // newest first
+  cursor: QueryDocumentSnapshot | null; // oldest document in the page
+  hasMore: boolean;
+}
+
+const messagesRef = (roomId: string) => collection(db as any, 'rooms', roomId, 'messages');
+
+function toChatMessage(snapshot: QueryDocumentSnapshot): RoomChatMessage {
+  // Estimate pending server timestamps so our own messages show up immediately
+  const data = snapshot.data({ serverTimestamps: 'estimate' });
+  return {
+    id: snapshot.id,
+    userId: data.userId,
+    userName: data.userName,
+    text: data.text,
+    createdAt: data.createdAt?.toMillis ? data.createdAt.toMillis() : Date.now(),
+    trackId: data.trackId || undefined,
+    trackTitle: data.trackTitle || undefined,
+    trackPosition: typeof data.trackPosition === 'number' ? data.trackPosition : undefined,
+  };
+}
+
+function toPage(docs: QueryDocumentSnapshot[], pageSize: number): RoomChatPage {
+  return {
+    messages: docs.map(toChatMessage),
+    cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+    hasMore: docs.length >= pageSize,
+  };
+}
+
+export async function sendRoomMessage(roomId: string, message: NewRoomChatMessage): Promise<void> {
+  const text = message.text.trim();
+  if (!text) return;
+  if (text.length > MAX_CHAT_MESSAGE_LENGTH) {
+    throw new Error(`Messages can be at most ${MAX_CHAT_MESSAGE_LENGTH} characters`);
+  }
+
+  try {
+    const data: Record<string, any> = {
+      userId: message.userId,
+      userName: message.userName,
+      text,
+      createdAt: serverTimestamp(),
+    };
+    if (message.trackId) {
+      data.trackId = message.trackId;
+      data.trackTitle = message.trackTitle || null;
+      data.trackPosition = Math.floor(message.trackPosition || 0);
+    }
+    await addDoc(messagesRef(roomId), data);
+  } catch (error) {
+    console.error('❌ Error sending chat message:', error);
+    throw new Error('Failed to send message');
+  }
+}
+
+// Live view of the newest `pageSize` messages
+export function subscribeToRecentMessages(
+  roomId: string,
+  pageSize: number,
+  onChange: (page: RoomChatPage) => void
+): () => void {
+  const recentQuery = query(messagesRef(roomId), orderBy('createdAt', 'desc'), limit(pageSize));
+  return onSnapshot(recentQuery, (snapshot) => {
+    onChange(toPage(snapshot.docs, pageSize));
+  }, (error) => {
+    console.error('❌ Error listening to chat:', error);
+  });
+}
+
+// One page of history older than `cursor`
+export async function fetchOlderMessages(roomId: string, cursor: QueryDocumentSnapshot, pageSize: number): Promise<RoomChatPage> {
+  const olderQuery = query(messagesRef(roomId), orderBy('createdAt', 'desc'), startAfter(cursor), limit(pageSize));
+  const snapshot = await getDocs(olderQuery);
+  return toPage(snapshot.docs, pageSize);
+}
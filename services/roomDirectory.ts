@@ -0,0 +1,73 @@
+// services/roomDirectory.ts
+
+import { collection, limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { getPresenceStatuses } from './roomPresence';
+import { parseRoomTrackInfo } from './roomTracks';
+import { getRoomVisibility } from './roomVisibility';
+
+// Public rooms for the room browser. Rooms stamp `lastActiveAt` on every join
+// and presence heartbeat, so listening to the most recently active rooms finds
+// everything with people in it; visibility and who is online are filtered here.
+
+export const ROOM_DIRECTORY_LIMIT = 50;
+
+export type RoomSortOrder = 'listeners' | 'recent';
+
+export interface RoomSummary {
+  id: string;
+  onlineCount: number;
+  hostName: string | null;
+  currentTrackId: string | null;
+  currentTrackTitle: string | null;
+  currentTrackArtist: string | null;
+  isPlaying: boolean;
+  lastActiveAt: number;
+}
+
+const millis = (timestamp: any) => (timestamp?.toMillis ? timestamp.toMillis() : 0);
+
+export function summarizeRoom(roomData: any, serverNow: number): RoomSummary {
+  const statuses = getPresenceStatuses(roomData, serverNow);
+  const host = (roomData.participants || []).find((p: any) => p.id === roomData.ownerId);
+  const track = parseRoomTrackInfo(roomData);
+
+  return {
+    id: roomData.id,
+    onlineCount: Object.values(statuses).filter(status => status !== 'offline').length,
+    hostName: host?.name || null,
+    currentTrackId: roomData.currentTrackId || null,
+    currentTrackTitle: track?.title || null,
+    currentTrackArtist: track?.artist || null,
+    isPlaying: !!roomData.isPlaying,
+    lastActiveAt: Math.max(millis(roomData.lastActiveAt), millis(roomData.lastActionTime)),
+  };
+}
+
+// Listed rooms with at least one member online, in the requested order
+export function listActiveRooms(rooms: any[], serverNow: number, order: RoomSortOrder): RoomSummary[] {
+  return rooms
+    .filter(roomData => getRoomVisibility(roomData) === 'public')
+    .map(roomData => summarizeRoom(roomData, serverNow))
+    .filter(room => room.onlineCount > 0)
+    .sort((a, b) => (
+      order === 'listeners' && b.onlineCount !== a.onlineCount
+        ? b.onlineCount - a.onlineCount
+        : b.lastActiveAt - a.lastActiveAt
+    ));
+}
+
+// Live room documents, most recently active first
+export function subscribeToRecentRooms(onRooms: (rooms: any[]) => void): () => void {
+  const roomsQuery = query(
+    collection(db as any, 'rooms'),
+    orderBy('lastActiveAt', 'desc'),
+    limit(ROOM_DIRECTORY_LIMIT)
+  );
+
+  return onSnapshot(roomsQuery, (snapshot) => {
+    onRooms(snapshot.docs.map(roomDoc => ({ ...roomDoc.data(), id: roomDoc.id })));
+  }, (error) => {
+    console.error('❌ Error listening to rooms:', error);
+  });
+}
@@ -0,0 +1,157 @@
+// services/roomHistory.ts
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  Transaction,
+  updateDoc,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// What a room played: one document per track session in rooms/{id}/history,
+// keyed by trackSessionId. The entry is written in the same transaction that
+// commits the track change, which also closes the previous entry, so history
+// always matches what the room actually played.
+
+export const HISTORY_LIMIT = 200;
+export const SESSION_GAP_MS = 30 * 60 * 1000; // silence this long starts a new listening session
+
+export interface HistoryReaction {
+  userName: string;
+  timestamp: number;
+  mood?: string;
+}
+
+export interface RoomHistoryEntry {
+  id: string; // trackSessionId
+  trackId: string;
+  title: string;
+  artist: string;
+  startedBy: string | null;
+  startedByName: string;
+  startedAt: number;
+  endedAt: number | null;
+  likes: Record<string, HistoryReaction>;
+  moods: Record<string, HistoryReaction>;
+}
+
+export interface ListeningSession {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  entries: RoomHistoryEntry[]; // in play order
+}
+
+const historyCollection = (roomId: string) => collection(db as any, 'rooms', roomId, 'history');
+const millis = (timestamp: any) => (timestamp?.toMillis ? timestamp.toMillis() : Date.now());
+
+// Append the track change in `updates` to the room's history and close the
+// previous entry. Reads first, so call it before the transaction's other writes.
+export async function recordTrackChange(
+  transaction: Transaction,
+  roomId: string,
+  roomData: any,
+  updates: Record<string, any>
+): Promise<void> {
+  const trackSessionId = updates.trackSessionId;
+  if (!trackSessionId || trackSessionId === roomData.trackSessionId) return;
+
+  const previousRef = roomData.trackSessionId ? doc(historyCollection(roomId), roomData.trackSessionId) : null;
+  const previousDoc = previousRef ? await transaction.get(previousRef) : null;
+
+  const startedBy = updates.lastActionByUserId || null;
+  const starter = (roomData.participants || []).find((p: any) => p.id === startedBy);
+  const track = updates.currentTrack;
+
+  if (previousRef && previousDoc?.exists()) {
+    transaction.update(previousRef, { endedAt: serverTimestamp() });
+  }
+  transaction.set(doc(historyCollection(roomId), trackSessionId), {
+    trackId: updates.currentTrackId,
+    title: track?.title || updates.currentTrackId,
+    artist: track?.artist || 'Unknown Artist',
+    startedBy,
+    startedByName: starter?.name || starter?.email?.split('@')[0] || 'Unknown',
+    startedAt: serverTimestamp(),
+    endedAt: null,
+    likes: {},
+    moods: {},
+  });
+}
+
+// Likes and moods are also kept on the history entry of the track they were given to
+export async function recordHistoryReaction(
+  roomId: string,
+  trackSessionId: string,
+  kind: 'likes' | 'moods',
+  userId: string,
+  reaction: HistoryReaction
+): Promise<void> {
+  try {
+    await updateDoc(doc(historyCollection(roomId), trackSessionId), { [`${kind}.${userId}`]: reaction });
+  } catch (error) {
+    // Sessions from before history was recorded have no entry
+    console.log('⚠️ Could not add reaction to history:', error);
+  }
+}
+
+export async function fetchRoomHistory(roomId: string): Promise<RoomHistoryEntry[]> {
+  const snapshot = await getDocs(query(historyCollection(roomId), orderBy('startedAt', 'desc'), limit(HISTORY_LIMIT)));
+
+  return snapshot.docs.map(entryDoc => {
+    const data = entryDoc.data();
+    return {
+      id: entryDoc.id,
+      trackId: data.trackId,
+      title: data.title,
+      artist: data.artist,
+      startedBy: data.startedBy || null,
+      startedByName: data.startedByName || 'Unknown',
+      startedAt: millis(data.startedAt),
+      endedAt: data.endedAt ? millis(data.endedAt) : null,
+      likes: data.likes || {},
+      moods: data.moods || {},
+    };
+  });
+}
+
+// Split history into listening sessions, newest session first
+export function groupListeningSessions(entries: RoomHistoryEntry[]): ListeningSession[] {
+  const chronological = [...entries].sort((a, b) => a.startedAt - b.startedAt);
+  const sessions: ListeningSession[] = [];
+
+  chronological.forEach(entry => {
+    const current = sessions[sessions.length - 1];
+    if (current && entry.startedAt - current.endedAt <= SESSION_GAP_MS) {
+      current.entries.push(entry);
+      current.endedAt = entry.endedAt || entry.startedAt;
+    } else {
+      sessions.push({
+        id: entry.id,
+        startedAt: entry.startedAt,
+        endedAt: entry.endedAt || entry.startedAt,
+        entries: [entry],
+      });
+    }
+  });
+
+  return sessions.reverse();
+}
+
+// Save a session's tracks, in play order and without repeats, as a shared playlist
+export async function saveSessionAsPlaylist(session: ListeningSession, name: string, createdBy: string): Promise<string> {
+  const songIds = Array.from(new Set(session.entries.map(entry => entry.trackId)));
+  const playlistRef = await addDoc(collection(db as any, 'playlists'), {
+    name,
+    createdBy,
+    createdAt: new Date(),
+    songIds,
+  });
+  return playlistRef.id;
+}
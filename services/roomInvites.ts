@@ -0,0 +1,23 @@
+// services/roomInvites.ts
+
+import * as Linking from 'expo-linking';
+import { Share } from 'react-native';
+
+// Invite links use the app scheme from app.json, e.g. sunulu://room/<id>.
+// expo-router maps that path to app/room/[id], the join confirmation screen.
+export function getRoomInviteUrl(roomId: string): string {
+  return Linking.createURL(`room/${encodeURIComponent(roomId)}`);
+}
+
+export async function shareRoomInvite(roomId: string): Promise<void> {
+  const url = getRoomInviteUrl(roomId);
+  try {
+    await Share.share({
+      message: `Join my listening room on Sunulu: ${url}`,
+      url,
+    });
+  } catch (error) {
+    console.error('❌ Error sharing room invite:', error);
+    throw new Error('Failed to share invite');
+  }
+}
@@ -0,0 +1,158 @@
+// services/roomOutbox.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StaleRoomActionError } from './roomActions';
+
+// Room actions that couldn't be sent yet, e.g. while the network is down. Each
+// entry keeps the action's changes and the actionSeq it was based on, and is
+// persisted per room so it survives an app restart. Entries are replayed in
+// order with exponential backoff; the room's own stale-action check tells us
+// when someone else acted in the meantime, and superseded entries are dropped.
+// Errors no retry can fix (the room is gone, we may not write to it) drop the
+// entry rather than keep it waiting.
+
+export interface OutboxEntry {
+  id: string;
+  roomId: string;
+  label: string;
+  changes: Record<string, any>;
+  baseSeq: number;
+  // Server time at which playback was at `changes.lastActionSeekPosition`,
+  // when the action left the room playing; null when it left it paused
+  anchorMillis: number | null;
+  createdAt: number;
+  attempts: number;
+}
+
+export interface OutboxFlushResult {
+  remaining: OutboxEntry[];
+  committedSeq: number | null;
+  discarded: OutboxEntry[];
+}
+
+export const OUTBOX_MAX_AGE_MS = 10 * 60 * 1000; // older actions are no longer worth replaying
+const OUTBOX_KEY_PREFIX = 'room_outbox:';
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30 * 1000;
+
+export function createOutboxEntry(
+  roomId: string,
+  label: string,
+  changes: Record<string, any>,
+  baseSeq: number,
+  anchorMillis: number | null
+): OutboxEntry {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    roomId,
+    label,
+    changes,
+    baseSeq,
+    anchorMillis,
+    createdAt: Date.now(),
+    attempts: 0,
+  };
+}
+
+// Queue `entry` behind the pending ones. A pending action whose fields the new
+// one writes as well (a seek followed by another seek, anything followed by a
+// track change) would be overwritten anyway, so it is dropped.
+export function enqueueOutboxEntry(entries: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] {
+  const fields = Object.keys(entry.changes);
+  const kept = entries.filter(pending => (
+    pending.roomId !== entry.roomId || !Object.keys(pending.changes).every(field => fields.includes(field))
+  ));
+  return [...kept, entry];
+}
+
+// The changes to send for a late replay. A playing action that is sent after
+// its start time carries the position playback has reached by now instead.
+export function prepareReplay(entry: OutboxEntry, serverNow: number): Record<string, any> {
+  if (entry.anchorMillis === null || entry.anchorMillis >= serverNow) return entry.changes;
+
+  const elapsedSec = (serverNow - entry.anchorMillis) / 1000;
+  return {
+    ...entry.changes,
+    lastActionSeekPosition: (entry.changes.lastActionSeekPosition || 0) + elapsedSec,
+    scheduledStartAt: null,
+  };
+}
+
+export function isPermanentRoomError(error: any): boolean {
+  return error?.code === 'permission-denied' || error?.code === 'not-found' || error?.message === 'Room no longer exists';
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+// Send pending entries in order until one fails to go through. Entries queued
+// behind one that commits are rebased on it, since they came after it; entries
+// the room has moved past are discarded.
+export async function flushOutbox(
+  entries: OutboxEntry[],
+  publish: (entry: OutboxEntry, baseSeq: number, changes: Record<string, any>) => Promise<number>,
+  serverNow: number
+): Promise<OutboxFlushResult> {
+  const discarded: OutboxEntry[] = [];
+  let committedSeq: number | null = null;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = committedSeq === null ? entries[i] : { ...entries[i], baseSeq: committedSeq };
+
+    if (Date.now() - entry.createdAt > OUTBOX_MAX_AGE_MS) {
+      discarded.push(entry);
+      continue;
+    }
+
+    try {
+      committedSeq = await publish(entry, entry.baseSeq, prepareReplay(entry, serverNow));
+    } catch (error) {
+      if (error instanceof StaleRoomActionError || isPermanentRoomError(error)) {
+        discarded.push(entry);
+        continue;
+      }
+
+      const rest = entries.slice(i + 1).map(pending => (committedSeq === null ? pending : { ...pending, baseSeq: committedSeq }));
+      return { remaining: [{ ...entry, attempts: entry.attempts + 1 }, ...rest], committedSeq, discarded };
+    }
+  }
+
+  return { remaining: [], committedSeq, discarded };
+}
+
+// The outbox after a flush of `flushed`, given `current`, the outbox as it is
+// now. Entries queued during the flush go after what is left, rebased on what
+// the flush committed; flushed entries they superseded stay dropped.
+export function mergeFlushResult(flushed: OutboxEntry[], result: OutboxFlushResult, current: OutboxEntry[]): OutboxEntry[] {
+  const flushedIds = new Set(flushed.map(entry => entry.id));
+  const currentIds = new Set(current.map(entry => entry.id));
+  const remaining = result.remaining.filter(entry => currentIds.has(entry.id));
+  const queuedMeanwhile = current
+    .filter(entry => !flushedIds.has(entry.id))
+    .map(entry => (result.committedSeq === null ? entry : { ...entry, baseSeq: Math.max(entry.baseSeq, result.committedSeq) }));
+  return [...remaining, ...queuedMeanwhile];
+}
+
+export async function loadOutbox(roomId: string): Promise<OutboxEntry[]> {
+  try {
+    const stored = await AsyncStorage.getItem(`${OUTBOX_KEY_PREFIX}${roomId}`);
+    const entries: OutboxEntry[] = stored ? JSON.parse(stored) : [];
+    return entries.filter(entry => Date.now() - entry.createdAt <= OUTBOX_MAX_AGE_MS);
+  } catch (error) {
+    console.error('❌ Error loading room outbox:', error);
+    return [];
+  }
+}
+
+export async function saveOutbox(roomId: string, entries: OutboxEntry[]): Promise<void> {
+  try {
+    if (entries.length === 0) {
+      await AsyncStorage.removeItem(`${OUTBOX_KEY_PREFIX}${roomId}`);
+    } else {
+      await AsyncStorage.setItem(`${OUTBOX_KEY_PREFIX}${roomId}`, JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.error('❌ Error saving room outbox:', error);
+  }
+}
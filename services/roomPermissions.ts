@@ -0,0 +1,88 @@
+// services/roomPermissions.ts
+
+// Roles and the per-room permission policy for listening parties.
+// Every room has one host (ownerId), optional co-DJs (djIds) and listeners.
+// The policy says which of those may perform each playback action.
+
+export type RoomRole = 'host' | 'dj' | 'listener';
+
+export type RoomAction = 'changeTrack' | 'skip' | 'seek' | 'pause' | 'editQueue';
+
+// Lowest role allowed to perform an action
+export type PermissionLevel = 'everyone' | 'dj' | 'host';
+
+export type RoomPermissionPolicy = Record<RoomAction, PermissionLevel>;
+
+export interface RoomAccessInfo {
+  ownerId: string | null;
+  djIds: string[];
+  permissions: RoomPermissionPolicy;
+}
+
+interface RoomMember {
+  id: string;
+  joinedAt: number;
+}
+
+// New party rooms: host and co-DJs drive, listeners listen
+export const DEFAULT_ROOM_PERMISSIONS: RoomPermissionPolicy = {
+  changeTrack: 'dj',
+  skip: 'dj',
+  seek: 'dj',
+  pause: 'dj',
+  editQueue: 'dj',
+};
+
+// Shared lobby and rooms created before roles existed: anyone may do anything
+export const OPEN_ROOM_PERMISSIONS: RoomPermissionPolicy = {
+  changeTrack: 'everyone',
+  skip: 'everyone',
+  seek: 'everyone',
+  pause: 'everyone',
+  editQueue: 'everyone',
+};
+
+const ROLE_RANK: Record<RoomRole, number> = {
+  listener: 0,
+  dj: 1,
+  host: 2,
+};
+
+const LEVEL_RANK: Record<PermissionLevel, number> = {
+  everyone: 0,
+  dj: 1,
+  host: 2,
+};
+
+// Read role information from a room document, tolerating legacy documents
+export function parseRoomAccess(roomData: any): RoomAccessInfo {
+  return {
+    ownerId: roomData?.ownerId ?? null,
+    djIds: Array.isArray(roomData?.djIds) ? roomData.djIds : [],
+    permissions: { ...OPEN_ROOM_PERMISSIONS, ...(roomData?.permissions || {}) },
+  };
+}
+
+export function getRoomRole(access: RoomAccessInfo, userId: string): RoomRole {
+  if (access.ownerId === userId) return 'host';
+  if (access.djIds.includes(userId)) return 'dj';
+  return 'listener';
+}
+
+export function canPerformRoomAction(access: RoomAccessInfo, userId: string, action: RoomAction): boolean {
+  const role = getRoomRole(access, userId);
+  return ROLE_RANK[role] >= LEVEL_RANK[access.permissions[action]];
+}
+
+// Choose who takes over when the host leaves: the longest-present co-DJ,
+// otherwise the longest-present listener. Returns null for an empty room.
+export function pickNextHost(access: RoomAccessInfo, participants: RoomMember[], leavingUserId: string): string | null {
+  const remaining = participants
+    .filter(p => p.id !== leavingUserId)
+    .sort((a, b) => (a.joinedAt || 0) - (b.joinedAt || 0));
+
+  const nextDj = remaining.find(p => access.djIds.includes(p.id));
+  if (nextDj) return nextDj.id;
+
+  return remaining[0]?.id ?? null;
+}
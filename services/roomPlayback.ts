@@ -0,0 +1,179 @@
+// services/roomPlayback.ts
+
+import { getActionSeq, StaleRoomActionError } from './roomActions';
+import { parseRoomQueue } from './roomQueue';
+import { buildPlaybackStart } from './roomReadiness';
+import { buildRoomTrackInfo, RoomTrackInfo } from './roomTracks';
+import { SyncTransport } from './syncTransport';
+
+// Room-wide track advancement. Shuffle and repeat live on the room document so
+// every device computes the same order, and each track change gets a fresh
+// trackSessionId. Advancing is a compare-and-set on (currentTrackId, trackSessionId),
+// committed as a versioned action through the room's sync transport: when a song
+// ends on several devices at once only the first commit wins and everyone else
+// follows it through the room snapshot.
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface RoomPlaybackMode {
+  shuffleEnabled: boolean;
+  shuffleSeed: number;
+  repeatMode: RepeatMode;
+}
+
+export interface RoomTrackAdvance {
+  trackId: string;
+  track: RoomTrackInfo;
+  trackSessionId: string;
+  fromUpNext: boolean;
+  actionSeq: number;
+  scheduledStartAt: number | null; // server time every device starts the track; null while the room waits on a ready check
+}
+
+export function parseRoomPlaybackMode(roomData: any): RoomPlaybackMode {
+  return {
+    shuffleEnabled: !!roomData?.shuffleEnabled,
+    shuffleSeed: typeof roomData?.shuffleSeed === 'number' ? roomData.shuffleSeed : 0,
+    repeatMode: roomData?.repeatMode || 'off',
+  };
+}
+
+export function createShuffleSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff);
+}
+
+export function createTrackSessionId(userId: string): string {
+  return `${Date.now().toString(36)}-${userId.slice(0, 6)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// mulberry32: small deterministic PRNG so all devices shuffle identically
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Play order for the room. Sorting first makes it independent of each
+// device's library listing order.
+export function getRoomPlayOrder(songIds: string[], mode: RoomPlaybackMode): string[] {
+  const order = Array.from(new Set(songIds)).sort();
+  if (!mode.shuffleEnabled) return order;
+
+  const random = seededRandom(mode.shuffleSeed);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+export function pickNextTrackId(order: string[], currentTrackId: string | null, repeatMode: RepeatMode): string | null {
+  if (order.length === 0) return null;
+  if (repeatMode === 'one' && currentTrackId) return currentTrackId;
+
+  const currentIndex = currentTrackId ? order.indexOf(currentTrackId) : -1;
+  if (currentIndex < order.length - 1) return order[currentIndex + 1];
+  return repeatMode === 'all' ? order[0] : null;
+}
+
+// Room document fields that move the room on from its current track, or null when
+// there is nothing left to play. Shared by automatic advances and vote skips; the
+// caller commits them as the next action.
+export function buildRoomAdvance(
+  roomData: any,
+  library: RoomTrackInfo[],
+  userId: string
+): { updates: Record<string, any>; advance: RoomTrackAdvance } | null {
+  const mode = parseRoomPlaybackMode(roomData);
+  const currentTrackId = roomData.currentTrackId || null;
+  const librarySongIds = library.map(song => song.id);
+  const updates: Record<string, any> = {};
+  let nextTrack: RoomTrackInfo | null = null;
+  let fromUpNext = false;
+
+  // Repeat one wins over up next; otherwise the shared queue comes first
+  if (mode.repeatMode !== 'one') {
+    const upNext = parseRoomQueue(roomData);
+    // Songs outside this device's library are fine as long as others can fetch them
+    const entryIndex = upNext.findIndex(entry => librarySongIds.includes(entry.songId) || !!entry.storagePath);
+    if (entryIndex !== -1) {
+      const entry = upNext[entryIndex];
+      nextTrack = library.find(song => song.id === entry.songId) || {
+        id: entry.songId,
+        title: entry.title,
+        artist: entry.artist,
+        storagePath: entry.storagePath,
+        albumArt: entry.albumArt,
+      };
+      fromUpNext = true;
+      // Entries nobody can resolve are dropped along the way
+      updates.upNext = upNext.slice(entryIndex + 1);
+    }
+  }
+
+  if (!nextTrack) {
+    const nextTrackId = pickNextTrackId(getRoomPlayOrder(librarySongIds, mode), currentTrackId, mode.repeatMode);
+    nextTrack = library.find(song => song.id === nextTrackId) || null;
+    // Repeat one can replay a track this device only knows from the room
+    if (!nextTrack && nextTrackId && roomData.currentTrack?.id === nextTrackId) {
+      nextTrack = roomData.currentTrack;
+    }
+  }
+  if (!nextTrack) return null;
+
+  const trackSessionId = createTrackSessionId(userId);
+  const start = buildPlaybackStart(roomData, trackSessionId, 0);
+  return {
+    updates: {
+      ...updates,
+      currentTrackId: nextTrack.id,
+      currentTrack: buildRoomTrackInfo(nextTrack),
+      trackSessionId,
+      ...start,
+    },
+    advance: {
+      trackId: nextTrack.id,
+      track: buildRoomTrackInfo(nextTrack),
+      trackSessionId,
+      fromUpNext,
+      actionSeq: getActionSeq(roomData) + 1,
+      scheduledStartAt: start.scheduledStartAt,
+    },
+  };
+}
+
+// Commit the next track for the room if it is still playing `expectedTrackId`
+// in session `expectedSessionId`. Resolves null when another device got there first
+// or there is nothing left to play. An unrelated action landing in between
+// (a pause, a seek) only means reading the room again.
+export async function advanceRoomTrack(
+  transport: SyncTransport,
+  roomId: string,
+  expectedTrackId: string | null,
+  expectedSessionId: string | null,
+  library: RoomTrackInfo[],
+  userId: string
+): Promise<RoomTrackAdvance | null> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const roomData = await transport.fetchRoom(roomId);
+    if (!roomData) return null;
+    if ((roomData.currentTrackId || null) !== expectedTrackId) return null;
+    if ((roomData.trackSessionId || null) !== expectedSessionId) return null;
+
+    const result = buildRoomAdvance(roomData, library, userId);
+    if (!result) return null;
+
+    try {
+      const actionSeq = await transport.publishAction(roomId, userId, getActionSeq(roomData), result.updates);
+      return { ...result.advance, actionSeq };
+    } catch (error) {
+      if (!(error instanceof StaleRoomActionError)) throw error;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,109 @@
+// services/roomPresence.ts
+
+import { deleteField, doc, runTransaction, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { parseRoomAccess, pickNextHost, RoomAccessInfo } from './roomPermissions';
+import { getServerNow } from './timeSync';
+
+// Participants write a heartbeat to `presence.<uid>` on the room document.
+// Status is derived from how old that heartbeat is:
+//  - online:  recent heartbeat while the app is in the foreground
+//  - away:    recent heartbeat while the app is in the background
+//  - offline: no heartbeat for OFFLINE_AFTER_MS (crashed, killed or no network)
+// Members silent for PRUNE_AFTER_MS are removed from the room by whoever notices first.
+// Only listed members send heartbeats; someone removed from the room stays out.
+
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+export const OFFLINE_AFTER_MS = 90 * 1000; // three missed heartbeats
+export const PRUNE_AFTER_MS = 5 * 60 * 1000;
+
+export type PresenceState = 'active' | 'background';
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface PresenceEntry {
+  lastSeen: any; // Firestore Timestamp, null while our own write is pending
+  state: PresenceState;
+}
+
+interface PresenceMember {
+  id: string;
+  joinedAt: number;
+}
+
+// Milliseconds since epoch of the member's last sign of life.
+// Members who joined before presence existed fall back to their join time.
+export function getLastSeenMillis(roomData: any, member: PresenceMember, serverNow: number): number {
+  const entry: PresenceEntry | undefined = roomData?.presence?.[member.id];
+  if (!entry) return member.joinedAt || 0;
+  // Pending server timestamps only show up in our own local snapshots
+  return entry.lastSeen?.toMillis ? entry.lastSeen.toMillis() : serverNow;
+}
+
+export function getPresenceStatus(roomData: any, member: PresenceMember, serverNow: number): PresenceStatus {
+  const lastSeen = getLastSeenMillis(roomData, member, serverNow);
+  if (serverNow - lastSeen > OFFLINE_AFTER_MS) return 'offline';
+  return roomData?.presence?.[member.id]?.state === 'background' ? 'away' : 'online';
+}
+
+export function getPresenceStatuses(roomData: any, serverNow: number): Record<string, PresenceStatus> {
+  const statuses: Record<string, PresenceStatus> = {};
+  (roomData?.participants || []).forEach((member: PresenceMember) => {
+    statuses[member.id] = getPresenceStatus(roomData, member, serverNow);
+  });
+  return statuses;
+}
+
+// Members past the prune timeout, never including `selfId`
+export function findStaleParticipants(roomData: any, serverNow: number, selfId: string): string[] {
+  return (roomData?.participants || [])
+    .filter((member: PresenceMember) => member.id !== selfId)
+    .filter((member: PresenceMember) => serverNow - getLastSeenMillis(roomData, member, serverNow) > PRUNE_AFTER_MS)
+    .map((member: PresenceMember) => member.id);
+}
+
+// Room document fields that remove `staleIds`, handing the room on if the host is among them
+export function buildPruneUpdate(roomData: any, access: RoomAccessInfo, staleIds: string[]): Record<string, any> {
+  const participants = (roomData.participants || []).filter((p: PresenceMember) => !staleIds.includes(p.id));
+  const update: Record<string, any> = {
+    participants,
+    djIds: access.djIds.filter(id => !staleIds.includes(id)),
+  };
+
+  staleIds.forEach(id => {
+    update[`presence.${id}`] = deleteField();
+  });
+
+  if (access.ownerId && staleIds.includes(access.ownerId)) {
+    const nextHostId = pickNextHost(access, participants, access.ownerId);
+    update.ownerId = nextHostId;
+    update.djIds = update.djIds.filter((id: string) => id !== nextHostId);
+  }
+
+  return update;
+}
+
+// Refresh `userId`'s heartbeat. A single field write: it never reads the room
+// or puts a member who left back into it.
+export async function sendPresenceHeartbeat(roomId: string, userId: string, state: PresenceState): Promise<void> {
+  await updateDoc(doc(db, 'rooms', roomId), {
+    [`presence.${userId}`]: { lastSeen: serverTimestamp(), state },
+  });
+}
+
+// Remove members past the prune timeout, checking again inside the transaction
+// since whoever noticed first may already have done it
+export async function pruneStaleParticipants(roomId: string, selfId: string): Promise<void> {
+  const roomRef = doc(db, 'rooms', roomId);
+
+  await runTransaction(db, async (transaction) => {
+    const roomDoc = await transaction.get(roomRef);
+    if (!roomDoc.exists()) return;
+
+    const roomData = roomDoc.data();
+    const staleIds = findStaleParticipants(roomData, getServerNow(), selfId);
+    if (staleIds.length === 0) return;
+
+    console.log('👻 Removing stale participants:', staleIds);
+    transaction.update(roomRef, buildPruneUpdate(roomData, parseRoomAccess(roomData), staleIds));
+  });
+}
@@ -0,0 +1,99 @@
+// services/roomQueue.ts
+
+import { doc, runTransaction } from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// The room's shared "up next" list, stored in order on `rooms/{id}.upNext`.
+// Entries are addressed by entryId rather than index so concurrent edits never
+// remove or move the wrong song, and every change runs in a transaction.
+
+export const MAX_ROOM_QUEUE_LENGTH = 200;
+
+export interface RoomQueueEntry {
+  entryId: string;
+  songId: string;
+  title: string;
+  artist: string;
+  storagePath?: string; // lets members without the song fetch it
+  albumArt?: string;
+  addedBy: string;
+  addedByName: string;
+  addedAt: number;
+}
+
+interface QueueableSong {
+  id: string;
+  title: string;
+  artist: string;
+  storagePath?: string;
+  albumArt?: string;
+}
+
+export function parseRoomQueue(roomData: any): RoomQueueEntry[] {
+  return Array.isArray(roomData?.upNext) ? roomData.upNext : [];
+}
+
+function createEntryId(userId: string): string {
+  return `${Date.now().toString(36)}-${userId.slice(0, 6)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Read-modify-write of the queue inside a transaction; returns whatever `mutate` extracts.
+// `editorId` is recorded as upNextUpdatedBy so others can tell who changed the list.
+async function mutateRoomQueue<T>(
+  roomId: string,
+  editorId: string,
+  mutate: (queue: RoomQueueEntry[]) => { queue: RoomQueueEntry[]; result: T }
+): Promise<T> {
+  const roomRef = doc(db as any, 'rooms', roomId);
+  return runTransaction(db as any, async (transaction) => {
+    const roomDoc = await transaction.get(roomRef);
+    if (!roomDoc.exists()) throw new Error('Room no longer exists');
+
+    const { queue, result } = mutate([...parseRoomQueue(roomDoc.data())]);
+    transaction.update(roomRef, { upNext: queue, upNextUpdatedBy: editorId });
+    return result;
+  });
+}
+
+export async function addToRoomQueue(roomId: string, song: QueueableSong, userId: string, userName: string): Promise<RoomQueueEntry> {
+  const entry: RoomQueueEntry = {
+    entryId: createEntryId(userId),
+    songId: song.id,
+    title: song.title,
+    artist: song.artist,
+    ...(song.storagePath ? { storagePath: song.storagePath } : {}),
+    ...(song.albumArt ? { albumArt: song.albumArt } : {}),
+    addedBy: userId,
+    addedByName: userName,
+    addedAt: Date.now(),
+  };
+
+  return mutateRoomQueue(roomId, userId, queue => {
+    if (queue.length >= MAX_ROOM_QUEUE_LENGTH) throw new Error('Up next is full');
+    return { queue: [...queue, entry], result: entry };
+  });
+}
+
+export async function removeFromRoomQueue(roomId: string, entryId: string, userId: string): Promise<void> {
+  await mutateRoomQueue(roomId, userId, queue => ({
+    queue: queue.filter(entry => entry.entryId !== entryId),
+    result: undefined,
+  }));
+}
+
+// Move an entry to `toIndex` in the queue as it is at commit time (clamped)
+export async function moveRoomQueueEntry(roomId: string, entryId: string, toIndex: number, userId: string): Promise<void> {
+  await mutateRoomQueue(roomId, userId, queue => {
+    const fromIndex = queue.findIndex(entry => entry.entryId === entryId);
+    if (fromIndex === -1) return { queue, result: undefined };
+
+    const [entry] = queue.splice(fromIndex, 1);
+    const target = Math.max(0, Math.min(toIndex, queue.length));
+    queue.splice(target, 0, entry);
+    return { queue, result: undefined };
+  });
+}
+
+export async function clearRoomQueue(roomId: string, userId: string): Promise<void> {
+  await mutateRoomQueue(roomId, userId, () => ({ queue: [], result: undefined }));
+}
@@ -0,0 +1,137 @@
+// services/roomReadiness.ts
+
+import { doc, runTransaction, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { buildActionFields } from './roomActions';
+import { getPresenceStatuses } from './roomPresence';
+import { scheduleStartAt } from './scheduledStart';
+import { getServerNow } from './timeSync';
+
+// Ready check. Everyone reports how far along they are with the room's current
+// track under `readiness.<uid>`, tagged with the trackSessionId so reports reset
+// by themselves on every track change. Rooms with `readyCheckEnabled` don't start
+// a track (or resume) right away: the action leaves the room paused with a
+// `readyWait`, and the first device to see every online member ready, or the
+// wait's deadline pass, commits the scheduled start.
+
+export type TrackReadiness = 'downloading' | 'buffered' | 'failed';
+
+export const READY_CHECK_TIMEOUT_MS = 15000;
+
+export interface ReadyWait {
+  trackSessionId: string | null;
+  deadline: number; // server time at which playback starts regardless
+}
+
+// Room fields for an action that starts playback
+export interface PlaybackStartFields {
+  isPlaying: boolean;
+  lastActionSeekPosition: number;
+  scheduledStartAt: number | null;
+  readyWait: ReadyWait | null;
+}
+
+export function isReadyCheckEnabled(roomData: any): boolean {
+  return !!roomData?.readyCheckEnabled;
+}
+
+// Each member's readiness for the current track; null until they report
+export function getParticipantReadiness(roomData: any): Record<string, TrackReadiness | null> {
+  const trackSessionId = roomData?.trackSessionId || null;
+  const readiness: Record<string, TrackReadiness | null> = {};
+
+  (roomData?.participants || []).forEach((p: any) => {
+    const report = roomData.readiness?.[p.id];
+    readiness[p.id] = report && report.trackSessionId === trackSessionId ? report.state : null;
+  });
+  return readiness;
+}
+
+export function parseReadyWait(roomData: any): ReadyWait | null {
+  const wait = roomData?.readyWait;
+  if (!wait || wait.trackSessionId !== (roomData.trackSessionId || null)) return null;
+  return { trackSessionId: wait.trackSessionId, deadline: typeof wait.deadline === 'number' ? wait.deadline : 0 };
+}
+
+// Online members still loading the track. Members whose load failed don't hold the room up.
+export function getUnreadyParticipantIds(roomData: any, serverNow: number): string[] {
+  const statuses = getPresenceStatuses(roomData, serverNow);
+  const readiness = getParticipantReadiness(roomData);
+  return Object.keys(readiness).filter(id => (
+    statuses[id] !== 'offline' && readiness[id] !== 'buffered' && readiness[id] !== 'failed'
+  ));
+}
+
+export function shouldReleaseReadyWait(roomData: any, serverNow: number): boolean {
+  const wait = parseReadyWait(roomData);
+  if (!wait) return false;
+  return serverNow >= wait.deadline || getUnreadyParticipantIds(roomData, serverNow).length === 0;
+}
+
+// Start playback of `trackSessionId` from `seekPosition`: on a scheduled instant,
+// or as a ready wait when the room asks for one and not everyone has the track.
+export function buildPlaybackStart(
+  roomData: any,
+  trackSessionId: string | null,
+  seekPosition: number,
+  serverNow: number = getServerNow()
+): PlaybackStartFields {
+  const isNewTrack = trackSessionId !== (roomData?.trackSessionId || null);
+  if (isReadyCheckEnabled(roomData) && (isNewTrack || getUnreadyParticipantIds(roomData, serverNow).length > 0)) {
+    return {
+      isPlaying: false,
+      lastActionSeekPosition: seekPosition,
+      scheduledStartAt: null,
+      readyWait: { trackSessionId, deadline: Math.round(serverNow + READY_CHECK_TIMEOUT_MS) },
+    };
+  }
+
+  return {
+    isPlaying: true,
+    lastActionSeekPosition: seekPosition,
+    scheduledStartAt: scheduleStartAt(serverNow),
+    readyWait: null,
+  };
+}
+
+export async function reportTrackReadiness(
+  roomId: string,
+  userId: string,
+  trackSessionId: string,
+  readiness: TrackReadiness
+): Promise<void> {
+  try {
+    await updateDoc(doc(db as any, 'rooms', roomId), {
+      [`readiness.${userId}`]: { trackSessionId, state: readiness, updatedAt: serverTimestamp() },
+    });
+  } catch (error) {
+    console.log('⚠️ Could not report track readiness:', error);
+  }
+}
+
+// End the room's ready wait for `trackSessionId` with a scheduled start, if it is
+// still due. Resolves the action's sequence number, or null when another device
+// started it first or the room moved on.
+export async function releaseReadyWait(roomId: string, userId: string, trackSessionId: string | null): Promise<number | null> {
+  const roomRef = doc(db as any, 'rooms', roomId);
+
+  return runTransaction(db as any, async (transaction) => {
+    const roomDoc = await transaction.get(roomRef);
+    if (!roomDoc.exists()) return null;
+
+    const roomData = roomDoc.data();
+    const serverNow = getServerNow();
+    if ((roomData.trackSessionId || null) !== trackSessionId || !shouldReleaseReadyWait(roomData, serverNow)) {
+      return null;
+    }
+
+    const updates: Record<string, any> = {
+      isPlaying: true,
+      scheduledStartAt: scheduleStartAt(serverNow),
+      readyWait: null,
+      ...buildActionFields(roomData, userId),
+    };
+    transaction.update(roomRef, updates);
+    return updates.actionSeq;
+  });
+}
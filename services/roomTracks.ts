@@ -0,0 +1,53 @@
+// services/roomTracks.ts
+
+import { getDownloadURL, ref } from 'firebase/storage';
+import { storage } from '../config/firebase';
+
+// Track changes carry the song's metadata on `rooms/{id}.currentTrack`, so a
+// participant whose library doesn't list the song can still fetch it from
+// Firebase Storage by its storage path and play along.
+
+export interface RoomTrackInfo {
+  id: string;
+  title: string;
+  artist: string;
+  storagePath?: string;
+  albumArt?: string;
+}
+
+export interface ResolvedRoomTrack extends RoomTrackInfo {
+  url: string;
+  duration: number;
+}
+
+// Firestore rejects undefined fields, so only set what we know
+export function buildRoomTrackInfo(song: RoomTrackInfo): RoomTrackInfo {
+  return {
+    id: song.id,
+    title: song.title,
+    artist: song.artist,
+    ...(song.storagePath ? { storagePath: song.storagePath } : {}),
+    ...(song.albumArt ? { albumArt: song.albumArt } : {}),
+  };
+}
+
+// Metadata for the room's current track, if the writer included it
+export function parseRoomTrackInfo(roomData: any): RoomTrackInfo | null {
+  const track = roomData?.currentTrack;
+  if (!track || !roomData.currentTrackId || track.id !== roomData.currentTrackId) return null;
+  return track;
+}
+
+export async function resolveRoomTrack(track: RoomTrackInfo): Promise<ResolvedRoomTrack> {
+  if (!track.storagePath) {
+    throw new Error('This song is only in the DJ\'s library');
+  }
+
+  try {
+    const url = await getDownloadURL(ref(storage, track.storagePath));
+    return { ...buildRoomTrackInfo(track), url, duration: 0 };
+  } catch (error) {
+    console.error('❌ Error resolving room track:', error);
+    throw new Error('This song could not be downloaded');
+  }
+}
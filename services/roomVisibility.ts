@@ -0,0 +1,180 @@
+// services/roomVisibility.ts
+
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// Who may find and join a room.
+//  - public:   listed and joinable by anyone
+//  - unlisted: not listed, joinable by anyone who knows the ID
+//  - private:  joinable only with the passphrase and/or when on the allow-list
+// The passphrase is never stored; rooms keep a salted SHA-256 hash of it.
+//
+// This is not access control. The checks only run in the app, and the hash
+// (salted with the known room ID, so easy to brute-force) and the allow-list
+// sit on the room document, which every signed-in user can read and write.
+// Anyone with a modified client or the Firestore API can join, listen in or
+// recover a weak passphrase. Treat private rooms as "hidden from casual
+// joiners" until Firestore security rules enforce membership server-side.
+
+export type RoomVisibility = 'public' | 'unlisted' | 'private';
+
+export interface RoomVisibilitySettings {
+  visibility: RoomVisibility;
+  passphrase?: string; // private rooms: set or replace the passphrase
+  allowedUserIds?: string[]; // private rooms: members allowed without a passphrase
+}
+
+export type RoomAccessErrorCode = 'passphrase-required' | 'wrong-passphrase' | 'not-allowed';
+
+export class RoomAccessError extends Error {
+  code: RoomAccessErrorCode;
+
+  constructor(code: RoomAccessErrorCode, message: string) {
+    super(message);
+    this.name = 'RoomAccessError';
+    this.code = code;
+  }
+}
+
+// --- SHA-256 (small pure-JS implementation, no native crypto in Expo Go) ---
+
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+function sha256Hex(message: string): string {
+  const bytes = Array.from(new TextEncoder().encode(message));
+  const bitLength = bytes.length * 8;
+
+  bytes.push(0x80);
+  while (bytes.length % 64 !== 56) bytes.push(0);
+  // Message length as a 64-bit big-endian integer (high word is 0 for our inputs)
+  bytes.push(0, 0, 0, 0);
+  bytes.push((bitLength >>> 24) & 0xff, (bitLength >>> 16) & 0xff, (bitLength >>> 8) & 0xff, bitLength & 0xff);
+
+  const h = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  const w = new Array<number>(64);
+
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (hh + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) | 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    h[0] = (h[0] + a) | 0;
+    h[1] = (h[1] + b) | 0;
+    h[2] = (h[2] + c) | 0;
+    h[3] = (h[3] + d) | 0;
+    h[4] = (h[4] + e) | 0;
+    h[5] = (h[5] + f) | 0;
+    h[6] = (h[6] + g) | 0;
+    h[7] = (h[7] + hh) | 0;
+  }
+
+  return h.map(x => (x >>> 0).toString(16).padStart(8, '0')).join('');
+}
+
+// Salt with the room ID so equal passphrases differ between rooms
+export function hashRoomPassphrase(roomId: string, passphrase: string): string {
+  return sha256Hex(`sunulu-room:${roomId}:${passphrase.trim()}`);
+}
+
+export function getRoomVisibility(roomData: any): RoomVisibility {
+  return roomData?.visibility || 'public';
+}
+
+// Throws RoomAccessError when `userId` may not join the room described by `roomData`
+export function checkRoomAccess(roomId: string, roomData: any, userId: string, passphrase?: string): void {
+  if (getRoomVisibility(roomData) !== 'private') return;
+
+  // Current members and the host can always come back
+  const participants = roomData.participants || [];
+  if (roomData.ownerId === userId || participants.some((p: any) => p.id === userId)) return;
+
+  const allowedUserIds: string[] = roomData.allowedUserIds || [];
+  if (allowedUserIds.includes(userId)) return;
+
+  if (!roomData.passphraseHash) {
+    throw new RoomAccessError('not-allowed', 'This room is private and you are not on its guest list');
+  }
+
+  if (!passphrase) {
+    throw new RoomAccessError('passphrase-required', 'This room is private. Enter the passphrase to join.');
+  }
+
+  if (hashRoomPassphrase(roomId, passphrase) !== roomData.passphraseHash) {
+    throw new RoomAccessError('wrong-passphrase', 'Incorrect passphrase. Please try again.');
+  }
+}
+
+// Room document fields for a visibility change
+export function buildVisibilityUpdate(roomId: string, settings: RoomVisibilitySettings): Record<string, any> {
+  if (settings.visibility !== 'private') {
+    return {
+      visibility: settings.visibility,
+      passphraseHash: null,
+      allowedUserIds: [],
+    };
+  }
+
+  const update: Record<string, any> = {
+    visibility: 'private',
+    allowedUserIds: settings.allowedUserIds || [],
+  };
+  if (settings.passphrase !== undefined) {
+    update.passphraseHash = settings.passphrase.trim() ? hashRoomPassphrase(roomId, settings.passphrase) : null;
+  }
+  return update;
+}
+
+// Host-side save of a visibility change. A private room needs a passphrase or
+// an allow-list; leaving the passphrase out keeps the one it already has.
+export async function saveRoomVisibility(roomId: string, settings: RoomVisibilitySettings): Promise<void> {
+  const roomRef = doc(db as any, 'rooms', roomId);
+  if (settings.visibility === 'private' && !settings.passphrase?.trim() && !(settings.allowedUserIds || []).length) {
+    const roomDoc = await getDoc(roomRef);
+    const keepsExistingPassphrase = settings.passphrase === undefined && !!roomDoc.data()?.passphraseHash;
+    if (!keepsExistingPassphrase) {
+      throw new Error('Private rooms need a passphrase or at least one allowed member');
+    }
+  }
+
+  try {
+    await updateDoc(roomRef, buildVisibilityUpdate(roomId, settings));
+    console.log('🔒 Updated room visibility:', settings.visibility);
+  } catch (error) {
+    console.error('❌ Error updating room visibility:', error);
+    throw new Error('Failed to update room privacy');
+  }
+}
@@ -0,0 +1,58 @@
+// services/scheduledStart.ts
+
+import { getServerNow } from './timeSync';
+
+// Track changes and resumes don't start "now": they carry `scheduledStartAt`,
+// an instant on the server clock a short lead time after the action. Every
+// device prepares the sound in the meantime and starts it at that instant, so
+// nobody's start depends on how fast their own download was. Devices that are
+// still loading when the instant passes join at the position the room has
+// reached. Pauses and seeks clear it and anchor on `lastActionTime` as before.
+
+export const START_LEAD_MS = 1500;
+// Scheduled starts further out than this are treated as clock trouble on the writer's side
+export const MAX_START_LEAD_MS = 10000;
+// Starting this late is still treated as on time; anything later seeks ahead
+export const LATE_START_TOLERANCE_MS = 50;
+
+const FINE_WAIT_MS = 30; // timers are coarse; the last stretch is polled
+
+export interface PlaybackAnchor {
+  anchorMillis: number; // server time at which playback is at `seekPosition`
+  seekPosition: number;
+}
+
+// The instant to write for an action taken now
+export function scheduleStartAt(serverNow: number = getServerNow(), leadMs: number = START_LEAD_MS): number {
+  return Math.round(serverNow + leadMs);
+}
+
+// When the room's playback was (or will be) at `lastActionSeekPosition`, on the
+// server clock. Scheduled starts are kept within sane bounds of the action time.
+export function getPlaybackAnchorMillis(roomData: any): number | null {
+  const actionTime = roomData?.lastActionTime?.toMillis ? roomData.lastActionTime.toMillis() : null;
+  const scheduled = typeof roomData?.scheduledStartAt === 'number' ? roomData.scheduledStartAt : null;
+
+  if (!roomData?.isPlaying || scheduled === null) return actionTime;
+  if (actionTime === null) return scheduled;
+  return Math.min(Math.max(scheduled, actionTime), actionTime + MAX_START_LEAD_MS);
+}
+
+export function getPlaybackAnchor(roomData: any): PlaybackAnchor | null {
+  const anchorMillis = getPlaybackAnchorMillis(roomData);
+  if (anchorMillis === null) return null;
+  return { anchorMillis, seekPosition: roomData.lastActionSeekPosition || 0 };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Resolve once the server clock reaches `targetMillis`
+export async function waitForServerTime(targetMillis: number): Promise<void> {
+  const remaining = targetMillis - getServerNow();
+  if (remaining > FINE_WAIT_MS) {
+    await sleep(remaining - FINE_WAIT_MS);
+  }
+  while (getServerNow() < targetMillis) {
+    await sleep(1);
+  }
+}
@@ -0,0 +1,104 @@
+// services/skipVotes.ts
+
+import { doc, runTransaction } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { buildActionFields } from './roomActions';
+import { buildRoomAdvance, RoomTrackAdvance } from './roomPlayback';
+import { recordTrackChange } from './roomHistory';
+import { RoomTrackInfo } from './roomTracks';
+import { getPresenceStatuses } from './roomPresence';
+import { getServerNow } from './timeSync';
+
+// Vote-to-skip. Votes live on `rooms/{id}.skipVotes` and belong to one track
+// session, so they reset by themselves whenever the track changes. The vote that
+// reaches the threshold performs the skip in the same transaction, so a track
+// is skipped exactly once no matter how many votes arrive together. Votes need
+// Firestore transactions, so LAN relay rooms don't have them.
+
+export type SkipVoteMode = 'majority' | 'count' | 'host';
+
+export interface SkipVotePolicy {
+  mode: SkipVoteMode;
+  count: number; // votes needed in 'count' mode
+}
+
+export interface SkipVoteState {
+  policy: SkipVotePolicy;
+  voterIds: string[];
+  threshold: number | null; // null when only the host can skip
+}
+
+export const DEFAULT_SKIP_VOTE_POLICY: SkipVotePolicy = { mode: 'majority', count: 2 };
+
+export function parseSkipVotePolicy(roomData: any): SkipVotePolicy {
+  return { ...DEFAULT_SKIP_VOTE_POLICY, ...(roomData?.skipVotePolicy || {}) };
+}
+
+// Members who are not offline get a say
+function countVotingMembers(roomData: any): number {
+  const statuses = getPresenceStatuses(roomData, getServerNow());
+  const active = Object.values(statuses).filter(status => status !== 'offline').length;
+  return Math.max(active, 1);
+}
+
+export function getSkipVoteThreshold(policy: SkipVotePolicy, memberCount: number): number | null {
+  switch (policy.mode) {
+    case 'host':
+      return null;
+    case 'count':
+      // Never ask for more votes than there are people
+      return Math.max(1, Math.min(policy.count, memberCount));
+    default:
+      return Math.floor(memberCount / 2) + 1;
+  }
+}
+
+export function getSkipVoteState(roomData: any): SkipVoteState {
+  const policy = parseSkipVotePolicy(roomData);
+  const votes = roomData?.skipVotes;
+  const voterIds: string[] = votes && votes.trackSessionId === (roomData.trackSessionId || null) ? votes.voterIds || [] : [];
+  return {
+    policy,
+    voterIds,
+    threshold: getSkipVoteThreshold(policy, countVotingMembers(roomData)),
+  };
+}
+
+// Add or withdraw `userId`'s vote on the current track. Resolves the committed
+// advance when this vote tipped the room over the threshold.
+export async function toggleSkipVote(
+  roomId: string,
+  userId: string,
+  library: RoomTrackInfo[]
+): Promise<RoomTrackAdvance | null> {
+  const roomRef = doc(db as any, 'rooms', roomId);
+
+  return runTransaction(db as any, async (transaction) => {
+    const roomDoc = await transaction.get(roomRef);
+    if (!roomDoc.exists()) throw new Error('Room no longer exists');
+
+    const roomData = roomDoc.data();
+    if (!roomData.currentTrackId) throw new Error('Nothing is playing');
+
+    const { voterIds, threshold } = getSkipVoteState(roomData);
+    if (threshold === null) throw new Error('Only the host can skip in this room');
+
+    const trackSessionId = roomData.trackSessionId || null;
+    const nextVoterIds = voterIds.includes(userId)
+      ? voterIds.filter(id => id !== userId)
+      : [...voterIds, userId];
+
+    if (nextVoterIds.length >= threshold) {
+      const result = buildRoomAdvance(roomData, library, userId);
+      if (result) {
+        const updates = { ...result.updates, ...buildActionFields(roomData, userId), skipVotes: null };
+        await recordTrackChange(transaction, roomId, roomData, updates);
+        transaction.update(roomRef, updates);
+        return result.advance;
+      }
+    }
+
+    transaction.update(roomRef, { skipVotes: { trackSessionId, voterIds: nextVoterIds } });
+    return null;
+  });
+}
@@ -0,0 +1,160 @@
+// services/songCache.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { parseLoudnessTags, TrackLoudness } from './loudness';
+import { PlayerTrack } from './playerEngine';
+
+// The song list is read from Firebase Storage at most once a day and kept in
+// AsyncStorage; the songs themselves are downloaded when first played and kept
+// in the app's documents, named by song ID.
+
+const SONG_CACHE_DIR = `${FileSystem.documentDirectory}song-cache/`;
+const CACHED_SONGS_KEY = 'cached_songs';
+const CACHE_TIMESTAMP_KEY = 'songs_cache_timestamp';
+const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+// Tags sit at the start of most files; MP4 metadata may come after the audio
+const TAG_HEAD_BYTES = 256 * 1024;
+const TAG_TAIL_BYTES = 128 * 1024;
+
+async function ensureCacheDir() {
+  const dirInfo = await FileSystem.getInfoAsync(SONG_CACHE_DIR);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(SONG_CACHE_DIR, { intermediates: true });
+  }
+}
+
+// Cache songs to AsyncStorage
+export async function cacheSongsToStorage<T>(songs: T[]): Promise<void> {
+  try {
+    const songsData = JSON.stringify(songs);
+    await AsyncStorage.setItem(CACHED_SONGS_KEY, songsData);
+    await AsyncStorage.setItem(CACHE_TIMESTAMP_KEY, Date.now().toString());
+    console.log('💾 Cached songs to AsyncStorage');
+  } catch (error) {
+    console.error('❌ Error caching songs to AsyncStorage:', error);
+  }
+}
+
+// Load cached songs from AsyncStorage
+export async function loadCachedSongs<T>(): Promise<T[] | null> {
+  try {
+    const cachedSongs = await AsyncStorage.getItem(CACHED_SONGS_KEY);
+    const cacheTimestamp = await AsyncStorage.getItem(CACHE_TIMESTAMP_KEY);
+
+    if (!cachedSongs || !cacheTimestamp) {
+      return null;
+    }
+
+    const timestamp = parseInt(cacheTimestamp);
+    const now = Date.now();
+
+    // Check if cache is still valid (24 hours)
+    if (now - timestamp > CACHE_DURATION) {
+      console.log('⏰ Song cache expired, will fetch fresh data');
+      return null;
+    }
+
+    const songs = JSON.parse(cachedSongs);
+    console.log('📱 Loaded cached songs from AsyncStorage');
+    return songs;
+  } catch (error) {
+    console.error('❌ Error loading cached songs:', error);
+    return null;
+  }
+}
+
+// The downloaded copy of a song, if we have one
+export async function getCachedSongUri(song: PlayerTrack): Promise<string | null> {
+  const localUri = `${SONG_CACHE_DIR}${song.id}`;
+  const localFileInfo = await FileSystem.getInfoAsync(localUri);
+  return localFileInfo.exists ? localUri : null;
+}
+
+// Download a song for playback, falling back to streaming it if that fails
+export async function downloadSong(song: PlayerTrack): Promise<string> {
+  try {
+    const localUri = `${SONG_CACHE_DIR}${song.id}`;
+    await ensureCacheDir();
+    await FileSystem.downloadAsync(song.url, localUri);
+    console.log('✅ Song downloaded and cached');
+    return localUri;
+  } catch (downloadError) {
+    console.log('⚠️ Failed to download song, using remote URL:', downloadError);
+    return song.url;
+  }
+}
+
+export async function getPlayableUri(song: PlayerTrack): Promise<string> {
+  const cachedUri = await getCachedSongUri(song);
+  if (cachedUri) {
+    console.log('📱 Using cached song file');
+    return cachedUri;
+  }
+
+  console.log('⏬ Downloading song on-demand...');
+  return downloadSong(song);
+}
+
+// Download a song we are likely to play soon
+export async function preloadSong(song: PlayerTrack): Promise<void> {
+  try {
+    if (await getCachedSongUri(song)) return;
+
+    console.log('🔄 Preloading song:', song.title);
+    await ensureCacheDir();
+    await FileSystem.downloadAsync(song.url, `${SONG_CACHE_DIR}${song.id}`);
+    console.log('✅ Song preloaded:', song.title);
+  } catch (error) {
+    console.log('⚠️ Failed to preload song:', error);
+  }
+}
+
+// Loudness tags of a downloaded song; streamed songs have none to read
+export async function readLoudnessTags(uri: string): Promise<TrackLoudness | null> {
+  if (!uri.startsWith('file:')) return null;
+
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists || !info.size) return null;
+
+    const readBytes = async (position: number, length: number) => atob(
+      await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64, position, length })
+    );
+    const head = await readBytes(0, Math.min(info.size, TAG_HEAD_BYTES));
+    const tail = info.size > TAG_HEAD_BYTES
+      ? await readBytes(Math.max(TAG_HEAD_BYTES, info.size - TAG_TAIL_BYTES), Math.min(TAG_TAIL_BYTES, info.size - TAG_HEAD_BYTES))
+      : '';
+
+    return parseLoudnessTags(head + tail);
+  } catch (error) {
+    console.log('⚠️ Failed to read loudness tags:', error);
+    return null;
+  }
+}
+
+// Forget the song list and delete every downloaded song
+export async function clearCachedSongs(): Promise<void> {
+  try {
+    console.log('🗑️ Clearing song cache...');
+
+    // Clear AsyncStorage cache
+    await AsyncStorage.removeItem(CACHED_SONGS_KEY);
+    await AsyncStorage.removeItem(CACHE_TIMESTAMP_KEY);
+
+    // Clear file cache directory
+    try {
+      const dirInfo = await FileSystem.getInfoAsync(SONG_CACHE_DIR);
+      if (dirInfo.exists) {
+        await FileSystem.deleteAsync(SONG_CACHE_DIR);
+        await FileSystem.makeDirectoryAsync(SONG_CACHE_DIR, { intermediates: true });
+      }
+    } catch (fileError) {
+      console.log('⚠️ Could not clear file cache:', fileError);
+    }
+
+    console.log('✅ Song cache cleared');
+  } catch (error) {
+    console.error('❌ Error clearing song cache:', error);
+  }
+}
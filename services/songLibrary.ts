@@ -0,0 +1,191 @@
+// services/songLibrary.ts
+
+import { getDownloadURL, listAll, ref, StorageReference } from 'firebase/storage';
+import { storage } from '../config/firebase';
+import { LOUDNESS_MANIFEST_NAME, parseLoudnessManifest, TrackLoudness } from './loudness';
+import { PlayerTrack } from './playerEngine';
+
+// The song list comes from Firebase Storage: audio files in the bucket root, or
+// else in the first of the user's music folder, `music` and `songs` that has
+// any. Titles and artists come from "Artist - Title" file names; album art from
+// an image next to the file. Songs are downloaded when first played (see songCache).
+
+export interface LibrarySong extends PlayerTrack {
+  artist: string;
+  albumArt?: string;
+  storagePath?: string; // Firebase Storage path, shared with the room on track changes
+  loudness?: TrackLoudness; // from the folder's loudness.json
+}
+
+const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.aac', '.flac', '.ogg'];
+
+function isAudioFile(fileName: string): boolean {
+  const lowerName = fileName.toLowerCase();
+  return AUDIO_EXTENSIONS.some(extension => lowerName.endsWith(extension));
+}
+
+// Extract metadata from audio files
+async function extractMetadata(fileName: string, filePath?: string): Promise<{ title: string; artist: string; albumArt?: string }> {
+  try {
+    // Parse filename for basic metadata
+    const nameWithoutExt = fileName.replace(/\.[^/.]+$/, "");
+    const parts = nameWithoutExt.split(' - ');
+
+    let title = nameWithoutExt;
+    let artist = 'Unknown Artist';
+
+    if (parts.length >= 2) {
+      artist = parts[0].trim();
+      title = parts.slice(1).join(' - ').trim();
+    }
+
+    // Try to find corresponding album art
+    let albumArt: string | undefined = undefined;
+    try {
+      // Look for common album art file names
+      const possibleAlbumArtNames = [
+        `${nameWithoutExt}.jpg`,
+        `${nameWithoutExt}.jpeg`,
+        `${nameWithoutExt}.png`,
+        `${artist} - album.jpg`,
+        `${artist} - album.jpeg`,
+        `${artist} - album.png`,
+        'cover.jpg',
+        'cover.jpeg',
+        'cover.png',
+        'album.jpg',
+        'album.jpeg',
+        'album.png',
+      ];
+
+      // Try to get album art from the same directory as the audio file
+      for (const artName of possibleAlbumArtNames) {
+        try {
+          // Fall back to the root directory without a specific path
+          const artRef = ref(storage, filePath ? `${filePath}/${artName}` : artName);
+          albumArt = await getDownloadURL(artRef);
+          console.log(`🎨 Found album art: ${artName} in ${filePath || 'root'}`);
+          break;
+        } catch {
+          // Continue to next possible name
+        }
+      }
+
+      // If no specific album art found, try a generic music placeholder
+      if (!albumArt) {
+        try {
+          const placeholderRef = ref(storage, 'music-placeholder.jpg');
+          albumArt = await getDownloadURL(placeholderRef);
+        } catch {
+          // No placeholder available
+        }
+      }
+    } catch {
+      console.log('No album art found for:', fileName);
+    }
+
+    return { title, artist, albumArt };
+  } catch (error) {
+    console.error('Error extracting metadata:', error);
+    return {
+      title: fileName.replace(/\.[^/.]+$/, ""),
+      artist: 'Unknown Artist',
+      albumArt: undefined,
+    };
+  }
+}
+
+// Gains from loudness.json in a song folder (see scripts/analyze-loudness.js)
+async function loadLoudnessManifest(folderPath: string): Promise<Record<string, TrackLoudness>> {
+  try {
+    const manifestRef = ref(storage, folderPath ? `${folderPath}/${LOUDNESS_MANIFEST_NAME}` : LOUDNESS_MANIFEST_NAME);
+    const response = await fetch(await getDownloadURL(manifestRef));
+    const tracks = parseLoudnessManifest(await response.json());
+    console.log(`🔊 Loaded loudness for ${Object.keys(tracks).length} songs in ${folderPath || 'root'}`);
+    return tracks;
+  } catch {
+    // Not analyzed yet; songs fall back to their own tags
+    return {};
+  }
+}
+
+// The audio files among `items`, skipping any that fail to load
+async function loadFolderSongs(items: StorageReference[], folderPath: string): Promise<LibrarySong[]> {
+  const loudness = await loadLoudnessManifest(folderPath);
+  const songs: LibrarySong[] = [];
+
+  for (const itemRef of items) {
+    try {
+      // Only process audio files
+      if (!isAudioFile(itemRef.name)) continue;
+
+      const downloadUrl = await getDownloadURL(itemRef);
+      const metadata = await extractMetadata(itemRef.name, folderPath);
+
+      const song: LibrarySong = {
+        id: itemRef.name,
+        title: metadata.title,
+        artist: metadata.artist,
+        url: downloadUrl, // Keep remote URL, will download on-demand
+        duration: 0, // Will be set when the song is loaded
+        albumArt: metadata.albumArt,
+        storagePath: itemRef.fullPath,
+        loudness: loudness[itemRef.name],
+      };
+
+      songs.push(song);
+      console.log(`✅ Loaded song metadata: ${song.title} by ${song.artist}`);
+    } catch (fileError) {
+      console.error(`❌ Error loading file ${itemRef.name}:`, fileError);
+    }
+  }
+
+  return songs;
+}
+
+// Song metadata for `userId` from Firebase Storage; empty when there are no songs
+export async function loadSongLibrary(userId: string): Promise<LibrarySong[]> {
+  // Try root directory first
+  console.log('🔍 Trying to access root directory first...');
+  try {
+    const rootResult = await listAll(ref(storage));
+    console.log(`📁 Root directory contains ${rootResult.items.length} items`);
+
+    if (rootResult.items.length > 0) {
+      const songs = await loadFolderSongs(rootResult.items, '');
+      if (songs.length > 0) {
+        console.log(`🎵 Found ${songs.length} songs in root`);
+        return songs;
+      }
+    }
+  } catch {
+    console.log('📁 Root directory not accessible');
+  }
+
+  // If no songs found in root, try subdirectories
+  console.log('🔍 No songs in root, trying subdirectories...');
+  const possiblePaths = [
+    `users/${userId}/music`,
+    `music`,
+    `songs`,
+  ];
+
+  for (const path of possiblePaths) {
+    try {
+      console.log(`🔍 Trying path: ${path}`);
+      const result = await listAll(ref(storage, path));
+
+      if (result.items.length > 0) {
+        console.log(`📁 Found ${result.items.length} files in path: ${path}`);
+        // Found songs, stop searching
+        const songs = await loadFolderSongs(result.items, path);
+        console.log(`🎵 Found ${songs.length} songs in path: ${path}`);
+        return songs;
+      }
+    } catch {
+      console.log(`📁 Path ${path} not accessible or empty`);
+    }
+  }
+
+  return [];
+}
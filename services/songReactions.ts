@@ -0,0 +1,77 @@
+// services/songReactions.ts
+
+// Likes and moods live on the room document as `likes.<songId>.<uid>` and
+// `moods.<songId>.<uid>`, one entry per person per song. Every participant
+// reads them back from room snapshots and aggregates them per song here.
+
+export type SongMoodType = 'love' | 'party' | 'kiss' | 'thumbsup' | 'thumbsdown' | 'puke' | 'crying';
+
+export const MOOD_EMOJI: Record<SongMoodType, string> = {
+  love: '❤️',
+  party: '🎉',
+  kiss: '😘',
+  thumbsup: '👍',
+  thumbsdown: '👎',
+  puke: '🤮',
+  crying: '😢',
+};
+
+export interface SongLike {
+  songId: string;
+  userId: string;
+  userName: string;
+  timestamp: number;
+}
+
+export interface SongMood {
+  songId: string;
+  userId: string;
+  userName: string;
+  mood: SongMoodType;
+  timestamp: number;
+}
+
+export interface SongReactions {
+  likes: SongLike[]; // oldest first
+  moods: SongMood[]; // newest first
+  moodCounts: Partial<Record<SongMoodType, number>>;
+  latestMood: SongMood | null;
+}
+
+export const EMPTY_SONG_REACTIONS: SongReactions = {
+  likes: [],
+  moods: [],
+  moodCounts: {},
+  latestMood: null,
+};
+
+const entriesOf = <T>(map: any): T[] => (map && typeof map === 'object' ? Object.values(map) : []);
+
+// Per-song likes and moods from a room snapshot
+export function parseSongReactions(roomData: any): Record<string, SongReactions> {
+  const songIds = new Set([
+    ...Object.keys(roomData?.likes || {}),
+    ...Object.keys(roomData?.moods || {}),
+  ]);
+  const reactions: Record<string, SongReactions> = {};
+
+  songIds.forEach(songId => {
+    const likes = entriesOf<SongLike>(roomData.likes?.[songId]).sort((a, b) => a.timestamp - b.timestamp);
+    const moods = entriesOf<SongMood>(roomData.moods?.[songId])
+      .filter(mood => mood.mood in MOOD_EMOJI)
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    const moodCounts: Partial<Record<SongMoodType, number>> = {};
+    moods.forEach(mood => {
+      moodCounts[mood.mood] = (moodCounts[mood.mood] || 0) + 1;
+    });
+
+    reactions[songId] = { likes, moods, moodCounts, latestMood: moods[0] || null };
+  });
+
+  return reactions;
+}
+
+export function getSongReactions(reactions: Record<string, SongReactions>, songId: string | null | undefined): SongReactions {
+  return (songId && reactions[songId]) || EMPTY_SONG_REACTIONS;
+}
@@ -0,0 +1,158 @@
+// services/syncDiagnostics.ts
+
+import { Share } from 'react-native';
+import { DriftControllerConfig, DriftCorrection } from './driftController';
+import { ClockSyncState } from './timeSync';
+
+// A rolling record of how room sync is doing, for the diagnostics screen and
+// for bug reports: every room snapshot we receive (with how long its action
+// took to reach us) and every drift check. Only the last few minutes are kept.
+
+export const DIAGNOSTICS_WINDOW_MS = 5 * 60 * 1000;
+const MAX_SAMPLES = 600;
+
+export interface SnapshotSample {
+  receivedAt: number; // server time
+  actionSeq: number | null;
+  applied: boolean;
+  latencyMs: number | null; // action commit to arrival here, for snapshots carrying a new action
+}
+
+export interface DriftSample {
+  at: number; // server time
+  remotePositionSec: number;
+  localPositionSec: number;
+  driftSec: number; // positive when we are behind the room
+  correction: DriftCorrection['type'];
+}
+
+export interface SyncDiagnostics {
+  latestSnapshot: any;
+  snapshots: SnapshotSample[];
+  driftSamples: DriftSample[];
+}
+
+export interface DiagnosticsTraceContext {
+  roomId: string | null;
+  userId: string | null;
+  transport: string;
+  clockSync: ClockSyncState;
+  driftConfig: DriftControllerConfig;
+}
+
+let diagnostics: SyncDiagnostics = { latestSnapshot: null, snapshots: [], driftSamples: [] };
+let listeners: ((state: SyncDiagnostics) => void)[] = [];
+
+const millis = (timestamp: any) => (timestamp?.toMillis ? timestamp.toMillis() : null);
+
+function prune<T>(samples: T[], getTime: (sample: T) => number, now: number): T[] {
+  return samples.filter(sample => now - getTime(sample) <= DIAGNOSTICS_WINDOW_MS).slice(-MAX_SAMPLES);
+}
+
+function notifyListeners() {
+  listeners.forEach(listener => listener(diagnostics));
+}
+
+export function recordRoomSnapshot(roomData: any, serverNow: number, applied: boolean) {
+  const actionTime = millis(roomData?.lastActionTime);
+  diagnostics = {
+    ...diagnostics,
+    latestSnapshot: roomData,
+    snapshots: prune([
+      ...diagnostics.snapshots,
+      {
+        receivedAt: serverNow,
+        actionSeq: typeof roomData?.actionSeq === 'number' ? roomData.actionSeq : null,
+        applied,
+        latencyMs: applied && actionTime !== null ? Math.max(0, serverNow - actionTime) : null,
+      },
+    ], sample => sample.receivedAt, serverNow),
+  };
+  notifyListeners();
+}
+
+export function recordDriftSample(serverNow: number, remotePositionSec: number, correction: DriftCorrection) {
+  diagnostics = {
+    ...diagnostics,
+    driftSamples: prune([
+      ...diagnostics.driftSamples,
+      {
+        at: serverNow,
+        remotePositionSec,
+        localPositionSec: remotePositionSec - correction.driftSec,
+        driftSec: correction.driftSec,
+        correction: correction.type,
+      },
+    ], sample => sample.at, serverNow),
+  };
+  notifyListeners();
+}
+
+export function clearSyncDiagnostics() {
+  diagnostics = { latestSnapshot: null, snapshots: [], driftSamples: [] };
+  notifyListeners();
+}
+
+export function getSyncDiagnostics(): SyncDiagnostics {
+  return diagnostics;
+}
+
+export function subscribeToSyncDiagnostics(listener: (state: SyncDiagnostics) => void): () => void {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter(l => l !== listener);
+  };
+}
+
+export function countSeeksPerMinute(samples: DriftSample[], serverNow: number): number {
+  return samples.filter(sample => sample.correction === 'seek' && serverNow - sample.at <= 60 * 1000).length;
+}
+
+export function getMedianLatency(samples: SnapshotSample[]): number | null {
+  const latencies = samples.map(sample => sample.latencyMs).filter((ms): ms is number => ms !== null).sort((a, b) => a - b);
+  return latencies.length > 0 ? latencies[Math.floor(latencies.length / 2)] : null;
+}
+
+// Room data without who may join or how to reach its members, for sharing
+export function redactSnapshot(roomData: any): any {
+  if (!roomData || typeof roomData !== 'object') return roomData;
+
+  const { passphraseHash, allowedUserIds, ...redacted } = roomData;
+  if (Array.isArray(redacted.participants)) {
+    redacted.participants = redacted.participants.map(({ email, ...participant }: any) => participant);
+  }
+  return redacted;
+}
+
+// Room data with timestamps as plain milliseconds, so it survives JSON
+export function serializeSnapshot(value: any): any {
+  if (value === null || typeof value !== 'object') return value;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (Array.isArray(value)) return value.map(serializeSnapshot);
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, serializeSnapshot(entry)]));
+}
+
+export function buildDiagnosticsTrace(context: DiagnosticsTraceContext, serverNow: number) {
+  return {
+    exportedAt: new Date(serverNow).toISOString(),
+    windowMs: DIAGNOSTICS_WINDOW_MS,
+    ...context,
+    seeksPerMinute: countSeeksPerMinute(diagnostics.driftSamples, serverNow),
+    medianLatencyMs: getMedianLatency(diagnostics.snapshots),
+    latestSnapshot: serializeSnapshot(redactSnapshot(diagnostics.latestSnapshot)),
+    snapshots: diagnostics.snapshots,
+    driftSamples: diagnostics.driftSamples,
+  };
+}
+
+export async function shareDiagnosticsTrace(context: DiagnosticsTraceContext, serverNow: number): Promise<void> {
+  try {
+    await Share.share({
+      title: 'Sunulu sync trace',
+      message: JSON.stringify(buildDiagnosticsTrace(context, serverNow), null, 2),
+    });
+  } catch (error) {
+    console.error('❌ Error sharing diagnostics trace:', error);
+    throw new Error('Failed to export trace');
+  }
+}
@@ -0,0 +1,43 @@
+// services/syncTransport.ts
+
+import { RoomPermissionPolicy } from './roomPermissions';
+
+// How a device exchanges room state with the rest of the room. Every transport
+// hands out room state in the shape of the Firestore room document, with
+// timestamps exposing toMillis() in server time, and commits playback changes
+// as versioned actions (see roomActions.ts). Everything else on the room
+// (settings, roles, reactions) is a plain update that leaves actionSeq alone.
+
+export type SyncTransportKind = 'firestore' | 'websocket';
+
+export interface SyncMember {
+  id: string;
+  email: string | null;
+  name: string | null; // username, shown to the rest of the room
+}
+
+export interface SyncJoinOptions {
+  passphrase?: string; // private rooms only
+  permissions?: RoomPermissionPolicy; // used when this join creates the room
+}
+
+export interface SyncTransport {
+  kind: SyncTransportKind;
+  // Add the member to the room, creating it if it doesn't exist yet
+  join(roomId: string, member: SyncMember, options?: SyncJoinOptions): Promise<void>;
+  leave(roomId: string, userId: string): Promise<void>;
+  // Resolves the new actionSeq; throws StaleRoomActionError if the room moved past baseSeq
+  publishAction(roomId: string, userId: string, baseSeq: number, changes: Record<string, any>): Promise<number>;
+  // Set fields that aren't playback; keys may be dotted paths, as in Firestore updates
+  updateRoom(roomId: string, changes: Record<string, any>): Promise<void>;
+  fetchRoom(roomId: string): Promise<any | null>;
+  // Called with the full room state on every change; returns an unsubscribe function
+  subscribe(roomId: string, onRoomState: (roomData: any) => void): () => void;
+  close(): void;
+}
+
+// Up next, skip votes, the ready check, privacy and host handover rely on
+// Firestore transactions and rules, so LAN relay rooms go without them
+export function ensureFirestoreTransport(transport: SyncTransport, feature: string) {
+  if (transport.kind !== 'firestore') throw new Error(`${feature} is not available on a LAN relay`);
+}
@@ -0,0 +1,165 @@
+// services/timeSync.ts
+
+import { doc, getDocFromServer, serverTimestamp, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// Estimates how far this device's wall clock is from Firestore server time.
+// Each probe writes a serverTimestamp() to the user's own document in the
+// `timeSync` collection (not their profile, whose listeners would fire on every
+// probe) and reads it back; the server stamped the write somewhere between sending it
+// and receiving the acknowledgement, so the midpoint of that round trip is
+// our best guess for the local time the stamp corresponds to.
+
+export type ClockSyncConfidence = 'none' | 'low' | 'medium' | 'high';
+
+export interface ClockSyncState {
+  offsetMs: number; // serverTime - localTime
+  uncertaintyMs: number;
+  roundTripMs: number;
+  sampleCount: number;
+  confidence: ClockSyncConfidence;
+  lastSyncedAt: number | null;
+}
+
+export interface ClockSample {
+  offsetMs: number;
+  roundTripMs: number;
+}
+
+const PROBES_PER_SYNC = 5;
+const RESYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const MAX_ACCEPTED_ROUND_TRIP = 5000;
+
+let clockSync: ClockSyncState = {
+  offsetMs: 0,
+  uncertaintyMs: Infinity,
+  roundTripMs: 0,
+  sampleCount: 0,
+  confidence: 'none',
+  lastSyncedAt: null,
+};
+let listeners: ((state: ClockSyncState) => void)[] = [];
+let resyncTimer: ReturnType<typeof setInterval> | null = null;
+let syncInFlight: Promise<ClockSyncState> | null = null;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export function getConfidence(uncertaintyMs: number, sampleCount: number): ClockSyncConfidence {
+  if (sampleCount === 0) return 'none';
+  if (uncertaintyMs <= 75 && sampleCount >= 3) return 'high';
+  if (uncertaintyMs <= 250) return 'medium';
+  return 'low';
+}
+
+async function probeServerTime(userId: string): Promise<ClockSample | null> {
+  const probeRef = doc(db, 'timeSync', userId);
+
+  const sentAt = Date.now();
+  await setDoc(probeRef, { probedAt: serverTimestamp() });
+  const ackedAt = Date.now();
+
+  const probeDoc = await getDocFromServer(probeRef);
+  const serverTime = probeDoc.data()?.probedAt;
+  if (!serverTime?.toMillis) return null;
+
+  const roundTripMs = ackedAt - sentAt;
+  return {
+    offsetMs: serverTime.toMillis() - (sentAt + roundTripMs / 2),
+    roundTripMs,
+  };
+}
+
+// Drop samples whose round trip was unusually slow (queued writes, radio
+// wake-ups) and combine the rest; the fastest probes bound the offset best.
+export function combineSamples(samples: ClockSample[]): ClockSyncState | null {
+  const usable = samples.filter(s => s.roundTripMs <= MAX_ACCEPTED_ROUND_TRIP);
+  if (usable.length === 0) return null;
+
+  const medianRoundTrip = median(usable.map(s => s.roundTripMs));
+  const fastest = usable.filter(s => s.roundTripMs <= medianRoundTrip * 1.5);
+
+  const offsetMs = median(fastest.map(s => s.offsetMs));
+  const spread = Math.max(...fastest.map(s => Math.abs(s.offsetMs - offsetMs)));
+  const bestRoundTrip = Math.min(...fastest.map(s => s.roundTripMs));
+  const uncertaintyMs = Math.max(bestRoundTrip / 2, spread);
+
+  return {
+    offsetMs: Math.round(offsetMs),
+    uncertaintyMs: Math.round(uncertaintyMs),
+    roundTripMs: Math.round(median(fastest.map(s => s.roundTripMs))),
+    sampleCount: fastest.length,
+    confidence: getConfidence(uncertaintyMs, fastest.length),
+    lastSyncedAt: Date.now(),
+  };
+}
+
+function notifyListeners() {
+  listeners.forEach(listener => listener(clockSync));
+}
+
+// Run a fresh round of probes and update the shared offset estimate
+export async function syncServerTime(userId: string): Promise<ClockSyncState> {
+  if (syncInFlight) return syncInFlight;
+
+  syncInFlight = (async () => {
+    const samples: ClockSample[] = [];
+    for (let i = 0; i < PROBES_PER_SYNC; i++) {
+      try {
+        const sample = await probeServerTime(userId);
+        if (sample) samples.push(sample);
+      } catch (error) {
+        console.log('⚠️ Clock probe failed:', error);
+      }
+    }
+
+    const combined = combineSamples(samples);
+    if (combined) {
+      clockSync = combined;
+      notifyListeners();
+      console.log('⏱️ Clock offset estimated:', combined);
+    } else {
+      console.log('⚠️ Clock sync produced no usable samples, keeping previous offset');
+    }
+    return clockSync;
+  })();
+
+  try {
+    return await syncInFlight;
+  } finally {
+    syncInFlight = null;
+  }
+}
+
+// Start probing now and periodically afterwards
+export function startTimeSync(userId: string) {
+  stopTimeSync();
+  syncServerTime(userId);
+  resyncTimer = setInterval(() => syncServerTime(userId), RESYNC_INTERVAL);
+}
+
+export function stopTimeSync() {
+  if (resyncTimer) {
+    clearInterval(resyncTimer);
+    resyncTimer = null;
+  }
+}
+
+// Current time on the server's clock, in milliseconds
+export function getServerNow(): number {
+  return Date.now() + clockSync.offsetMs;
+}
+
+export function getClockSync(): ClockSyncState {
+  return clockSync;
+}
+
+export function subscribeToClockSync(listener: (state: ClockSyncState) => void): () => void {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter(l => l !== listener);
+  };
+}
@@ -0,0 +1,231 @@
+// services/webSocketTransport.ts
+
+import { StaleRoomActionError } from './roomActions';
+import { SyncJoinOptions, SyncMember, SyncTransport } from './syncTransport';
+import { getClockSync } from './timeSync';
+
+// Talks to the LAN relay in scripts/sync-relay.js. The relay keeps room state
+// in memory, applies versioned actions the same way commitRoomAction does and
+// pushes the whole room to every subscriber on each change. Messages are JSON;
+// requests carry a requestId and are answered with a `result` message.
+//
+// The relay stamps times with its own clock. We measure the relay's offset with
+// a few pings and convert its stamps into Firestore server time, so the drift
+// controller and presence code see the same kind of timestamps as before.
+
+const REQUEST_TIMEOUT_MS = 5000;
+const RECONNECT_DELAY_MS = 2000;
+const CLOCK_PROBES = 5;
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export function createWebSocketTransport(url: string): SyncTransport {
+  let socket: WebSocket | null = null;
+  let connecting: Promise<WebSocket> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  let nextRequestId = 1;
+  let relayOffsetMs = 0; // relayTime - localTime
+  let bestRoundTripMs = Infinity;
+
+  const pending = new Map<string, PendingRequest>();
+  const subscribers = new Map<string, Set<(roomData: any) => void>>();
+  const joinedRooms = new Map<string, { member: SyncMember; options: SyncJoinOptions }>();
+
+  // Relay time -> Firestore server time, via this device's clock
+  const toServerMillis = (relayMillis: number) => relayMillis - relayOffsetMs + getClockSync().offsetMs;
+  const timestamp = (relayMillis: number) => ({ toMillis: () => toServerMillis(relayMillis) });
+
+  const hydrateRoom = (room: any) => {
+    if (!room) return null;
+    const presence: Record<string, any> = {};
+    Object.entries(room.presence || {}).forEach(([userId, entry]: [string, any]) => {
+      presence[userId] = { ...entry, lastSeen: timestamp(entry.lastSeen) };
+    });
+    return {
+      ...room,
+      lastActionTime: typeof room.lastActionTime === 'number' ? timestamp(room.lastActionTime) : null,
+      presence,
+    };
+  };
+
+  const handleMessage = (message: any) => {
+    switch (message.type) {
+      case 'state': {
+        const roomData = hydrateRoom(message.room);
+        subscribers.get(message.roomId)?.forEach(listener => listener(roomData));
+        break;
+      }
+      case 'result': {
+        const request = pending.get(message.requestId);
+        if (!request) return;
+        pending.delete(message.requestId);
+        clearTimeout(request.timer);
+
+        if (message.ok) {
+          request.resolve(message.value);
+        } else if (message.code === 'stale') {
+          request.reject(new StaleRoomActionError(message.roomSeq));
+        } else {
+          request.reject(new Error(message.error || 'Relay request failed'));
+        }
+        break;
+      }
+      case 'pong': {
+        const receivedAt = Date.now();
+        const roundTripMs = receivedAt - message.sentAt;
+        if (roundTripMs < bestRoundTripMs) {
+          bestRoundTripMs = roundTripMs;
+          relayOffsetMs = message.relayTime - (message.sentAt + roundTripMs / 2);
+        }
+        break;
+      }
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer || (joinedRooms.size === 0 && subscribers.size === 0)) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect().catch(error => {
+        console.log('⚠️ [SYNC] Relay reconnect failed:', error.message);
+        scheduleReconnect();
+      });
+    }, RECONNECT_DELAY_MS);
+  };
+
+  const connect = (): Promise<WebSocket> => {
+    if (socket && socket.readyState === WebSocket.OPEN) return Promise.resolve(socket);
+    if (connecting) return connecting;
+
+    connecting = new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+
+      ws.onopen = () => {
+        console.log('🔌 [SYNC] Connected to relay:', url);
+        socket = ws;
+        connecting = null;
+
+        bestRoundTripMs = Infinity;
+        for (let i = 0; i < CLOCK_PROBES; i++) {
+          ws.send(JSON.stringify({ type: 'ping', sentAt: Date.now() }));
+        }
+
+        // Pick up where we were after a dropped connection
+        joinedRooms.forEach(({ member, options }, roomId) => {
+          ws.send(JSON.stringify({ type: 'join', roomId, member, permissions: options.permissions }));
+        });
+        subscribers.forEach((_, roomId) => {
+          ws.send(JSON.stringify({ type: 'subscribe', roomId }));
+        });
+
+        resolve(ws);
+      };
+
+      ws.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error('❌ [SYNC] Bad relay message:', error);
+        }
+      };
+
+      ws.onerror = () => {
+        if (connecting) {
+          connecting = null;
+          reject(new Error(`Could not reach relay at ${url}`));
+        }
+      };
+
+      ws.onclose = () => {
+        console.log('🔌 [SYNC] Relay connection closed');
+        if (socket === ws) socket = null;
+        pending.forEach(request => {
+          clearTimeout(request.timer);
+          request.reject(new Error('Relay connection closed'));
+        });
+        pending.clear();
+        scheduleReconnect();
+      };
+    });
+
+    return connecting;
+  };
+
+  const request = async (message: Record<string, any>): Promise<any> => {
+    const ws = await connect();
+    const requestId = `${nextRequestId++}`;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(requestId);
+        reject(new Error('Relay did not respond'));
+      }, REQUEST_TIMEOUT_MS);
+
+      pending.set(requestId, { resolve, reject, timer });
+      ws.send(JSON.stringify({ ...message, requestId }));
+    });
+  };
+
+  return {
+    kind: 'websocket',
+
+    join: async (roomId, member, options = {}) => {
+      await request({ type: 'join', roomId, member, permissions: options.permissions });
+      joinedRooms.set(roomId, { member, options });
+    },
+
+    leave: async (roomId, userId) => {
+      joinedRooms.delete(roomId);
+      await request({ type: 'leave', roomId, userId });
+    },
+
+    publishAction: (roomId, userId, baseSeq, changes) =>
+      request({ type: 'action', roomId, userId, baseSeq, changes }),
+
+    updateRoom: async (roomId, changes) => {
+      await request({ type: 'update', roomId, changes });
+    },
+
+    fetchRoom: async (roomId) => hydrateRoom(await request({ type: 'fetch', roomId })),
+
+    subscribe: (roomId, onRoomState) => {
+      const listeners = subscribers.get(roomId) || new Set();
+      listeners.add(onRoomState);
+      subscribers.set(roomId, listeners);
+
+      if (listeners.size === 1) {
+        connect()
+          .then(ws => ws.send(JSON.stringify({ type: 'subscribe', roomId })))
+          .catch(error => console.error('❌ [SYNC] Error subscribing to relay room:', error));
+      } else {
+        // Late subscribers still want the current state right away
+        request({ type: 'fetch', roomId })
+          .then(room => room && onRoomState(hydrateRoom(room)))
+          .catch(error => console.error('❌ [SYNC] Error fetching relay room:', error));
+      }
+
+      return () => {
+        listeners.delete(onRoomState);
+        if (listeners.size > 0) return;
+        subscribers.delete(roomId);
+        if (socket && socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({ type: 'unsubscribe', roomId }));
+        }
+      };
+    },
+
+    close: () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      joinedRooms.clear();
+      subscribers.clear();
+      socket?.close();
+      socket = null;
+    },
+  };
+}